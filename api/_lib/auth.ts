@@ -0,0 +1,52 @@
+// Supabase access for the serverless API routes: a service-role client and
+// verification of the caller's access token
+
+import {
+  createClient,
+  type SupabaseClient,
+  type User,
+} from "@supabase/supabase-js";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { Database } from "../../src/integrations/supabase/types";
+
+let supabaseAdmin: SupabaseClient<Database> | null = null;
+
+/**
+ * Service-role client; bypasses RLS, so only use it on the server
+ */
+export function getSupabaseAdmin(): SupabaseClient<Database> {
+  if (!supabaseAdmin) {
+    const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      throw new Error("Supabase service role is not configured");
+    }
+    supabaseAdmin = createClient<Database>(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return supabaseAdmin;
+}
+
+/**
+ * Resolve the user from the request's `Authorization: Bearer <jwt>` header,
+ * or send a 401 and return null
+ */
+export async function requireUser(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<User | null> {
+  const header = req.headers.authorization || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+  if (!token) {
+    res.status(401).json({ error: "Missing access token" });
+    return null;
+  }
+
+  const { data, error } = await getSupabaseAdmin().auth.getUser(token);
+  if (error || !data.user) {
+    res.status(401).json({ error: "Invalid or expired access token" });
+    return null;
+  }
+  return data.user;
+}
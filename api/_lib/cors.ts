@@ -0,0 +1,57 @@
+// Shared CORS handling for the serverless API routes
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+const splitOrigins = (value: string) =>
+  value.split(",").map((url) => url.trim());
+
+const getAllowedOrigins = (): string[] => {
+  const allowedOrigins: string[] = [];
+
+  // Add allowed origins from environment variables
+  if (process.env.VITE_APP_URL) {
+    allowedOrigins.push(process.env.VITE_APP_URL);
+  }
+
+  if (process.env.ALLOWED_ORIGINS) {
+    allowedOrigins.push(...splitOrigins(process.env.ALLOWED_ORIGINS));
+  }
+
+  // Add local development URLs if in development mode
+  if (process.env.NODE_ENV === "development" || !process.env.VERCEL) {
+    if (process.env.VITE_DEV_ORIGINS) {
+      allowedOrigins.push(...splitOrigins(process.env.VITE_DEV_ORIGINS));
+    }
+  }
+
+  return allowedOrigins;
+};
+
+/**
+ * Set CORS headers and answer preflight and non-POST requests. Returns true
+ * when the response has been sent and the route should stop.
+ */
+export function handleCors(req: VercelRequest, res: VercelResponse): boolean {
+  const origin = req.headers.origin;
+  if (origin && getAllowedOrigins().includes(origin)) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+  }
+
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  res.setHeader("Access-Control-Max-Age", "86400"); // 24 hours
+
+  // Handle preflight requests
+  if (req.method === "OPTIONS") {
+    res.status(200).end();
+    return true;
+  }
+
+  // Only allow POST requests
+  if (req.method !== "POST") {
+    res.status(405).json({ error: "Method not allowed" });
+    return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,132 @@
+// Per-user daily request quotas for the AI proxy routes, counted in the
+// ai_proxy_usage table, and the daily and monthly spend caps in spend_budgets
+
+import type { VercelResponse } from "@vercel/node";
+import { getSupabaseAdmin } from "./auth";
+import { COST_LIMITS } from "../../src/config/openRouter";
+
+export type QuotaKind = "chat" | "transcription";
+
+export type BudgetPeriod = "day" | "month";
+
+// Enough for several full interviews a day, including classification and
+// the session summary
+const DEFAULT_DAILY_LIMITS: Record<QuotaKind, number> = {
+  chat: 200,
+  transcription: 50,
+};
+
+const LIMIT_ENV_VARS: Record<QuotaKind, string> = {
+  chat: "AI_CHAT_DAILY_LIMIT",
+  transcription: "AI_TRANSCRIPTION_DAILY_LIMIT",
+};
+
+const QUOTA_LABELS: Record<QuotaKind, string> = {
+  chat: "AI analysis",
+  transcription: "transcription",
+};
+
+// Caps in cents for users without a spend_budgets row
+const DEFAULT_BUDGET_CENTS: Record<BudgetPeriod, number> = {
+  day: COST_LIMITS.DEFAULT_DAILY_LIMIT_CENTS,
+  month: COST_LIMITS.DEFAULT_MONTHLY_LIMIT_CENTS,
+};
+
+const BUDGET_LABELS: Record<BudgetPeriod, string> = {
+  day: "Daily",
+  month: "Monthly",
+};
+
+const BUDGET_RESETS: Record<BudgetPeriod, string> = {
+  day: "at midnight UTC",
+  month: "on the 1st of the month (UTC)",
+};
+
+export const getDailyLimit = (kind: QuotaKind): number =>
+  parseInt(process.env[LIMIT_ENV_VARS[kind]] || "") ||
+  DEFAULT_DAILY_LIMITS[kind];
+
+/**
+ * Count one request against the user's quota for today, or send a 429 and
+ * return false when it is used up
+ */
+export async function enforceQuota(
+  res: VercelResponse,
+  userId: string,
+  kind: QuotaKind
+): Promise<boolean> {
+  const limit = getDailyLimit(kind);
+  const { data, error } = await getSupabaseAdmin().rpc(
+    "consume_ai_proxy_quota",
+    { p_user_id: userId, p_kind: kind, p_limit: limit }
+  );
+  if (error) {
+    throw new Error(`Failed to check AI quota: ${error.message}`);
+  }
+
+  if (data === null) {
+    res.status(429).json({
+      error: `Daily ${QUOTA_LABELS[kind]} limit of ${limit} requests reached. It resets at midnight UTC.`,
+    });
+    return false;
+  }
+  return true;
+}
+
+const getPeriodStart = (period: BudgetPeriod): string => {
+  const now = new Date();
+  return new Date(
+    Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      period === "day" ? now.getUTCDate() : 1
+    )
+  ).toISOString();
+};
+
+/**
+ * Send a 429 and return false when the user has already spent today's or
+ * this month's budget, as recorded in the usage ledgers. A call's cost is
+ * only known once it finishes, so the call that crosses a cap still runs.
+ */
+export async function enforceBudget(
+  res: VercelResponse,
+  userId: string
+): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data: budget, error } = await supabase
+    .from("spend_budgets")
+    .select("daily_limit_cents, monthly_limit_cents")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load spend budget: ${error.message}`);
+  }
+
+  const limits: Record<BudgetPeriod, number | null> = budget
+    ? { day: budget.daily_limit_cents, month: budget.monthly_limit_cents }
+    : DEFAULT_BUDGET_CENTS;
+
+  for (const period of ["day", "month"] as BudgetPeriod[]) {
+    const limit = limits[period];
+    if (limit === null) continue;
+
+    const { data: spent, error: spendError } = await supabase.rpc(
+      "get_spend_cents",
+      { p_user_id: userId, p_since: getPeriodStart(period) }
+    );
+    if (spendError) {
+      throw new Error(`Failed to check spend budget: ${spendError.message}`);
+    }
+
+    if (Number(spent) >= limit) {
+      res.status(429).json({
+        error: `${BUDGET_LABELS[period]} spend budget of $${(
+          limit / 100
+        ).toFixed(2)} reached. It resets ${BUDGET_RESETS[period]}.`,
+      });
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,173 @@
+// Server-written usage ledger. Clients can read their own rows but not write
+// them. LLM usage is measured here from the provider's response; transcription
+// runs in the browser, so its audio length is what the browser reports.
+
+import { getSupabaseAdmin } from "./auth";
+import type {
+  LLMProviderConfig,
+  LLMProviderId,
+} from "../../src/config/llmProviders";
+import { MODEL_CONFIG, type ModelId } from "../../src/config/openRouter";
+import { calculateTranscriptionCost } from "../../src/config/transcriptionPricing";
+import {
+  USAGE_PURPOSES,
+  resolveProviderModel,
+  toAppModelId,
+  type ChatCompletionResponse,
+  type UsageContext,
+  type UsagePurpose,
+} from "../../src/services/llmAdapters";
+
+export interface UsageEvent {
+  userId: string;
+  usage: UsageContext;
+  provider: LLMProviderId;
+  model: string; // the model that served the call, see getServedModel
+  response: ChatCompletionResponse | null; // null when the request failed
+  latencyMs: number;
+  errorMessage?: string;
+}
+
+export interface TranscriptionUsageEvent {
+  userId: string;
+  sessionId?: string;
+  provider: string;
+  model: string;
+  streamed: boolean;
+  audioSeconds: number;
+}
+
+// Provider errors can embed whole response bodies
+const MAX_ERROR_MESSAGE_LENGTH = 500;
+const MAX_ATTEMPT = 10;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A session id, or undefined when it isn't a UUID
+ */
+export const sanitizeSessionId = (sessionId: unknown): string | undefined =>
+  typeof sessionId === "string" && UUID_PATTERN.test(sessionId)
+    ? sessionId
+    : undefined;
+
+/**
+ * Keep only a known purpose, a well-formed session id and a sane attempt
+ */
+export const sanitizeUsage = (body: unknown): UsageContext => {
+  const usage = (body as { usage?: Partial<UsageContext> })?.usage;
+  const purpose = usage?.purpose as UsagePurpose;
+  return {
+    purpose: USAGE_PURPOSES.includes(purpose) ? purpose : "other",
+    sessionId: sanitizeSessionId(usage?.sessionId),
+    attempt: Math.min(MAX_ATTEMPT, Math.max(1, Number(usage?.attempt) || 1)),
+  };
+};
+
+/**
+ * The app model that actually served a call, which can differ from the one
+ * requested when the provider substitutes a model or LLM_MODEL overrides it.
+ * Falls back to the provider's own id for models the app doesn't know.
+ */
+export const getServedModel = (
+  config: LLMProviderConfig,
+  requested: string,
+  response: ChatCompletionResponse | null
+): string => {
+  let resolved = requested;
+  try {
+    resolved = resolveProviderModel(config, requested);
+  } catch {
+    // The provider has no model for the request, so nothing was served
+  }
+  const served = [response?.model, resolved].filter(Boolean) as string[];
+  return (
+    served.map((model) => toAppModelId(config.provider, model)).find(Boolean) ??
+    served[0]
+  );
+};
+
+/**
+ * Cost of a completion in fractional cents; local models are free to run
+ */
+const getCostCents = (
+  provider: LLMProviderId,
+  model: string,
+  response: ChatCompletionResponse | null
+): number => {
+  const pricing = MODEL_CONFIG[model as ModelId];
+  if (!response || !pricing || provider === "local") return 0;
+  const { prompt_tokens = 0, completion_tokens = 0 } = response.usage || {};
+  const cents =
+    (prompt_tokens * pricing.inputCostPerToken +
+      completion_tokens * pricing.outputCostPerToken) *
+    100;
+  // cost_cents keeps four decimal places
+  return Math.round(cents * 10000) / 10000;
+};
+
+/**
+ * Record one chat completion, successful or failed. Never throws, so a
+ * ledger outage can't fail the request itself.
+ */
+export async function recordUsageEvent(event: UsageEvent): Promise<void> {
+  const inputTokens = event.response?.usage?.prompt_tokens || 0;
+  const outputTokens = event.response?.usage?.completion_tokens || 0;
+
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from("usage_events")
+      .insert({
+        user_id: event.userId,
+        session_id: event.usage.sessionId ?? null,
+        purpose: event.usage.purpose,
+        provider: event.provider,
+        model: event.model,
+        status: event.response ? "success" : "error",
+        attempt: event.usage.attempt ?? 1,
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+        cost_cents: getCostCents(event.provider, event.model, event.response),
+        latency_ms: Math.round(event.latencyMs),
+        error_message:
+          event.errorMessage?.slice(0, MAX_ERROR_MESSAGE_LENGTH) ?? null,
+      });
+    if (error) {
+      console.error("Error recording usage event:", error);
+    }
+  } catch (error) {
+    console.error("Error recording usage event:", error);
+  }
+}
+
+/**
+ * Record one transcription, priced here rather than by the browser. Never
+ * throws, like recordUsageEvent.
+ */
+export async function recordTranscriptionUsage(
+  event: TranscriptionUsageEvent
+): Promise<void> {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from("transcription_usage")
+      .insert({
+        session_id: event.sessionId ?? null,
+        user_id: event.userId,
+        provider: event.provider,
+        model: event.model,
+        streamed: event.streamed,
+        audio_seconds: Math.round(event.audioSeconds * 100) / 100,
+        cost_cents: calculateTranscriptionCost(
+          event.provider,
+          event.audioSeconds,
+          event.streamed
+        ),
+      });
+    if (error) {
+      console.error("Error recording transcription usage:", error);
+    }
+  } catch (error) {
+    console.error("Error recording transcription usage:", error);
+  }
+}
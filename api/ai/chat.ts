@@ -0,0 +1,162 @@
+// Vercel Serverless Function proxying chat completions (answer analysis,
+// question classification and session summaries) so the LLM provider keys
+// stay on the server. Callers must send a Supabase access token and are
+// limited to a daily number of requests and their spend budget. Every
+// completion is recorded in the usage ledger.
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { handleCors } from "../_lib/cors";
+import { requireUser } from "../_lib/auth";
+import { enforceBudget, enforceQuota } from "../_lib/quota";
+import {
+  getServedModel,
+  recordUsageEvent,
+  sanitizeUsage,
+} from "../_lib/usageLedger";
+import {
+  buildLLMProviderConfig,
+  parseLLMProviderId,
+  type LLMEnv,
+} from "../../src/config/llmProviders";
+import { MODEL_CONFIG } from "../../src/config/openRouter";
+import {
+  createLLMProvider,
+  type ChatCompletionRequest,
+  type ChatMessage,
+} from "../../src/services/llmAdapters";
+
+export const config = { maxDuration: 60 };
+
+const MAX_OUTPUT_TOKENS = 4000;
+// Long transcripts plus the analysis prompt stay well below this
+const MAX_PROMPT_CHARS = 200000;
+const MESSAGE_ROLES: ChatMessage["role"][] = ["system", "user", "assistant"];
+
+// Server variables are unprefixed so they never reach the client bundle
+const SERVER_ENV: LLMEnv = { prefix: "", read: (key) => process.env[key] };
+
+const getProviderConfig = () => {
+  const provider = parseLLMProviderId(process.env.LLM_PROVIDER, "openrouter");
+  // The proxy cannot forward to itself
+  return buildLLMProviderConfig(
+    provider === "proxy" ? "openrouter" : provider,
+    SERVER_ENV
+  );
+};
+
+/**
+ * Keep only the fields the app sends, so callers cannot pick arbitrary
+ * models or run up unbounded output. Returns an error message when invalid.
+ */
+const sanitizeRequest = (body: unknown): ChatCompletionRequest | string => {
+  const request = (body as { request?: Partial<ChatCompletionRequest> })
+    ?.request;
+  if (!request || typeof request !== "object") return "request is required";
+
+  if (typeof request.model !== "string" || !(request.model in MODEL_CONFIG)) {
+    return "Unsupported model";
+  }
+
+  const messages = request.messages;
+  if (
+    !Array.isArray(messages) ||
+    messages.length === 0 ||
+    messages.some(
+      (message) =>
+        !MESSAGE_ROLES.includes(message?.role) ||
+        typeof message.content !== "string"
+    )
+  ) {
+    return "messages must be a non-empty list of chat messages";
+  }
+  const promptChars = messages.reduce(
+    (sum, message) => sum + message.content.length,
+    0
+  );
+  if (promptChars > MAX_PROMPT_CHARS) return "Prompt is too long";
+
+  return {
+    model: request.model,
+    messages: messages.map(({ role, content }) => ({ role, content })),
+    temperature:
+      typeof request.temperature === "number"
+        ? Math.min(2, Math.max(0, request.temperature))
+        : undefined,
+    max_tokens: Math.min(
+      MAX_OUTPUT_TOKENS,
+      Math.max(1, Number(request.max_tokens) || MAX_OUTPUT_TOKENS)
+    ),
+    ...(request.response_format?.type === "json_object"
+      ? { response_format: { type: "json_object" as const } }
+      : {}),
+  };
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+
+  const providerConfig = getProviderConfig();
+  if (providerConfig.apiKeyEnvVar && !providerConfig.apiKey) {
+    console.error(`${providerConfig.apiKeyEnvVar} not configured`);
+    return res.status(500).json({ error: "AI provider not configured" });
+  }
+
+  const request = sanitizeRequest(req.body);
+  if (typeof request === "string") {
+    return res.status(400).json({ error: request });
+  }
+  const usage = sanitizeUsage(req.body);
+
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+    if (!(await enforceBudget(res, user.id))) return;
+    if (!(await enforceQuota(res, user.id, "chat"))) return;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      providerConfig.timeoutMs
+    );
+    const startTime = Date.now();
+    const ledgerEntry = {
+      userId: user.id,
+      usage,
+      provider: providerConfig.provider,
+    };
+    try {
+      const response = await createLLMProvider(providerConfig).complete(
+        request,
+        controller.signal
+      );
+      await recordUsageEvent({
+        ...ledgerEntry,
+        model: getServedModel(providerConfig, request.model, response),
+        response,
+        latencyMs: Date.now() - startTime,
+      });
+      return res.status(200).json(response);
+    } catch (error) {
+      await recordUsageEvent({
+        ...ledgerEntry,
+        model: getServedModel(providerConfig, request.model, null),
+        response: null,
+        latencyMs: Date.now() - startTime,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  } catch (error) {
+    console.error("Error proxying chat completion:", error);
+    return res.status(502).json({
+      error:
+        error instanceof Error && error.name === "AbortError"
+          ? `${providerConfig.name} API timeout after ${providerConfig.timeoutMs}ms`
+          : error instanceof Error
+          ? error.message
+          : "AI request failed",
+    });
+  }
+}
@@ -3,6 +3,7 @@
 
 import { Resend } from "resend";
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { handleCors } from "./_lib/cors";
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -182,47 +183,7 @@ const createWelcomeEmailHTML = (userName: string, dashboardUrl: string) => {
 };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Set CORS headers
-  const allowedOrigins: string[] = [];
-
-  // Add allowed origins from environment variables
-  if (process.env.VITE_APP_URL) {
-    allowedOrigins.push(process.env.VITE_APP_URL);
-  }
-
-  if (process.env.ALLOWED_ORIGINS) {
-    allowedOrigins.push(
-      ...process.env.ALLOWED_ORIGINS.split(",").map((url) => url.trim())
-    );
-  }
-
-  // Add local development URLs if in development mode
-  if (process.env.NODE_ENV === "development" || !process.env.VERCEL) {
-    if (process.env.VITE_DEV_ORIGINS) {
-      allowedOrigins.push(
-        ...process.env.VITE_DEV_ORIGINS.split(",").map((url) => url.trim())
-      );
-    }
-  }
-
-  const origin = req.headers.origin;
-  if (origin && allowedOrigins.includes(origin)) {
-    res.setHeader("Access-Control-Allow-Origin", origin);
-  }
-
-  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
-  res.setHeader("Access-Control-Max-Age", "86400"); // 24 hours
-
-  // Handle preflight requests
-  if (req.method === "OPTIONS") {
-    return res.status(200).end();
-  }
-
-  // Only allow POST requests
-  if (req.method !== "POST") {
-    return res.status(405).json({ error: "Method not allowed" });
-  }
+  if (handleCors(req, res)) return;
 
   // Check for required environment variables
   if (!process.env.RESEND_API_KEY) {
@@ -0,0 +1,56 @@
+// Vercel Serverless Function issuing short-lived Deepgram tokens. The browser
+// streams and uploads audio to Deepgram itself (recordings are larger than a
+// function request body allows) but never sees the Deepgram API key.
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { handleCors } from "../_lib/cors";
+import { requireUser } from "../_lib/auth";
+import { enforceBudget, enforceQuota } from "../_lib/quota";
+
+const DEEPGRAM_GRANT_URL = "https://api.deepgram.com/v1/auth/grant";
+// Only needs to outlive opening the socket or starting the upload
+const TOKEN_TTL_SECONDS = 60;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+
+  const apiKey = process.env.DEEPGRAM_API_KEY;
+  if (!apiKey) {
+    console.error("DEEPGRAM_API_KEY not configured");
+    return res.status(500).json({ error: "Transcription not configured" });
+  }
+
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+    if (!(await enforceBudget(res, user.id))) return;
+    if (!(await enforceQuota(res, user.id, "transcription"))) return;
+
+    const response = await fetch(DEEPGRAM_GRANT_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Token ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ttl_seconds: TOKEN_TTL_SECONDS }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Deepgram API error: ${response.status} - ${await response.text()}`
+      );
+    }
+
+    const grant: { access_token: string; expires_in: number } =
+      await response.json();
+    return res.status(200).json({
+      accessToken: grant.access_token,
+      expiresIn: grant.expires_in,
+    });
+  } catch (error) {
+    console.error("Error issuing transcription token:", error);
+    return res.status(502).json({
+      error: "Failed to issue transcription token",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
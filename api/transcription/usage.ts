@@ -0,0 +1,76 @@
+// Vercel Serverless Function recording finished transcriptions. Deepgram is
+// called from the browser with a token from api/transcription/token, so the
+// browser reports the audio length Deepgram returned. The price is worked out
+// here and the row is written with the service role, so clients can't edit or
+// delete past rows, but a modified client can still under-report or skip a
+// report: the seconds are not checked against Deepgram.
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { handleCors } from "../_lib/cors";
+import { requireUser } from "../_lib/auth";
+import {
+  recordTranscriptionUsage,
+  sanitizeSessionId,
+  type TranscriptionUsageEvent,
+} from "../_lib/usageLedger";
+import { TRANSCRIPTION_COSTS } from "../../src/config/transcriptionPricing";
+
+// Longer than any interview recording
+const MAX_AUDIO_SECONDS = 4 * 60 * 60;
+const MAX_MODEL_LENGTH = 100;
+
+/**
+ * Keep only a known provider and a plausible audio length. Returns an error
+ * message when invalid.
+ */
+const sanitizeReport = (
+  body: unknown
+): Omit<TranscriptionUsageEvent, "userId"> | string => {
+  const report = body as Partial<TranscriptionUsageEvent> | undefined;
+  if (!report || typeof report !== "object") return "report is required";
+
+  if (
+    typeof report.provider !== "string" ||
+    !(report.provider in TRANSCRIPTION_COSTS)
+  ) {
+    return "Unsupported provider";
+  }
+  const audioSeconds = Number(report.audioSeconds);
+  if (!Number.isFinite(audioSeconds) || audioSeconds < 0) {
+    return "audioSeconds must be a non-negative number";
+  }
+
+  return {
+    sessionId: sanitizeSessionId(report.sessionId),
+    provider: report.provider,
+    model:
+      typeof report.model === "string" && report.model
+        ? report.model.slice(0, MAX_MODEL_LENGTH)
+        : report.provider,
+    streamed: report.streamed === true,
+    audioSeconds: Math.min(MAX_AUDIO_SECONDS, audioSeconds),
+  };
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+
+  const report = sanitizeReport(req.body);
+  if (typeof report === "string") {
+    return res.status(400).json({ error: report });
+  }
+
+  try {
+    const user = await requireUser(req, res);
+    if (!user) return;
+
+    await recordTranscriptionUsage({ ...report, userId: user.id });
+    return res.status(200).json({ recorded: true });
+  } catch (error) {
+    console.error("Error recording transcription usage:", error);
+    return res.status(502).json({
+      error: "Failed to record transcription usage",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,134 @@
+// Local stand-in for the serverless AI proxy (api/ai/chat and
+// api/transcription/*), so the app can be developed without provider keys or
+// `vercel dev`. Chat requests get canned answers that satisfy the analysis,
+// classification and summary parsers; transcription tokens are refused,
+// which makes the app fall back to on-device Whisper, and usage reports are
+// accepted and dropped.
+//
+// Usage: npm run dev:mock-api, with VITE_API_URL=http://localhost:3000
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_API_PORT) || 3000;
+
+// One object for every JSON prompt; each parser reads the fields it needs
+const MOCK_JSON = {
+  overall_score: 72,
+  star_scores: { situation: 7, task: 7, action: 8, result: 6 },
+  communication_scores: { clarity: 7, structure: 7, conciseness: 6 },
+  content_scores: { relevance: 8, depth: 6, specificity: 6 },
+  strengths: [
+    "Clear description of the situation",
+    "Took ownership of the outcome",
+  ],
+  improvements: [
+    "Quantify the result with a metric",
+    "Spend less time on background",
+  ],
+  actionable_feedback:
+    "This is a mock analysis from the local API server. Lead with the result, then explain the actions that produced it.",
+  improved_example:
+    "When our release slipped two weeks, I split the backlog by risk, paired with QA daily and we shipped on the new date with zero critical bugs.",
+  filler_words: { words: [], total: 0 },
+  speaking_pace: "appropriate",
+  confidence_score: 7,
+  type: "behavioral",
+  difficulty: "medium",
+  category: "General",
+  keywords: [],
+  expectedSkills: [],
+  themes: ["Structured storytelling", "Ownership", "Measurable results"],
+  steps: [
+    "Prepare three STAR stories with measurable results",
+    "Practise answering in under two minutes",
+  ],
+};
+
+const MOCK_TEXT =
+  "This is a mock response from the local API server. Start the app against `vercel dev` for real AI feedback.";
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const chatCompletion = (request) => {
+  const content =
+    request?.response_format?.type === "json_object"
+      ? JSON.stringify(MOCK_JSON)
+      : MOCK_TEXT;
+  const promptTokens = Math.ceil(
+    (request?.messages || []).reduce(
+      (sum, message) => sum + String(message.content || "").length,
+      0
+    ) / 4
+  );
+  const completionTokens = Math.ceil(content.length / 4);
+
+  return {
+    id: `mock-${Date.now()}`,
+    model: request?.model || "mock",
+    choices: [
+      { message: { role: "assistant", content }, finish_reason: "stop" },
+    ],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+};
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 200);
+  if (req.method !== "POST") {
+    return send(res, 405, { error: "Method not allowed" });
+  }
+  if (!String(req.headers.authorization || "").startsWith("Bearer ")) {
+    return send(res, 401, { error: "Missing access token" });
+  }
+
+  let body;
+  try {
+    body = await readBody(req);
+  } catch {
+    return send(res, 400, { error: "Invalid JSON body" });
+  }
+
+  switch (req.url) {
+    case "/api/ai/chat":
+      console.log(`chat: ${body.request?.model}`);
+      return send(res, 200, chatCompletion(body.request));
+    case "/api/transcription/token":
+      return send(res, 503, {
+        error: "Transcription is not available from the mock API server",
+      });
+    case "/api/transcription/usage":
+      return send(res, 200, { recorded: true });
+    default:
+      return send(res, 404, { error: "Not found" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock AI proxy listening on http://localhost:${PORT}`);
+});
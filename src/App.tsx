@@ -28,6 +28,8 @@ import Progress from "./pages/Progress";
 import InsightsTab from "./pages/InsightsTab";
 import Insights from "./pages/Insights";
 import SessionReview from "./pages/SessionReview";
+import StorageSettings from "./pages/StorageSettings";
+import AISettings from "./pages/AISettings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -110,6 +112,22 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/dashboard/storage"
+              element={
+                <ProtectedRoute>
+                  <StorageSettings />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/dashboard/ai"
+              element={
+                <ProtectedRoute>
+                  <AISettings />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/interview/setup"
               element={
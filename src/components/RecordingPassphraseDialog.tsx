@@ -0,0 +1,221 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export type PassphraseDialogMode = "unlock" | "enable" | "change" | "disable";
+
+interface RecordingPassphraseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: PassphraseDialogMode;
+  description?: string;
+  // Resolve to an error message to keep the dialog open, or null on success
+  onSubmit: (
+    passphrase: string,
+    newPassphrase?: string
+  ) => Promise<string | null>;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const COPY: Record<
+  PassphraseDialogMode,
+  { title: string; description: string; action: string }
+> = {
+  unlock: {
+    title: "Unlock recordings",
+    description:
+      "Your recordings are encrypted. Enter your passphrase to open them in this tab.",
+    action: "Unlock",
+  },
+  enable: {
+    title: "Encrypt recordings",
+    description:
+      "Recordings on this device and in your cloud backup will be encrypted with this passphrase. It is never stored or sent anywhere.",
+    action: "Encrypt",
+  },
+  change: {
+    title: "Change passphrase",
+    description:
+      "Every recording is re-encrypted with the new passphrase. Keep this tab open until it finishes.",
+    action: "Change Passphrase",
+  },
+  disable: {
+    title: "Turn off encryption",
+    description:
+      "Recordings will be decrypted and stored as plain files on this device.",
+    action: "Turn Off",
+  },
+};
+
+/**
+ * Passphrase prompt for encrypted recordings: unlocking, turning encryption
+ * on or off, and rotating the passphrase
+ */
+const RecordingPassphraseDialog = ({
+  open,
+  onOpenChange,
+  mode,
+  description,
+  onSubmit,
+}: RecordingPassphraseDialogProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Never keep a passphrase around once the dialog closes
+  useEffect(() => {
+    if (!open) {
+      setPassphrase("");
+      setNewPassphrase("");
+      setConfirmation("");
+      setError(null);
+    }
+  }, [open]);
+
+  const copy = COPY[mode];
+  const choosesNew = mode === "enable" || mode === "change";
+  const chosen = mode === "enable" ? passphrase : newPassphrase;
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (choosesNew) {
+      if (chosen.length < MIN_PASSPHRASE_LENGTH) {
+        setError(
+          `Use at least ${MIN_PASSPHRASE_LENGTH} characters for your passphrase.`
+        );
+        return;
+      }
+      if (chosen !== confirmation) {
+        setError("The passphrases do not match.");
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const message = await onSubmit(
+        passphrase,
+        mode === "change" ? newPassphrase : undefined
+      );
+      if (message) {
+        setError(message);
+      } else {
+        onOpenChange(false);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Lock className="w-5 h-5" />
+              {copy.title}
+            </DialogTitle>
+            <DialogDescription>
+              {description || copy.description}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="recording-passphrase">
+              {mode === "enable"
+                ? "Passphrase"
+                : mode === "change"
+                ? "Current passphrase"
+                : "Your passphrase"}
+            </Label>
+            <Input
+              id="recording-passphrase"
+              type="password"
+              autoComplete={
+                mode === "enable" ? "new-password" : "current-password"
+              }
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              autoFocus
+            />
+          </div>
+
+          {mode === "change" && (
+            <div className="space-y-2">
+              <Label htmlFor="recording-new-passphrase">New passphrase</Label>
+              <Input
+                id="recording-new-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={newPassphrase}
+                onChange={(event) => setNewPassphrase(event.target.value)}
+              />
+            </div>
+          )}
+
+          {choosesNew && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="recording-passphrase-confirm">
+                  Confirm passphrase
+                </Label>
+                <Input
+                  id="recording-passphrase-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(event) => setConfirmation(event.target.value)}
+                />
+              </div>
+              <p className="text-xs text-warning">
+                There is no way to reset this passphrase. If you forget it,
+                your encrypted recordings cannot be recovered by anyone,
+                including us.
+              </p>
+            </>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter className="sm:justify-between gap-2">
+            {mode === "unlock" ? (
+              <Link
+                to="/dashboard/storage"
+                className="text-sm text-muted-foreground hover:text-foreground self-center"
+                onClick={() => onOpenChange(false)}
+              >
+                Forgot your passphrase?
+              </Link>
+            ) : (
+              <span />
+            )}
+            <Button type="submit" disabled={isSubmitting || !passphrase}>
+              {isSubmitting && (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              )}
+              {copy.action}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordingPassphraseDialog;
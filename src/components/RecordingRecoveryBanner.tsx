@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { AlertTriangle, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import RecordingPassphraseDialog from "@/components/RecordingPassphraseDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  interviewSessionService,
+  type InterviewConfig,
+} from "@/services/interviewSessionService";
+import {
+  recordingRecoveryService,
+  type RecoverableRecording,
+} from "@/services/recordingRecoveryService";
+import { recordingEncryptionService } from "@/services/recordingEncryptionService";
+
+/**
+ * Offers to recover an interview whose tab closed or crashed mid-recording,
+ * and to send it through processing as if it had ended normally
+ */
+const RecordingRecoveryBanner = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [recording, setRecording] = useState<RecoverableRecording | null>(
+    null
+  );
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [unlockOpen, setUnlockOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadOrphaned = async () => {
+      try {
+        const orphaned = await recordingRecoveryService.getOrphanedRecordings(
+          user?.id
+        );
+        if (!cancelled) setRecording(orphaned[0] ?? null);
+      } catch (error) {
+        console.error("Error checking for interrupted recordings:", error);
+      }
+    };
+
+    loadOrphaned();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  if (!recording) return null;
+
+  const handleRecover = async () => {
+    // Encrypted chunks can't be read, nor the recording stored, until then
+    if (recordingEncryptionService.needsUnlock()) {
+      setUnlockOpen(true);
+      return;
+    }
+
+    setIsRecovering(true);
+    try {
+      const recovered = await recordingRecoveryService.recover(recording.id);
+      if (!recovered) {
+        throw new Error("No recorded data found");
+      }
+
+      const { recording: saved, blob } = recovered;
+
+      // The tab was lost before the interview page created its session, so
+      // create one now for the results to be saved against
+      let sessionId = saved.sessionId;
+      if (!sessionId) {
+        if (!user) {
+          throw new Error("Sign in to recover this interview");
+        }
+        const config = (saved.config ?? {}) as Partial<InterviewConfig>;
+        sessionId = await interviewSessionService.createRecoveredSession({
+          userId: user.id,
+          interviewType: saved.interviewType,
+          config,
+          questionIds: saved.questionSegments.map((seg) => seg.questionId),
+          duration:
+            config.duration ??
+            Math.max(1, Math.round(saved.totalDuration / 60)),
+        });
+      }
+      await recordingRecoveryService.markProcessing(saved.id, sessionId);
+
+      navigate("/processing", {
+        state: {
+          sessionId,
+          videoBlob: blob,
+          totalDuration: saved.totalDuration,
+          questionSegments: saved.questionSegments,
+          config: saved.config,
+          captureMode: saved.captureMode,
+          interviewType: saved.interviewType,
+          transcriptionKeywords: saved.transcriptionKeywords,
+          recordingId: saved.id,
+        },
+      });
+    } catch (error) {
+      console.error("Error recovering recording:", error);
+      setIsRecovering(false);
+      toast({
+        title: "Recovery failed",
+        description: "The interrupted recording could not be restored.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDiscard = async () => {
+    try {
+      await recordingRecoveryService.discard(recording.id);
+      setRecording(null);
+    } catch (error) {
+      console.error("Error discarding recording:", error);
+    }
+  };
+
+  const minutes = Math.max(1, Math.round(recording.totalDuration / 60));
+  const answered = recording.questionSegments.length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      className="glass-card p-4 sm:p-6 mb-6 border border-warning/30"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <div className="flex items-start gap-3 flex-1">
+          <div className="w-10 h-10 rounded-lg bg-warning/10 border border-warning/20 flex items-center justify-center shrink-0">
+            <AlertTriangle className="w-5 h-5 text-warning" />
+          </div>
+          <div>
+            <p className="font-medium text-foreground">
+              An interview was interrupted
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {new Date(recording.startedAt).toLocaleString()} • about{" "}
+              {minutes} min recorded
+              {answered > 0 &&
+                ` across ${answered} question${answered === 1 ? "" : "s"}`}
+              . Recover it to get your transcript and feedback.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-2"
+            onClick={handleDiscard}
+            disabled={isRecovering}
+          >
+            <Trash2 className="w-4 h-4" />
+            Discard
+          </Button>
+          <Button
+            size="sm"
+            className="gap-2"
+            onClick={handleRecover}
+            disabled={isRecovering}
+          >
+            {isRecovering ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RotateCcw className="w-4 h-4" />
+            )}
+            Recover &amp; Process
+          </Button>
+        </div>
+      </div>
+
+      <RecordingPassphraseDialog
+        open={unlockOpen}
+        onOpenChange={setUnlockOpen}
+        mode="unlock"
+        description="Your recordings are encrypted. Enter your passphrase to recover this interview."
+        onSubmit={async (passphrase) => {
+          if (!(await recordingEncryptionService.unlock(passphrase))) {
+            return "That passphrase is not correct.";
+          }
+          handleRecover();
+          return null;
+        }}
+      />
+    </motion.div>
+  );
+};
+
+export default RecordingRecoveryBanner;
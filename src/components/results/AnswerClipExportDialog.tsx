@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Scissors } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { videoConversionService } from "@/services/videoConversionService";
+import { isMediaJobCancelled } from "@/services/mediaJobService";
+import type { CaptionCue } from "@/utils/captions";
+
+interface AnswerClipExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  questionNumber: number;
+  questionText: string;
+  start: number; // seconds into the recording
+  end: number; // seconds into the recording
+  getRecording: () => Promise<Blob>;
+  audioOnly?: boolean;
+  captions: CaptionCue[]; // recording-relative
+}
+
+const formatClock = (seconds: number) => {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+export function AnswerClipExportDialog({
+  open,
+  onOpenChange,
+  questionNumber,
+  questionText,
+  start,
+  end,
+  getRecording,
+  audioOnly,
+  captions,
+}: AnswerClipExportDialogProps) {
+  const { toast } = useToast();
+  const [withTitleCard, setWithTitleCard] = useState(true);
+  const [withCaptions, setWithCaptions] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const answerCaptions = captions.filter(
+    (cue) => cue.end > start && cue.start < end
+  );
+  const isExporting = progress !== null;
+
+  useEffect(() => {
+    if (!open) setProgress(null);
+  }, [open]);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const clip = await videoConversionService.exportAnswerClip(
+        await getRecording(),
+        {
+          start,
+          end,
+          audioOnly,
+          titleCard: withTitleCard
+            ? { eyebrow: `Question ${questionNumber}`, title: questionText }
+            : undefined,
+          captions: withCaptions ? answerCaptions : undefined,
+          onProgress: setProgress,
+          signal: controller.signal,
+        }
+      );
+
+      const url = URL.createObjectURL(clip);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `interview-answer-q${questionNumber}.mp4`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+      toast({
+        title: "Clip exported",
+        description: `Answer ${questionNumber} was saved as an MP4.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (isMediaJobCancelled(error)) {
+        setProgress(null);
+        return;
+      }
+      console.error("Error exporting answer clip:", error);
+      toast({
+        title: "Export failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to export this answer.",
+        variant: "destructive",
+      });
+      setProgress(null);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !isExporting && onOpenChange(next)}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scissors className="w-5 h-5" />
+            Clip answer {questionNumber}
+          </DialogTitle>
+          <DialogDescription>
+            Exports {formatClock(start)}–{formatClock(end)} of the recording
+            as an MP4 you can share. The video tools are downloaded the first
+            time, which can take a moment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="clip-title-card">
+              Start with a title card showing the question
+            </Label>
+            <Switch
+              id="clip-title-card"
+              checked={withTitleCard}
+              onCheckedChange={setWithTitleCard}
+              disabled={isExporting}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="clip-captions">
+              Burn in captions
+              {answerCaptions.length === 0 && (
+                <span className="block text-xs text-muted-foreground">
+                  No transcript timings for this answer
+                </span>
+              )}
+            </Label>
+            <Switch
+              id="clip-captions"
+              checked={withCaptions && answerCaptions.length > 0}
+              onCheckedChange={setWithCaptions}
+              disabled={isExporting || answerCaptions.length === 0}
+            />
+          </div>
+
+          {progress !== null && (
+            <div className="space-y-2">
+              <Progress value={progress * 100} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                Encoding clip… {Math.round(progress * 100)}%
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isExporting && (
+            <Button
+              variant="outline"
+              onClick={() => abortRef.current?.abort()}
+            >
+              Cancel
+            </Button>
+          )}
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Export MP4
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { Download, Film, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  answerClipStorageService,
+  type AnswerClip,
+} from "@/services/answerClipStorageService";
+
+interface AnswerClipPlayerProps {
+  sessionId: string;
+  questionId: string;
+  questionNumber: number;
+  responseId?: string; // interview_responses.id, preferred for the lookup
+  onDeleted?: () => void;
+}
+
+export function AnswerClipPlayer({
+  sessionId,
+  questionId,
+  questionNumber,
+  responseId,
+  onDeleted,
+}: AnswerClipPlayerProps) {
+  const { toast } = useToast();
+  const [clip, setClip] = useState<AnswerClip | null>(null);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+
+    const loadClip = async () => {
+      try {
+        const found =
+          (responseId &&
+            (await answerClipStorageService.getClipByResponseId(
+              responseId
+            ))) ||
+          (await answerClipStorageService.getClip(sessionId, questionId));
+        if (cancelled || !found) return;
+        url = URL.createObjectURL(found.blob);
+        setClip(found);
+        setClipUrl(url);
+      } catch (error) {
+        console.error("Error loading answer clip:", error);
+      }
+    };
+
+    loadClip();
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [sessionId, questionId, responseId]);
+
+  if (!clip || !clipUrl) return null;
+
+  const handleDownload = () => {
+    const extension = clip.metadata.format.includes("mp4") ? "mp4" : "webm";
+    answerClipStorageService.exportClip(
+      clip,
+      `interview-answer-q${questionNumber}.${extension}`
+    );
+  };
+
+  const handleDelete = async () => {
+    try {
+      await answerClipStorageService.deleteClip(
+        clip.metadata.sessionId,
+        clip.metadata.questionId
+      );
+      setClip(null);
+      onDeleted?.();
+      toast({
+        title: "Clip deleted",
+        description: `The recording of answer ${questionNumber} was removed.`,
+      });
+    } catch (error) {
+      console.error("Error deleting answer clip:", error);
+      toast({
+        title: "Could not delete clip",
+        description: "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="bg-muted/30 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <Film className="w-4 h-4" />
+          Answer recording
+          <span className="text-xs">
+            ({Math.round(clip.metadata.duration)}s)
+          </span>
+        </h4>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs gap-1"
+            onClick={handleDownload}
+          >
+            <Download className="w-3.5 h-3.5" />
+            Download
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs gap-1 text-destructive"
+            onClick={handleDelete}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Delete
+          </Button>
+        </div>
+      </div>
+      <video
+        src={clipUrl}
+        controls
+        playsInline
+        className="w-full rounded-md bg-black"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Activity, Clock, Gauge, PauseCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ReferenceArea,
+} from "recharts";
+import type { SpeechMetrics } from "@/utils/speechMetrics";
+
+interface SpeechMetricsCardProps {
+  responses: {
+    id: string;
+    question: string;
+    speechMetrics?: SpeechMetrics | null;
+  }[];
+}
+
+// Comfortable conversational range used to shade the pace chart
+const TARGET_WPM_MIN = 120;
+const TARGET_WPM_MAX = 160;
+
+const tooltipStyle = {
+  background: "hsl(var(--card))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "8px",
+  color: "hsl(var(--foreground))",
+};
+
+export function SpeechMetricsCard({ responses }: SpeechMetricsCardProps) {
+  const measured = responses.filter(
+    (r) => r.speechMetrics && r.speechMetrics.wordCount > 0
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (measured.length === 0) return null;
+
+  const selected = measured.find((r) => r.id === selectedId) || measured[0];
+  const metrics = selected.speechMetrics as SpeechMetrics;
+  const selectedIndex = responses.indexOf(selected);
+
+  return (
+    <div className="glass-card p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <Activity className="w-5 h-5 text-primary" />
+          <div>
+            <h3 className="font-semibold text-foreground">Speaking Pace</h3>
+            <p className="text-xs text-muted-foreground">
+              Measured from word timestamps in your recording
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-1 bg-muted/50 rounded-lg p-1">
+          {measured.map((r) => {
+            const index = responses.indexOf(r);
+            return (
+              <Button
+                key={r.id}
+                variant={r.id === selected.id ? "default" : "ghost"}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSelectedId(r.id)}
+              >
+                Q{index + 1}
+              </Button>
+            );
+          })}
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4 line-clamp-2">
+        Q{selectedIndex + 1}: {selected.question}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <div className="bg-muted/30 rounded-lg p-3">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+            <Gauge className="w-3.5 h-3.5" />
+            Words per minute
+          </div>
+          <p className="text-xl font-semibold text-foreground">
+            {metrics.wordsPerMinute}
+          </p>
+        </div>
+        <div className="bg-muted/30 rounded-lg p-3">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+            <Clock className="w-3.5 h-3.5" />
+            Time to first word
+          </div>
+          <p className="text-xl font-semibold text-foreground">
+            {metrics.timeToFirstWord !== null
+              ? `${metrics.timeToFirstWord.toFixed(1)}s`
+              : "—"}
+          </p>
+        </div>
+        <div className="bg-muted/30 rounded-lg p-3">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+            <PauseCircle className="w-3.5 h-3.5" />
+            Long pauses
+          </div>
+          <p className="text-xl font-semibold text-foreground">
+            {metrics.longPauseCount}
+          </p>
+        </div>
+        <div className="bg-muted/30 rounded-lg p-3">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+            <PauseCircle className="w-3.5 h-3.5" />
+            Longest pause
+          </div>
+          <p className="text-xl font-semibold text-foreground">
+            {metrics.longestPause.toFixed(1)}s
+          </p>
+        </div>
+      </div>
+
+      {metrics.paceTimeline.length > 1 ? (
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={metrics.paceTimeline}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="hsl(var(--border))"
+              />
+              <ReferenceArea
+                y1={TARGET_WPM_MIN}
+                y2={TARGET_WPM_MAX}
+                fill="hsl(var(--primary))"
+                fillOpacity={0.08}
+              />
+              <XAxis
+                dataKey="time"
+                stroke="hsl(var(--muted-foreground))"
+                fontSize={12}
+                tickFormatter={(t: number) => `${t}s`}
+              />
+              <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={(t: number) => `${t}s into answer`}
+                formatter={(value: number) => [`${value} wpm`, "Pace"]}
+              />
+              <Line
+                type="monotone"
+                dataKey="wpm"
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This answer was too short to chart a pace timeline.
+        </p>
+      )}
+    </div>
+  );
+}
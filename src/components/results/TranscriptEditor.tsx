@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { History, Loader2, Pencil, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  transcriptEditService,
+  type ReanalysisResult,
+  type TranscriptEdit,
+} from "@/services/transcriptEditService";
+
+interface TranscriptEditorProps {
+  responseId?: string; // interview_responses.id; editing is disabled without it
+  answer: string;
+  originalAnswer?: string | null;
+  onSaved: (text: string, originalText: string) => void;
+  onReanalyzed: (result: ReanalysisResult) => void;
+}
+
+export function TranscriptEditor({
+  responseId,
+  answer,
+  originalAnswer,
+  onSaved,
+  onReanalyzed,
+}: TranscriptEditorProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(answer);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [needsReanalysis, setNeedsReanalysis] = useState(false);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [history, setHistory] = useState<TranscriptEdit[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const canEdit = !!responseId && !!user;
+  const isEdited = !!originalAnswer && originalAnswer !== answer;
+
+  const handleSave = async () => {
+    if (!responseId || !user) return;
+    setIsSaving(true);
+    try {
+      const edit = await transcriptEditService.saveCorrection(
+        responseId,
+        user.id,
+        draft
+      );
+      onSaved(edit.new_text, originalAnswer ?? edit.previous_text);
+      setHistory((prev) => (prev ? [edit, ...prev] : prev));
+      setIsEditing(false);
+      setNeedsReanalysis(true);
+    } catch (error) {
+      toast({
+        title: "Could not save transcript",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReanalyze = async () => {
+    if (!responseId) return;
+    setIsReanalyzing(true);
+    try {
+      const result = await transcriptEditService.reanalyzeResponse(responseId);
+      onReanalyzed(result);
+      setNeedsReanalysis(false);
+      setHistory(null);
+      setShowHistory(false);
+      toast({
+        title: "Answer re-analyzed",
+        description: `New score: ${Math.round(result.overall_score)}%`,
+      });
+    } catch (error) {
+      toast({
+        title: "Re-analysis failed",
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
+  const toggleHistory = async () => {
+    if (!responseId) return;
+    if (!showHistory && history === null) {
+      setHistory(await transcriptEditService.getEditHistory(responseId));
+    }
+    setShowHistory((prev) => !prev);
+  };
+
+  return (
+    <div className="bg-muted/30 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-medium text-muted-foreground">
+            Your Response
+          </h4>
+          {isEdited && (
+            <Badge variant="outline" className="text-xs">
+              Edited
+            </Badge>
+          )}
+        </div>
+        {canEdit && !isEditing && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs gap-1"
+              onClick={() => {
+                setDraft(answer);
+                setIsEditing(true);
+              }}
+            >
+              <Pencil className="w-3.5 h-3.5" />
+              Edit
+            </Button>
+            <Button
+              variant={needsReanalysis ? "default" : "ghost"}
+              size="sm"
+              className="h-7 text-xs gap-1"
+              disabled={isReanalyzing}
+              onClick={handleReanalyze}
+            >
+              {isReanalyzing ? (
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              ) : (
+                <RefreshCw className="w-3.5 h-3.5" />
+              )}
+              Re-analyze this answer
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={6}
+            className="text-sm"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isSaving}
+              onClick={() => setIsEditing(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={isSaving || !draft.trim() || draft.trim() === answer}
+              onClick={handleSave}
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Save correction
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-foreground/80 text-sm leading-relaxed">
+          {answer || "No response available"}
+        </p>
+      )}
+
+      {needsReanalysis && !isEditing && (
+        <p className="text-xs text-muted-foreground mt-2">
+          The score and feedback below still reflect the previous transcript.
+          Re-analyze to update them.
+        </p>
+      )}
+
+      {(isEdited || canEdit) && (
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          {isEdited && (
+            <button
+              className="text-xs text-primary hover:underline"
+              onClick={() => setShowOriginal((prev) => !prev)}
+            >
+              {showOriginal ? "Hide original" : "Show original transcription"}
+            </button>
+          )}
+          {canEdit && (
+            <button
+              className="text-xs text-primary hover:underline flex items-center gap-1"
+              onClick={toggleHistory}
+            >
+              <History className="w-3 h-3" />
+              {showHistory ? "Hide edit history" : "Edit history"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {showOriginal && isEdited && (
+        <p className="mt-2 text-xs text-muted-foreground leading-relaxed border-l-2 border-border pl-3">
+          {originalAnswer}
+        </p>
+      )}
+
+      {showHistory && history && (
+        <div className="mt-3 space-y-2">
+          {history.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No edits yet.</p>
+          ) : (
+            history.map((edit) => (
+              <div
+                key={edit.id}
+                className="text-xs border border-border/50 rounded-md p-2"
+              >
+                <div className="flex items-center justify-between text-muted-foreground mb-1">
+                  <span>{new Date(edit.created_at).toLocaleString()}</span>
+                  {edit.score_before !== null && (
+                    <span>
+                      {edit.score_before}%
+                      {edit.score_after !== null
+                        ? ` → ${edit.score_after}%`
+                        : " (not re-analyzed)"}
+                    </span>
+                  )}
+                </div>
+                <p className="text-muted-foreground line-through line-clamp-2">
+                  {edit.previous_text}
+                </p>
+                <p className="text-foreground/80 line-clamp-2">
+                  {edit.new_text}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import type { MouseEvent } from "react";
+import { Mic, Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+export interface WaveformTranscriptSegment {
+  start: number; // seconds
+  end: number;
+  label?: string;
+  text: string;
+}
+
+interface WaveformPlayerProps {
+  peaks: number[]; // 0..1, evenly spaced over the recording
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  transcript?: WaveformTranscriptSegment[];
+}
+
+const MIN_BAR_HEIGHT = 0.04; // keep silence visible as a thin line
+
+const formatClock = (seconds: number) => {
+  const safe = Math.max(0, Math.floor(seconds || 0));
+  return `${Math.floor(safe / 60)}:${(safe % 60).toString().padStart(2, "0")}`;
+};
+
+export function WaveformPlayer({
+  peaks,
+  currentTime,
+  duration,
+  isPlaying,
+  onTogglePlay,
+  onSeek,
+  transcript = [],
+}: WaveformPlayerProps) {
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+  const activeIndex = transcript.findIndex(
+    (segment) => currentTime >= segment.start && currentTime < segment.end
+  );
+  const active = activeIndex >= 0 ? transcript[activeIndex] : null;
+
+  const handleSeek = (event: MouseEvent<HTMLDivElement>) => {
+    if (duration <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientX - rect.left) / rect.width;
+    onSeek(Math.max(0, Math.min(1, ratio)) * duration);
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col justify-center gap-4 p-6">
+      <div className="flex items-center gap-3 text-white/80">
+        <Mic className="w-4 h-4" />
+        <span className="text-sm font-medium">Audio recording</span>
+        <span className="ml-auto text-xs tabular-nums">
+          {formatClock(currentTime)} / {formatClock(duration)}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <Button
+          size="icon"
+          variant="secondary"
+          className="rounded-full shrink-0"
+          onClick={onTogglePlay}
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? (
+            <Pause className="w-5 h-5" />
+          ) : (
+            <Play className="w-5 h-5 ml-0.5" />
+          )}
+        </Button>
+        <div
+          className="relative flex-1 h-24 flex items-center cursor-pointer"
+          onClick={handleSeek}
+        >
+          {peaks.length === 0 ? (
+            <div
+              className="w-full h-px"
+              style={{
+                background: `linear-gradient(to right, hsl(var(--primary)) ${
+                  progress * 100
+                }%, rgba(255,255,255,0.3) 0)`,
+              }}
+            />
+          ) : (
+            peaks.map((peak, index) => (
+              <div
+                key={index}
+                className={`flex-1 rounded-sm ${
+                  index / peaks.length < progress ? "bg-primary" : "bg-white/30"
+                }`}
+                style={{ height: `${Math.max(MIN_BAR_HEIGHT, peak) * 100}%` }}
+              />
+            ))
+          )}
+          {duration > 0 &&
+            transcript.map((segment, index) => (
+              <div
+                key={index}
+                className="absolute top-0 bottom-0 w-px bg-white/50"
+                style={{ left: `${(segment.start / duration) * 100}%` }}
+              />
+            ))}
+        </div>
+      </div>
+
+      {transcript.length > 0 && (
+        <div className="min-h-[3rem] text-sm text-white/90 leading-relaxed">
+          {active ? (
+            <p className="line-clamp-2">
+              {active.label && (
+                <span className="text-primary font-medium mr-2">
+                  {active.label}
+                </span>
+              )}
+              {active.text}
+            </p>
+          ) : (
+            <span className="text-white/50">
+              Play or click the waveform to follow the transcript.
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Interview Language Configuration
+ * Supported interview languages, their transcription codes and filler-word lexicons
+ */
+
+export type InterviewLanguage = "en" | "es" | "de" | "hi";
+
+export interface LanguageConfig {
+  code: InterviewLanguage;
+  name: string; // English display name, also used in AI prompts
+  nativeName: string;
+  deepgramLanguage: string; // `language` query param for Deepgram
+  whisperLanguage: string; // language hint for multilingual Whisper checkpoints
+  fillerWords: string[]; // lowercase, multi-word phrases allowed
+}
+
+export const DEFAULT_LANGUAGE: InterviewLanguage = "en";
+
+export const LANGUAGE_CONFIG: Record<InterviewLanguage, LanguageConfig> = {
+  en: {
+    code: "en",
+    name: "English",
+    nativeName: "English",
+    deepgramLanguage: "en",
+    whisperLanguage: "english",
+    fillerWords: [
+      "um",
+      "uh",
+      "like",
+      "you know",
+      "so",
+      "actually",
+      "basically",
+      "kind of",
+      "sort of",
+      "well",
+      "just",
+    ],
+  },
+  es: {
+    code: "es",
+    name: "Spanish",
+    nativeName: "Español",
+    deepgramLanguage: "es",
+    whisperLanguage: "spanish",
+    fillerWords: [
+      "eh",
+      "em",
+      "este",
+      "pues",
+      "o sea",
+      "bueno",
+      "entonces",
+      "digamos",
+      "sabes",
+      "vale",
+      "en plan",
+      "tipo",
+    ],
+  },
+  de: {
+    code: "de",
+    name: "German",
+    nativeName: "Deutsch",
+    deepgramLanguage: "de",
+    whisperLanguage: "german",
+    fillerWords: [
+      "äh",
+      "ähm",
+      "hm",
+      "also",
+      "halt",
+      "quasi",
+      "sozusagen",
+      "eigentlich",
+      "irgendwie",
+      "naja",
+      "genau",
+      "sag ich mal",
+    ],
+  },
+  hi: {
+    code: "hi",
+    name: "Hindi",
+    nativeName: "हिन्दी",
+    deepgramLanguage: "hi",
+    whisperLanguage: "hindi",
+    // Transcripts may come back in Devanagari or romanized, so both are listed
+    fillerWords: [
+      "मतलब",
+      "यानी",
+      "तो",
+      "अच्छा",
+      "वो",
+      "है ना",
+      "matlab",
+      "yaani",
+      "toh",
+      "acha",
+      "woh",
+      "hai na",
+    ],
+  },
+};
+
+export const SUPPORTED_LANGUAGES: LanguageConfig[] =
+  Object.values(LANGUAGE_CONFIG);
+
+/**
+ * Check whether a value is a supported interview language code
+ */
+export function isInterviewLanguage(
+  value: unknown
+): value is InterviewLanguage {
+  return typeof value === "string" && value in LANGUAGE_CONFIG;
+}
+
+/**
+ * Get the configuration for a language, falling back to English
+ */
+export function getLanguageConfig(language?: string | null): LanguageConfig {
+  return isInterviewLanguage(language)
+    ? LANGUAGE_CONFIG[language]
+    : LANGUAGE_CONFIG[DEFAULT_LANGUAGE];
+}
+
+/**
+ * Prompt instruction asking the model to write its feedback in the interview language
+ */
+export function getFeedbackLanguageInstruction(
+  language?: string | null
+): string {
+  const config = getLanguageConfig(language);
+  if (config.code === "en") return "";
+  return `\n\nThe interview was conducted in ${config.name}. Write every piece of feedback text (strengths, improvements, explanations, examples and suggestions) in ${config.name}. Keep JSON keys and enum values in English.`;
+}
@@ -0,0 +1,181 @@
+/**
+ * LLM Provider Configuration
+ * Chooses which provider serves chat completions. By default the browser
+ * sends requests to the app's serverless AI proxy, which holds the provider
+ * keys; the proxy itself uses OpenRouter unless LLM_PROVIDER says otherwise.
+ * For development the browser can call the direct Anthropic and OpenAI APIs,
+ * OpenRouter or an OpenAI-compatible local server (Ollama, llama.cpp)
+ * by setting VITE_LLM_PROVIDER. Production builds only allow the proxy and
+ * local servers, since a provider key in a VITE_ variable ships in the bundle.
+ */
+
+import { getEnvVar } from "../utils/env";
+
+export type LLMProviderId =
+  | "proxy"
+  | "openrouter"
+  | "anthropic"
+  | "openai"
+  | "local";
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  name: string;
+  apiKey: string;
+  apiKeyEnvVar: string | null; // null when the provider needs no key
+  baseUrl: string;
+  timeoutMs: number;
+  // Serves every request with this model instead of the app's model ids
+  modelOverride: string | null;
+  extraHeaders: Record<string, string>;
+}
+
+/**
+ * Reads one variable; the browser uses VITE_-prefixed names, the proxy
+ * unprefixed ones so its keys never reach a client bundle
+ */
+export interface LLMEnv {
+  prefix: string;
+  read: (key: string) => string | undefined;
+}
+
+export const LLM_PROVIDER_IDS: LLMProviderId[] = [
+  "proxy",
+  "openrouter",
+  "anthropic",
+  "openai",
+  "local",
+];
+
+const DEFAULT_TIMEOUT_MS = 30000;
+// Local models on laptop hardware are much slower than hosted ones
+const DEFAULT_LOCAL_TIMEOUT_MS = 120000;
+// The proxy adds a hop and may retry on the server
+const DEFAULT_PROXY_TIMEOUT_MS = 60000;
+
+const CLIENT_ENV: LLMEnv = { prefix: "VITE_", read: getEnvVar };
+
+// Providers the browser can only call with its own API key
+const KEYED_PROVIDERS: LLMProviderId[] = ["openrouter", "anthropic", "openai"];
+
+/**
+ * Parse a provider id, falling back when it is missing or unknown
+ */
+export function parseLLMProviderId(
+  value: string | undefined,
+  fallback: LLMProviderId
+): LLMProviderId {
+  const id = (value || "").trim().toLowerCase();
+  if (!id) return fallback;
+  if (!LLM_PROVIDER_IDS.includes(id as LLMProviderId)) {
+    console.warn(`Unknown LLM provider "${id}", falling back to ${fallback}.`);
+    return fallback;
+  }
+  return id as LLMProviderId;
+}
+
+/**
+ * Provider selected by VITE_LLM_PROVIDER, defaulting to the AI proxy. Keyed
+ * providers are development only; production builds use the proxy instead.
+ */
+export function getLLMProviderId(): LLMProviderId {
+  const provider = parseLLMProviderId(getEnvVar("VITE_LLM_PROVIDER"), "proxy");
+  if (!KEYED_PROVIDERS.includes(provider)) return provider;
+
+  if (!import.meta.env.DEV) {
+    console.error(
+      `VITE_LLM_PROVIDER=${provider} is only allowed in development, using the AI proxy. Remove VITE_ API keys from production builds: they ship in the client bundle.`
+    );
+    return "proxy";
+  }
+  console.warn(
+    `Calling ${provider} directly from the browser with a VITE_ API key. This is for local development only: the key is visible to anyone who loads the app.`
+  );
+  return provider;
+}
+
+/**
+ * Build the configuration for an LLM provider from environment variables
+ */
+export function buildLLMProviderConfig(
+  provider: LLMProviderId,
+  { prefix, read }: LLMEnv
+): LLMProviderConfig {
+  const env = (key: string): string => read(`${prefix}${key}`) || "";
+  const timeoutMs = parseInt(env("LLM_TIMEOUT_MS")) || undefined;
+  const modelOverride = env("LLM_MODEL") || null;
+
+  switch (provider) {
+    case "proxy":
+      return {
+        provider,
+        name: "AI proxy",
+        apiKey: "", // requests carry the user's Supabase session instead
+        apiKeyEnvVar: null,
+        baseUrl: "/api/ai",
+        timeoutMs: timeoutMs || DEFAULT_PROXY_TIMEOUT_MS,
+        modelOverride: null, // chosen by the proxy's own configuration
+        extraHeaders: {},
+      };
+    case "anthropic":
+      return {
+        provider,
+        name: "Anthropic",
+        apiKey: env("ANTHROPIC_API_KEY"),
+        apiKeyEnvVar: `${prefix}ANTHROPIC_API_KEY`,
+        baseUrl: env("ANTHROPIC_BASE_URL") || "https://api.anthropic.com",
+        timeoutMs: timeoutMs || DEFAULT_TIMEOUT_MS,
+        modelOverride,
+        extraHeaders: {},
+      };
+    case "openai":
+      return {
+        provider,
+        name: "OpenAI",
+        apiKey: env("OPENAI_API_KEY"),
+        apiKeyEnvVar: `${prefix}OPENAI_API_KEY`,
+        baseUrl: env("OPENAI_BASE_URL") || "https://api.openai.com/v1",
+        timeoutMs: timeoutMs || DEFAULT_TIMEOUT_MS,
+        modelOverride,
+        extraHeaders: {},
+      };
+    case "local":
+      return {
+        provider,
+        name: "Local model",
+        // Only needed when the server was started with an API key
+        apiKey: env("LOCAL_LLM_API_KEY"),
+        apiKeyEnvVar: null,
+        baseUrl: env("LOCAL_LLM_BASE_URL") || "http://localhost:11434/v1",
+        timeoutMs:
+          parseInt(env("LOCAL_LLM_TIMEOUT_MS")) || DEFAULT_LOCAL_TIMEOUT_MS,
+        modelOverride:
+          modelOverride || env("LOCAL_LLM_MODEL") || "llama3.1:8b",
+        extraHeaders: {},
+      };
+    case "openrouter":
+    default:
+      return {
+        provider: "openrouter",
+        name: "OpenRouter",
+        apiKey: env("OPENROUTER_API_KEY"),
+        apiKeyEnvVar: `${prefix}OPENROUTER_API_KEY`,
+        baseUrl: env("OPENROUTER_BASE_URL") || "https://openrouter.ai/api/v1",
+        timeoutMs: timeoutMs || DEFAULT_TIMEOUT_MS,
+        modelOverride,
+        extraHeaders: {
+          "HTTP-Referer": env("SITE_URL") || "https://amplifyinterview.com",
+          "X-Title": env("SITE_TITLE") || "Amplify Interview",
+        },
+      };
+  }
+}
+
+/**
+ * Get the browser's configuration for an LLM provider
+ */
+export function getLLMProviderConfig(
+  provider: LLMProviderId = getLLMProviderId()
+): LLMProviderConfig {
+  return buildLLMProviderConfig(provider, CLIENT_ENV);
+}
@@ -4,7 +4,6 @@
  */
 
 export interface OpenRouterConfig {
-  apiKey: string;
   baseUrl: string;
   maxRetries: number;
   timeoutMs: number;
@@ -19,7 +18,6 @@ export interface OpenRouterConfig {
  */
 export function getOpenRouterConfig(): OpenRouterConfig {
   const config: OpenRouterConfig = {
-    apiKey: import.meta.env.VITE_OPENROUTER_API_KEY || "",
     baseUrl:
       import.meta.env.VITE_OPENROUTER_BASE_URL ||
       "https://openrouter.ai/api/v1",
@@ -35,21 +33,19 @@ export function getOpenRouterConfig(): OpenRouterConfig {
     siteTitle: import.meta.env.VITE_SITE_TITLE || "Amplify Interview",
   };
 
-  // Validate required configuration
-  if (!config.apiKey) {
-    console.warn("OpenRouter API key not found. AI analysis will not work.");
-  }
-
   return config;
 }
 
 /**
- * Model configuration with pricing
+ * Model configuration with pricing. Keys are OpenRouter model ids, which the
+ * app uses everywhere; `providerModels` names the same model on the direct
+ * provider APIs.
  */
 export const MODEL_CONFIG = {
   "anthropic/claude-3-haiku": {
     name: "Claude 3 Haiku",
     provider: "Anthropic",
+    providerModels: { anthropic: "claude-3-haiku-20240307" },
     inputCostPerToken: 0.25 / 1_000_000, // $0.25 per 1M input tokens
     outputCostPerToken: 1.25 / 1_000_000, // $1.25 per 1M output tokens
     maxTokens: 200000,
@@ -66,6 +62,7 @@ export const MODEL_CONFIG = {
   "openai/gpt-3.5-turbo": {
     name: "GPT-3.5 Turbo",
     provider: "OpenAI",
+    providerModels: { openai: "gpt-3.5-turbo" },
     inputCostPerToken: 0.5 / 1_000_000, // $0.50 per 1M input tokens
     outputCostPerToken: 1.5 / 1_000_000, // $1.50 per 1M output tokens
     maxTokens: 4096,
@@ -81,6 +78,8 @@ export const MODEL_CONFIG = {
   },
 } as const;
 
+export type ModelId = keyof typeof MODEL_CONFIG;
+
 /**
  * Model selection strategy
  */
@@ -91,6 +90,22 @@ export const MODEL_SELECTION = {
   custom: "openai/gpt-3.5-turbo",
 } as const;
 
+export type ModelCapability =
+  keyof (typeof MODEL_CONFIG)[ModelId]["capabilities"];
+
+/**
+ * Capabilities a model needs to score answers of each interview type
+ */
+export const REQUIRED_CAPABILITIES: Record<
+  keyof typeof MODEL_SELECTION,
+  ModelCapability[]
+> = {
+  behavioral: ["starAnalysis", "behavioralAssessment"],
+  leadership: ["starAnalysis", "leadershipAssessment"],
+  technical: ["technicalAnalysis"],
+  custom: ["communicationAnalysis"],
+};
+
 /**
  * Cost limits and thresholds
  */
@@ -0,0 +1,31 @@
+/**
+ * Transcription Pricing
+ * Per-second speech-to-text prices, shared by the client's budget estimates
+ * and the server's transcription usage ledger
+ */
+
+// Transcription pricing (per audio second in cents)
+export const TRANSCRIPTION_COSTS: Record<
+  string,
+  { prerecorded: number; streaming: number }
+> = {
+  deepgram: {
+    prerecorded: 0.43 / 60, // $0.0043 per minute (Nova-2 pay as you go)
+    streaming: 0.59 / 60, // $0.0059 per minute
+  },
+  local: { prerecorded: 0, streaming: 0 }, // runs in the browser
+};
+
+/**
+ * Calculate transcription cost in cents
+ */
+export function calculateTranscriptionCost(
+  provider: string,
+  audioSeconds: number,
+  streamed = false
+): number {
+  const pricing = TRANSCRIPTION_COSTS[provider];
+  if (!pricing) return 0;
+  const perSecond = streamed ? pricing.streaming : pricing.prerecorded;
+  return Math.round(audioSeconds * perSecond * 10000) / 10000;
+}
@@ -1,9 +1,15 @@
 import { useState, useRef, useCallback } from "react";
 import { useToast } from "@/hooks/use-toast";
 import {
+  getBestAudioRecordingFormat,
   getBestRecordingFormat,
   getFormatDisplayName,
 } from "@/utils/videoFormatSupport";
+import {
+  createScreenWithCameraStream,
+  type CaptureMode,
+  type CompositeStream,
+} from "@/utils/screenComposition";
 
 interface VideoRecordingState {
   isRecording: boolean;
@@ -13,8 +19,12 @@ interface VideoRecordingState {
   stream: MediaStream | null;
 }
 
+export interface RecordingOptions {
+  captureMode?: CaptureMode; // defaults to "camera"
+}
+
 interface VideoRecordingControls {
-  startRecording: () => Promise<void>;
+  startRecording: (options?: RecordingOptions) => Promise<boolean>;
   stopRecording: () => Promise<Blob | null>;
   pauseRecording: () => void;
   resumeRecording: () => void;
@@ -22,6 +32,9 @@ interface VideoRecordingControls {
   clearRecording: () => void;
   getAudioBlob: () => Blob | null;
   onAudioChunk: (cb: (chunk: Blob) => void) => () => void;
+  onRecordedChunk: (cb: (chunk: Blob) => void) => () => void;
+  startClip: () => void;
+  stopClip: () => Promise<Blob | null>;
 }
 
 export const useVideoRecording = (): VideoRecordingState &
@@ -40,9 +53,16 @@ export const useVideoRecording = (): VideoRecordingState &
   const audioRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const audioChunkSubscribersRef = useRef<Array<(chunk: Blob) => void>>([]);
+  const recordedChunkSubscribersRef = useRef<Array<(chunk: Blob) => void>>(
+    []
+  );
+  // Per-question answer clip, recorded alongside the full interview
+  const clipRecorderRef = useRef<MediaRecorder | null>(null);
+  const clipChunksRef = useRef<Blob[]>([]);
+  const compositeRef = useRef<CompositeStream | null>(null);
   const { toast } = useToast();
 
-  const startRecording = useCallback(async () => {
+  const startRecording = useCallback(async (options?: RecordingOptions) => {
     try {
       // First, check if we have audio permissions
       try {
@@ -57,17 +77,23 @@ export const useVideoRecording = (): VideoRecordingState &
           description: "Please allow microphone access to record audio",
           variant: "destructive",
         });
-        return;
+        return false;
       }
 
+      // Audio-only interviews never ask for the camera
+      const audioOnly = options?.captureMode === "audio";
+      const videoConstraints: MediaTrackConstraints | false = audioOnly
+        ? false
+        : {
+            width: { ideal: 1920, max: 3840 }, // Support up to 4K for MacBooks
+            height: { ideal: 1080, max: 2160 },
+            frameRate: { ideal: 30, max: 60 },
+            facingMode: "user",
+          };
+
       // Request camera and microphone access with high-quality settings for MacBooks
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1920, max: 3840 }, // Support up to 4K for MacBooks
-          height: { ideal: 1080, max: 2160 },
-          frameRate: { ideal: 30, max: 60 },
-          facingMode: "user",
-        },
+        video: videoConstraints,
         audio: {
           echoCancellation: true,
           noiseSuppression: true,
@@ -88,12 +114,7 @@ export const useVideoRecording = (): VideoRecordingState &
         // Try fallback with basic audio settings
         try {
           const fallbackStream = await navigator.mediaDevices.getUserMedia({
-            video: {
-              width: { ideal: 1920, max: 3840 },
-              height: { ideal: 1080, max: 2160 },
-              frameRate: { ideal: 30, max: 60 },
-              facingMode: "user",
-            },
+            video: videoConstraints,
             audio: true, // Basic audio without constraints
           });
 
@@ -107,11 +128,39 @@ export const useVideoRecording = (): VideoRecordingState &
         }
       }
 
+      // Screen mode records the shared screen with the camera composited in
+      let recordingStream = stream;
+      if (options?.captureMode === "screen") {
+        try {
+          compositeRef.current = await createScreenWithCameraStream(stream, {
+            onScreenShareEnded: () =>
+              toast({
+                title: "Screen sharing stopped",
+                description: "Recording continues with your camera only.",
+              }),
+          });
+          recordingStream = compositeRef.current.stream;
+        } catch (screenError) {
+          console.error("Screen capture failed:", screenError);
+          stream.getTracks().forEach((track) => track.stop());
+          streamRef.current = null;
+          toast({
+            title: "Screen Sharing Not Started",
+            description:
+              "Choose a screen, window or tab to share to start recording.",
+            variant: "destructive",
+          });
+          return false;
+        }
+      }
+
       // Get the best supported format for this browser
-      const mimeType = getBestRecordingFormat();
+      const mimeType = audioOnly
+        ? getBestAudioRecordingFormat()
+        : getBestRecordingFormat();
 
       // Create MediaRecorder with optimized settings for reliable uploads
-      const mediaRecorder = new MediaRecorder(stream, {
+      const mediaRecorder = new MediaRecorder(recordingStream, {
         mimeType,
         videoBitsPerSecond: 2000000, // 2Mbps for reliable uploads
         audioBitsPerSecond: 128000, // 128kbps for good quality audio
@@ -133,6 +182,7 @@ export const useVideoRecording = (): VideoRecordingState &
             ...prev,
             recordedChunks: [...prev.recordedChunks, event.data],
           }));
+          recordedChunkSubscribersRef.current.forEach((cb) => cb(event.data));
         }
       };
 
@@ -165,6 +215,9 @@ export const useVideoRecording = (): VideoRecordingState &
           intervalRef.current = null;
         }
 
+        compositeRef.current?.stop();
+        compositeRef.current = null;
+
         // Stop audio-only recorder
         if (
           audioRecorderRef.current &&
@@ -219,8 +272,14 @@ export const useVideoRecording = (): VideoRecordingState &
 
       toast({
         title: "Recording Started",
-        description: "Video recording has begun",
+        description:
+          options?.captureMode === "screen"
+            ? "Screen and camera recording has begun"
+            : audioOnly
+            ? "Audio recording has begun"
+            : "Video recording has begun",
       });
+      return true;
     } catch (error) {
       console.error("Error starting recording:", error);
       toast({
@@ -229,6 +288,7 @@ export const useVideoRecording = (): VideoRecordingState &
           "Unable to start recording. Please check camera and microphone permissions.",
         variant: "destructive",
       });
+      return false;
     }
   }, [toast]);
 
@@ -243,7 +303,11 @@ export const useVideoRecording = (): VideoRecordingState &
       // Create a local variable to capture chunks
       let finalChunks: Blob[] = [];
 
-      mediaRecorderRef.current.onstop = () => {
+      // Keep the cleanup startRecording attached (timer, screen composite)
+      const recorder = mediaRecorderRef.current;
+      const cleanup = recorder.onstop;
+      recorder.onstop = (event) => {
+        cleanup?.call(recorder, event);
         // Get the latest chunks from state
         setState((prev) => {
           finalChunks = [...prev.recordedChunks];
@@ -310,6 +374,13 @@ export const useVideoRecording = (): VideoRecordingState &
   const pauseRecording = useCallback(() => {
     if (mediaRecorderRef.current && state.isRecording && !state.isPaused) {
       mediaRecorderRef.current.pause();
+      // Keep the transcription audio aligned with the video timeline
+      if (audioRecorderRef.current?.state === "recording") {
+        audioRecorderRef.current.pause();
+      }
+      if (clipRecorderRef.current?.state === "recording") {
+        clipRecorderRef.current.pause();
+      }
       toast({
         title: "Recording Paused",
         description: "Recording has been paused",
@@ -320,6 +391,12 @@ export const useVideoRecording = (): VideoRecordingState &
   const resumeRecording = useCallback(() => {
     if (mediaRecorderRef.current && state.isRecording && state.isPaused) {
       mediaRecorderRef.current.resume();
+      if (audioRecorderRef.current?.state === "paused") {
+        audioRecorderRef.current.resume();
+      }
+      if (clipRecorderRef.current?.state === "paused") {
+        clipRecorderRef.current.resume();
+      }
       toast({
         title: "Recording Resumed",
         description: "Recording has been resumed",
@@ -351,6 +428,71 @@ export const useVideoRecording = (): VideoRecordingState &
     };
   }, []);
 
+  const onRecordedChunk = useCallback((cb: (chunk: Blob) => void) => {
+    recordedChunkSubscribersRef.current.push(cb);
+    return () => {
+      recordedChunkSubscribersRef.current =
+        recordedChunkSubscribersRef.current.filter((fn) => fn !== cb);
+    };
+  }, []);
+
+  /**
+   * Start recording a new answer clip, discarding any clip in progress
+   */
+  const startClip = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state === "inactive") return;
+
+    const previous = clipRecorderRef.current;
+    if (previous) {
+      previous.ondataavailable = null;
+      previous.onstop = null;
+      if (previous.state !== "inactive") previous.stop();
+    }
+
+    try {
+      const clipRecorder = new MediaRecorder(recorder.stream, {
+        mimeType: recorder.mimeType,
+        videoBitsPerSecond: 2000000,
+        audioBitsPerSecond: 128000,
+      });
+      clipChunksRef.current = [];
+      clipRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) clipChunksRef.current.push(event.data);
+      };
+      clipRecorder.start(1000);
+      if (recorder.state === "paused") clipRecorder.pause();
+      clipRecorderRef.current = clipRecorder;
+    } catch (error) {
+      console.error("Failed to start answer clip:", error);
+      clipRecorderRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Stop the current answer clip and return its recording
+   */
+  const stopClip = useCallback((): Promise<Blob | null> => {
+    const clipRecorder = clipRecorderRef.current;
+    clipRecorderRef.current = null;
+    if (!clipRecorder || clipRecorder.state === "inactive") {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      clipRecorder.onstop = () => {
+        const chunks = clipChunksRef.current;
+        clipChunksRef.current = [];
+        resolve(
+          chunks.length > 0
+            ? new Blob(chunks, { type: clipRecorder.mimeType || "video/webm" })
+            : null
+        );
+      };
+      clipRecorder.stop();
+    });
+  }, []);
+
   const clearRecording = useCallback(() => {
     setState({
       isRecording: false,
@@ -370,6 +512,16 @@ export const useVideoRecording = (): VideoRecordingState &
       intervalRef.current = null;
     }
 
+    const clipRecorder = clipRecorderRef.current;
+    if (clipRecorder && clipRecorder.state !== "inactive") {
+      clipRecorder.stop();
+    }
+    clipRecorderRef.current = null;
+    clipChunksRef.current = [];
+
+    compositeRef.current?.stop();
+    compositeRef.current = null;
+
     mediaRecorderRef.current = null;
   }, []);
 
@@ -383,5 +535,8 @@ export const useVideoRecording = (): VideoRecordingState &
     clearRecording,
     getAudioBlob,
     onAudioChunk,
+    onRecordedChunk,
+    startClip,
+    stopClip,
   };
 };
@@ -31,6 +31,7 @@ export type Database = {
           focus_areas: string[] | null;
           difficulty: "Easy" | "Medium" | "Hard";
           is_active: boolean;
+          language: string;
           created_at: string;
           updated_at: string;
         };
@@ -50,6 +51,7 @@ export type Database = {
           focus_areas?: string[] | null;
           difficulty: "Easy" | "Medium" | "Hard";
           is_active?: boolean;
+          language?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -69,6 +71,7 @@ export type Database = {
           focus_areas?: string[] | null;
           difficulty?: "Easy" | "Medium" | "Hard";
           is_active?: boolean;
+          language?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -79,7 +82,10 @@ export type Database = {
           id: string;
           session_id: string;
           question_id: number;
+          user_id: string;
           response_text: string | null;
+          original_response_text: string | null;
+          edited_at: string | null;
           duration: number | null;
           created_at: string;
         };
@@ -87,7 +93,10 @@ export type Database = {
           id?: string;
           session_id: string;
           question_id: number;
+          user_id: string;
           response_text?: string | null;
+          original_response_text?: string | null;
+          edited_at?: string | null;
           duration?: number | null;
           created_at?: string;
         };
@@ -95,7 +104,10 @@ export type Database = {
           id?: string;
           session_id?: string;
           question_id?: number;
+          user_id?: string;
           response_text?: string | null;
+          original_response_text?: string | null;
+          edited_at?: string | null;
           duration?: number | null;
           created_at?: string;
         };
@@ -135,6 +147,7 @@ export type Database = {
           improved_example: string | null;
           filler_words: Json | null;
           speaking_pace: number | null;
+          speech_metrics: Json | null;
           confidence_score: number | null;
           tokens_used: number | null;
           input_tokens: number | null;
@@ -160,6 +173,7 @@ export type Database = {
           improved_example?: string | null;
           filler_words?: Json | null;
           speaking_pace?: number | null;
+          speech_metrics?: Json | null;
           confidence_score?: number | null;
           tokens_used?: number | null;
           input_tokens?: number | null;
@@ -185,6 +199,7 @@ export type Database = {
           improved_example?: string | null;
           filler_words?: Json | null;
           speaking_pace?: number | null;
+          speech_metrics?: Json | null;
           confidence_score?: number | null;
           tokens_used?: number | null;
           input_tokens?: number | null;
@@ -422,12 +437,236 @@ export type Database = {
         };
         Relationships: [];
       };
+      transcript_edits: {
+        Row: {
+          id: string;
+          interview_response_id: string;
+          user_id: string;
+          previous_text: string;
+          new_text: string;
+          score_before: number | null;
+          score_after: number | null;
+          reanalyzed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          interview_response_id: string;
+          user_id: string;
+          previous_text: string;
+          new_text: string;
+          score_before?: number | null;
+          score_after?: number | null;
+          reanalyzed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          interview_response_id?: string;
+          user_id?: string;
+          previous_text?: string;
+          new_text?: string;
+          score_before?: number | null;
+          score_after?: number | null;
+          reanalyzed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "transcript_edits_interview_response_id_fkey";
+            columns: ["interview_response_id"];
+            isOneToOne: false;
+            referencedRelation: "interview_responses";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      ai_proxy_usage: {
+        Row: {
+          user_id: string;
+          kind: string;
+          usage_date: string;
+          request_count: number;
+        };
+        Insert: {
+          user_id: string;
+          kind: string;
+          usage_date?: string;
+          request_count?: number;
+        };
+        Update: {
+          user_id?: string;
+          kind?: string;
+          usage_date?: string;
+          request_count?: number;
+        };
+        Relationships: [];
+      };
+      model_routing_rules: {
+        Row: {
+          user_id: string;
+          rules: Json;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          rules?: Json;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          rules?: Json;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      spend_budgets: {
+        Row: {
+          user_id: string;
+          daily_limit_cents: number | null;
+          monthly_limit_cents: number | null;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          daily_limit_cents?: number | null;
+          monthly_limit_cents?: number | null;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          daily_limit_cents?: number | null;
+          monthly_limit_cents?: number | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      transcription_usage: {
+        Row: {
+          id: string;
+          session_id: string | null;
+          user_id: string;
+          provider: string;
+          model: string;
+          streamed: boolean;
+          audio_seconds: number;
+          cost_cents: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          session_id?: string | null;
+          user_id: string;
+          provider: string;
+          model: string;
+          streamed?: boolean;
+          audio_seconds: number;
+          cost_cents: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          session_id?: string | null;
+          user_id?: string;
+          provider?: string;
+          model?: string;
+          streamed?: boolean;
+          audio_seconds?: number;
+          cost_cents?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "transcription_usage_session_id_fkey";
+            columns: ["session_id"];
+            isOneToOne: false;
+            referencedRelation: "interview_sessions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      usage_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          session_id: string | null;
+          purpose: string;
+          provider: string;
+          model: string;
+          status: "success" | "error";
+          attempt: number;
+          input_tokens: number;
+          output_tokens: number;
+          total_tokens: number;
+          cost_cents: number;
+          latency_ms: number;
+          error_message: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          session_id?: string | null;
+          purpose: string;
+          provider: string;
+          model: string;
+          status: "success" | "error";
+          attempt?: number;
+          input_tokens?: number;
+          output_tokens?: number;
+          total_tokens?: number;
+          cost_cents?: number;
+          latency_ms: number;
+          error_message?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          session_id?: string | null;
+          purpose?: string;
+          provider?: string;
+          model?: string;
+          status?: "success" | "error";
+          attempt?: number;
+          input_tokens?: number;
+          output_tokens?: number;
+          total_tokens?: number;
+          cost_cents?: number;
+          latency_ms?: number;
+          error_message?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_session_id_fkey";
+            columns: ["session_id"];
+            isOneToOne: false;
+            referencedRelation: "interview_sessions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      consume_ai_proxy_quota: {
+        Args: {
+          p_user_id: string;
+          p_kind: string;
+          p_limit: number;
+        };
+        Returns: number | null;
+      };
+      get_spend_cents: {
+        Args: {
+          p_user_id: string;
+          p_since: string;
+        };
+        Returns: number;
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -0,0 +1,417 @@
+import { useEffect, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { motion } from "framer-motion";
+import { Link } from "react-router-dom";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  Brain,
+  LayoutDashboard,
+  Loader2,
+  Plus,
+  Route,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { MODEL_CONFIG, MODEL_SELECTION } from "@/config/openRouter";
+import { llmProviderService } from "@/services/llmProviderService";
+import {
+  getModelIneligibility,
+  modelRoutingService,
+  type ModelRoutingRule,
+  type RoutedInterviewType,
+} from "@/services/modelRoutingService";
+
+const INTERVIEW_TYPES: { value: RoutedInterviewType; label: string }[] = [
+  { value: "behavioral", label: "Behavioral" },
+  { value: "leadership", label: "Leadership" },
+  { value: "technical", label: "Technical" },
+  { value: "custom", label: "Custom" },
+];
+
+const ANY = "any";
+
+const MODELS = Object.entries(MODEL_CONFIG).map(([id, config]) => ({
+  id,
+  name: config.name,
+  contextWindow: config.contextWindow,
+}));
+
+const parseWords = (value: string) =>
+  value === "" ? null : Math.max(0, Math.round(Number(value)) || 0);
+
+const createRule = (): ModelRoutingRule => ({
+  id: crypto.randomUUID(),
+  interviewType: null,
+  customDomain: null,
+  minWords: null,
+  maxWords: null,
+  model: MODELS[0].id,
+});
+
+const AISettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<ModelRoutingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const provider = llmProviderService.getConfig();
+
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    modelRoutingService
+      .getRules(userId)
+      .then(setRules)
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const updateRules = (next: ModelRoutingRule[]) => {
+    setRules(next);
+    setIsDirty(true);
+  };
+
+  const updateRule = (id: string, changes: Partial<ModelRoutingRule>) => {
+    updateRules(
+      rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule))
+    );
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    updateRules(next);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      await modelRoutingService.saveRules(user.id, rules);
+      setIsDirty(false);
+      toast({
+        title: "Model routing saved",
+        description: "New analyses will use these rules.",
+      });
+    } catch (error) {
+      console.error("Error saving model routing:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to save model routing.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Helmet>
+        <title>AI Models - Amplify Interview</title>
+        <meta
+          name="description"
+          content="Choose which AI models score your interview answers."
+        />
+      </Helmet>
+
+      {/* Header */}
+      <header className="border-b border-border/50 bg-card/30 backdrop-blur-xl sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <Link
+              to="/dashboard"
+              className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back to Dashboard</span>
+            </Link>
+            <h1 className="text-xl font-display font-bold text-foreground">
+              AI Models
+            </h1>
+            <Link
+              to="/dashboard"
+              className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <LayoutDashboard className="w-5 h-5" />
+              <span>Dashboard</span>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6 sm:space-y-8">
+        {/* Defaults */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-6 space-y-4"
+        >
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 border border-primary/20 flex items-center justify-center">
+              <Brain className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="font-display text-lg font-semibold text-foreground">
+                Default models
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                Used when no routing rule matches an answer. Requests go to{" "}
+                {provider.provider === "proxy"
+                  ? "the app's AI proxy"
+                  : provider.name}
+                {provider.modelOverride
+                  ? `, which serves every request with ${provider.modelOverride}.`
+                  : "."}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-2">
+            {INTERVIEW_TYPES.map((type) => (
+              <div
+                key={type.value}
+                className="flex items-center justify-between rounded-lg bg-secondary/30 px-3 py-2 text-sm"
+              >
+                <span className="text-muted-foreground">{type.label}</span>
+                <span className="text-foreground">
+                  {MODEL_CONFIG[MODEL_SELECTION[type.value]].name}
+                </span>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+
+        {/* Routing rules */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.05 }}
+          className="glass-card p-6 space-y-4"
+        >
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 border border-primary/20 flex items-center justify-center">
+                <Route className="w-5 h-5 text-primary" />
+              </div>
+              <div>
+                <h2 className="font-display text-lg font-semibold text-foreground">
+                  Routing rules
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  The first matching rule picks the model that scores an
+                  answer. If that model is unavailable or cannot handle the
+                  answer, the next eligible one is used.
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 shrink-0"
+              onClick={() => updateRules([...rules, createRule()])}
+              disabled={loading}
+            >
+              <Plus className="w-4 h-4" />
+              Add rule
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No rules yet, so every answer uses the default model for its
+              interview type.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {rules.map((rule, index) => {
+                const issue = getModelIneligibility(
+                  rule.model,
+                  rule.interviewType
+                );
+                return (
+                  <div
+                    key={rule.id}
+                    className="rounded-lg border border-border/50 p-4 space-y-3"
+                  >
+                    <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+                      <div className="space-y-1">
+                        <Label>Interview type</Label>
+                        <Select
+                          value={rule.interviewType || ANY}
+                          onValueChange={(value) =>
+                            updateRule(rule.id, {
+                              interviewType:
+                                value === ANY
+                                  ? null
+                                  : (value as RoutedInterviewType),
+                            })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ANY}>Any type</SelectItem>
+                            {INTERVIEW_TYPES.map((type) => (
+                              <SelectItem key={type.value} value={type.value}>
+                                {type.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor={`domain-${rule.id}`}>
+                          Custom domain
+                        </Label>
+                        <Input
+                          id={`domain-${rule.id}`}
+                          placeholder="Any domain"
+                          value={rule.customDomain || ""}
+                          onChange={(e) =>
+                            updateRule(rule.id, {
+                              customDomain: e.target.value || null,
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor={`min-${rule.id}`}>Min words</Label>
+                        <Input
+                          id={`min-${rule.id}`}
+                          type="number"
+                          min={0}
+                          placeholder="No minimum"
+                          value={rule.minWords ?? ""}
+                          onChange={(e) =>
+                            updateRule(rule.id, {
+                              minWords: parseWords(e.target.value),
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor={`max-${rule.id}`}>Max words</Label>
+                        <Input
+                          id={`max-${rule.id}`}
+                          type="number"
+                          min={0}
+                          placeholder="No maximum"
+                          value={rule.maxWords ?? ""}
+                          onChange={(e) =>
+                            updateRule(rule.id, {
+                              maxWords: parseWords(e.target.value),
+                            })
+                          }
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Model</Label>
+                        <Select
+                          value={rule.model}
+                          onValueChange={(value) =>
+                            updateRule(rule.id, { model: value })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a model" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MODELS.map((model) => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.name} (
+                                {Math.round(model.contextWindow / 1000)}k)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between gap-3">
+                      {issue ? (
+                        <p className="flex items-center gap-2 text-sm text-warning">
+                          <AlertTriangle className="w-4 h-4 shrink-0" />
+                          {issue}, so matching answers skip to the next
+                          eligible model.
+                        </p>
+                      ) : (
+                        <span />
+                      )}
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Move rule up"
+                          disabled={index === 0}
+                          onClick={() => moveRule(index, -1)}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Move rule down"
+                          disabled={index === rules.length - 1}
+                          onClick={() => moveRule(index, 1)}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Delete rule"
+                          onClick={() =>
+                            updateRules(rules.filter((r) => r.id !== rule.id))
+                          }
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={!user || !isDirty || isSaving}
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save rules
+            </Button>
+          </div>
+        </motion.div>
+      </main>
+    </div>
+  );
+};
+
+export default AISettings;
@@ -16,11 +16,20 @@ import {
   RefreshCw,
   MoreHorizontal,
   LogOut,
+  HardDrive,
+  AlertTriangle,
+  Brain,
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
+import RecordingRecoveryBanner from "@/components/RecordingRecoveryBanner";
+import { cloudBackupService } from "@/services/cloudBackupService";
+import {
+  storageRetentionService,
+  type StorageWarning,
+} from "@/services/storageRetentionService";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -76,12 +85,23 @@ const Dashboard = () => {
   const [profile, setProfile] = useState<any>(null);
   const [sessions, setSessions] = useState<InterviewSession[]>([]);
   const [summaries, setSummaries] = useState<InterviewSummary[]>([]);
+  const [storageWarning, setStorageWarning] = useState<StorageWarning | null>(
+    null
+  );
+
+  useEffect(() => {
+    storageRetentionService
+      .getStorageWarning()
+      .then(setStorageWarning)
+      .catch((error) => console.warn("Failed to check storage usage:", error));
+  }, []);
 
   useEffect(() => {
     if (user) {
       fetchProfile();
       fetchSessions();
       fetchSummaries();
+      cloudBackupService.resumePendingBackups(user.id);
     }
   }, [user]);
 
@@ -513,6 +533,20 @@ const Dashboard = () => {
                 <BarChart3 className="w-4 h-4 mr-2" />
                 Dashboard
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => navigate("/dashboard/storage")}
+                className="cursor-pointer"
+              >
+                <HardDrive className="w-4 h-4 mr-2" />
+                Storage
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => navigate("/dashboard/ai")}
+                className="cursor-pointer"
+              >
+                <Brain className="w-4 h-4 mr-2" />
+                AI models
+              </DropdownMenuItem>
               <DropdownMenuItem
                 onClick={async () => {
                   try {
@@ -533,6 +567,32 @@ const Dashboard = () => {
       </header>
 
       <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <RecordingRecoveryBanner />
+
+        {storageWarning && (
+          <div
+            className={`glass-card p-4 mb-6 flex flex-col sm:flex-row sm:items-center gap-3 border ${
+              storageWarning.level === "critical"
+                ? "border-destructive/40"
+                : "border-warning/30"
+            }`}
+          >
+            <AlertTriangle
+              className={`w-5 h-5 shrink-0 ${
+                storageWarning.level === "critical"
+                  ? "text-destructive"
+                  : "text-warning"
+              }`}
+            />
+            <p className="text-sm text-foreground flex-1">
+              {storageWarning.message}
+            </p>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/dashboard/storage">Manage storage</Link>
+            </Button>
+          </div>
+        )}
+
         {/* Stats Grid */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
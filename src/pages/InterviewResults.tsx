@@ -1,11 +1,15 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Helmet } from "react-helmet-async";
 import { motion, AnimatePresence } from "framer-motion";
 import { Link, useNavigate, useLocation, useParams } from "react-router-dom";
-import { localVideoStorageService } from "@/services/localVideoStorageService";
+import {
+  localVideoStorageService,
+  type RecordedAnswer,
+} from "@/services/localVideoStorageService";
 import { localInterviewStorageService } from "@/services/localInterviewStorageService";
 import { interviewSessionService } from "@/services/interviewSessionService";
 import { videoConversionService } from "@/services/videoConversionService";
+import { isMediaJobCancelled } from "@/services/mediaJobService";
 import {
   getFormatDisplayName,
   getFileExtension,
@@ -35,6 +39,11 @@ import {
   Trophy,
   ChevronDown,
   ChevronUp,
+  Lock,
+  FileArchive,
+  Loader2,
+  Captions,
+  Scissors,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -64,6 +73,12 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Dialog,
   DialogContent,
@@ -72,6 +87,25 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { TranscriptEditor } from "@/components/results/TranscriptEditor";
+import { AnswerClipPlayer } from "@/components/results/AnswerClipPlayer";
+import { AnswerClipExportDialog } from "@/components/results/AnswerClipExportDialog";
+import { WaveformPlayer } from "@/components/results/WaveformPlayer";
+import { answerClipStorageService } from "@/services/answerClipStorageService";
+import { recordingEncryptionService } from "@/services/recordingEncryptionService";
+import RecordingPassphraseDialog from "@/components/RecordingPassphraseDialog";
+import { sessionBundleService } from "@/services/sessionBundleService";
+import type { CaptureMode } from "@/utils/screenComposition";
+import { SpeechMetricsCard } from "@/components/results/SpeechMetricsCard";
+import type { SpeechMetrics } from "@/utils/speechMetrics";
+import {
+  buildCaptionCues,
+  downloadCaptions,
+  toWebVTTDataUrl,
+  wordsFromTimedText,
+} from "@/utils/captions";
+import { getLanguageConfig } from "@/config/languages";
+import type { TranscribedWord } from "@/services/deepgramTranscriptionService";
 
 interface VideoMetadataInfo {
   duration: number;
@@ -82,6 +116,8 @@ interface VideoMetadataInfo {
 
 interface InterviewResult {
   id: string;
+  captureMode?: CaptureMode; // how the recording was captured
+  waveform?: number[]; // audio-only recordings are shown as a waveform
   overallScore: number;
   performanceBadge: string;
   duration: number;
@@ -95,6 +131,8 @@ interface InterviewResult {
   nextSteps?: string[];
   estimatedPracticeTime?: string;
   videoMetadata?: VideoMetadataInfo;
+  captionWords?: TranscribedWord[]; // full-recording word timings
+  recordedAnswers?: RecordedAnswer[]; // answer positions in the recording
   sessionData?: any; // Store session data for interview type access
 }
 
@@ -102,6 +140,7 @@ interface QuestionResponse {
   id: string;
   question: string;
   answer: string;
+  originalAnswer?: string | null; // first transcription when the user corrected it
   score: number;
   duration: number;
   fillerWords: number;
@@ -124,6 +163,7 @@ interface QuestionResponse {
   };
   actionable_feedback?: string;
   improved_example?: string;
+  speechMetrics?: SpeechMetrics | null;
 }
 
 const InterviewResults = () => {
@@ -137,6 +177,8 @@ const InterviewResults = () => {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isConverting, setIsConverting] = useState(false);
+  const [conversionProgress, setConversionProgress] = useState(0);
+  const conversionAbortRef = useRef<AbortController | null>(null);
   const [displayedScore, setDisplayedScore] = useState(0);
 
   // Debug: Track isConverting state changes (disabled)
@@ -150,6 +192,14 @@ const InterviewResults = () => {
   const [videoPlaying, setVideoPlaying] = useState(false);
   const [chartType, setChartType] = useState<"line" | "bar">("line");
   const [expandedQuestions, setExpandedQuestions] = useState<string[]>([]);
+  // Questions recorded as their own clip play that clip instead of seeking
+  const [clipQuestionIds, setClipQuestionIds] = useState<string[]>([]);
+  // Encrypted recordings stay hidden until the passphrase is entered
+  const [recordingLocked, setRecordingLocked] = useState(false);
+  const [unlockOpen, setUnlockOpen] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+  // Index of the answer being exported as a standalone clip
+  const [clipExportIndex, setClipExportIndex] = useState<number | null>(null);
 
   // Helper function to get interview type display name
   const getInterviewTypeDisplay = (sessionData: any): string => {
@@ -314,9 +364,11 @@ const InterviewResults = () => {
                   improvements: analysis.improvements || [],
                   communication_scores: analysis.communication_scores || null,
                   content_scores: analysis.content_scores || null,
+                  speechMetrics: analysis.speech_metrics || null,
                   analysis: {
                     confidence: analysis.confidence_score || 0.8,
-                    speakingRate: 150,
+                    speakingRate:
+                      analysis.speech_metrics?.wordsPerMinute || 150,
                     fillerWords: analysis.filler_words?.total || 0,
                   },
                 };
@@ -399,6 +451,7 @@ const InterviewResults = () => {
                           ? question.question_text
                           : `Question ${response.question_id}`,
                         answerText: response.response_text,
+                        originalAnswerText: response.original_response_text,
                         duration: response.duration,
                         analysis: {
                           confidence: 0.8,
@@ -456,6 +509,7 @@ const InterviewResults = () => {
                           ? question.question_text
                           : `Question ${response.question_id}`,
                         answerText: response.response_text,
+                        originalAnswerText: response.original_response_text,
                         duration: response.duration,
                         analysis: {
                           confidence: 0.8,
@@ -610,9 +664,11 @@ const InterviewResults = () => {
                           communication_scores:
                             analysis.communication_scores || null,
                           content_scores: analysis.content_scores || null,
+                          speechMetrics: analysis.speech_metrics || null,
                           analysis: {
                             confidence: analysis.confidence_score || 0.8,
-                            speakingRate: 150,
+                            speakingRate:
+                              analysis.speech_metrics?.wordsPerMinute || 150,
                             fillerWords: analysis.filler_words?.total || 0,
                           },
                         };
@@ -786,9 +842,11 @@ const InterviewResults = () => {
                               actionable_feedback:
                                 analysis.actionable_feedback || "",
                               improved_example: analysis.improved_example || "",
+                              speechMetrics: analysis.speech_metrics || null,
                               analysis: {
                                 confidence: analysis.confidence_score || 0.8,
-                                speakingRate: 150,
+                                speakingRate:
+                                  analysis.speech_metrics?.wordsPerMinute || 150,
                                 fillerWords: analysis.filler_words?.total || 0,
                               },
                             };
@@ -826,9 +884,11 @@ const InterviewResults = () => {
         await localVideoStorageService.initialize();
 
         // Get video data from local storage
-        const videoData = await localVideoStorageService.getVideo(
-          finalSessionId
-        );
+        const locked = recordingEncryptionService.needsUnlock();
+        setRecordingLocked(locked);
+        const videoData = locked
+          ? null
+          : await localVideoStorageService.getVideo(finalSessionId);
 
         if (!videoData) {
           console.error("No video data found for session:", finalSessionId);
@@ -876,6 +936,8 @@ const InterviewResults = () => {
         // Create result from real data
         const realResult: InterviewResult = {
           id: finalSessionId,
+          captureMode: videoData?.metadata.captureMode,
+          waveform: videoData?.metadata.waveform,
           sessionData: sessionData, // Store session data for interview type access
           overallScore:
             sessionData.aiFeedback?.overallScore ||
@@ -921,8 +983,10 @@ const InterviewResults = () => {
               ? sessionData.questionResponses.map(
                   (response: any, index: number) => ({
                     id: response.questionId || (index + 1).toString(),
+                    responseId: response.responseId || undefined,
                     question: response.questionText || `Question ${index + 1}`,
                     answer: response.answerText || "No transcription available",
+                    originalAnswer: response.originalAnswerText || null,
                     score:
                       typeof response.score === "number"
                         ? Math.round(response.score)
@@ -935,8 +999,12 @@ const InterviewResults = () => {
                       response.transcription?.confidence ||
                       response.analysis?.confidence ||
                       0.8,
-                    speakingPace: response.analysis?.speakingRate || 150,
+                    speakingPace:
+                      response.speechMetrics?.wordsPerMinute ||
+                      response.analysis?.speakingRate ||
+                      150,
                     eyeContact: 85,
+                    speechMetrics: response.speechMetrics || null,
                     strengths: Array.isArray(response.strengths)
                       ? response.strengths
                       : [],
@@ -985,6 +1053,8 @@ const InterviewResults = () => {
           nextSteps: (sessionData as any)._summaryExtras?.nextSteps,
           estimatedPracticeTime: (sessionData as any)._summaryExtras
             ?.estimatedPracticeTime,
+          captionWords: videoData?.metadata.transcription?.words,
+          recordedAnswers: videoData?.metadata.segments,
           videoMetadata: videoData
             ? {
                 duration: (() => {
@@ -1057,6 +1127,15 @@ const InterviewResults = () => {
     };
   }, [videoUrl, seekableVideoUrl]);
 
+  // Stop any MP4 conversion still running when leaving the page
+  useEffect(() => {
+    return () => {
+      const controller = conversionAbortRef.current;
+      conversionAbortRef.current = null;
+      controller?.abort();
+    };
+  }, []);
+
   // Keyboard shortcuts for video controls
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
@@ -1081,6 +1160,72 @@ const InterviewResults = () => {
     return () => window.removeEventListener("keydown", onKey);
   }, []);
 
+  // Find which answers were recorded as separate clips
+  useEffect(() => {
+    if (!result?.id || recordingLocked) return;
+    answerClipStorageService
+      .getSessionClips(result.id)
+      .then((clips) =>
+        setClipQuestionIds(clips.map((clip) => clip.metadata.questionId))
+      )
+      .catch((error) => console.error("Error loading answer clips:", error));
+  }, [result?.id, recordingLocked]);
+
+  const handleDownloadBundle = async () => {
+    if (!result?.id) return;
+    setIsExportingBundle(true);
+    try {
+      await sessionBundleService.downloadSession(result.id);
+    } catch (error) {
+      console.error("Session export failed:", error);
+      toast({
+        title: "Export Failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to export this session. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExportingBundle(false);
+    }
+  };
+
+  const handleUnlockRecording = async (
+    passphrase: string
+  ): Promise<string | null> => {
+    if (!(await recordingEncryptionService.unlock(passphrase))) {
+      return "That passphrase is not correct.";
+    }
+    setRecordingLocked(false);
+    if (!result?.id) return null;
+
+    try {
+      const videoData = await localVideoStorageService.getVideo(result.id);
+      if (videoData) {
+        const videoObjectUrl = URL.createObjectURL(
+          new Blob([videoData.videoBlob], {
+            type: videoData.metadata.format || "video/mp4",
+          })
+        );
+        setVideoUrl(videoObjectUrl);
+        setSeekableVideoUrl(videoObjectUrl);
+        setResult((prev) =>
+          prev
+            ? {
+                ...prev,
+                captionWords: videoData.metadata.transcription?.words,
+                recordedAnswers: videoData.metadata.segments,
+              }
+            : prev
+        );
+      }
+    } catch (error) {
+      console.error("Error loading unlocked recording:", error);
+    }
+    return null;
+  };
+
   // Handle missing data properly
   useEffect(() => {
     if (!isLoading && !result) {
@@ -1151,6 +1296,55 @@ const InterviewResults = () => {
     navigate("/dashboard");
   };
 
+  // Build chapters from response durations (compute safely even when result
+  // is null). These and the captions only change with the result, so they
+  // are memoized instead of rebuilt on every playback tick.
+  const chapters = useMemo(() => {
+    let cursor = 0;
+    return (result?.responses || []).map((r, idx) => {
+      const start = cursor;
+      const dur = Math.max(1, r.duration || 0);
+      const end = start + dur;
+      cursor = end;
+      return {
+        index: idx + 1,
+        questionId: r.id || `q${idx}`,
+        question: r.question,
+        start,
+        end,
+        score: r.score || 0,
+        duration: dur,
+      };
+    });
+  }, [result?.responses]);
+
+  const waveformTranscript = useMemo(
+    () =>
+      chapters.map((ch) => ({
+        start: ch.start,
+        end: ch.end,
+        label: `Q${ch.index}`,
+        text: result?.responses?.[ch.index - 1]?.answer || "",
+      })),
+    [chapters, result?.responses]
+  );
+
+  // Captions follow the recorded word timings; without them each answer is
+  // spread over its chapter
+  const captionCues = useMemo(
+    () =>
+      result?.captionWords?.length
+        ? buildCaptionCues(result.captionWords)
+        : buildCaptionCues(wordsFromTimedText(waveformTranscript), {
+            boundaries: chapters.map((ch) => ch.start),
+          }),
+    [result?.captionWords, waveformTranscript, chapters]
+  );
+  const captionTrackUrl = useMemo(
+    () => toWebVTTDataUrl(captionCues),
+    [captionCues]
+  );
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -1202,26 +1396,7 @@ const InterviewResults = () => {
     );
   }
 
-  // Build chapters from response durations (compute safely even when result is null)
   const responsesForCalcs = result?.responses || [];
-  const chapters = (() => {
-    const items = responsesForCalcs;
-    let cursor = 0;
-    return items.map((r, idx) => {
-      const start = cursor;
-      const dur = Math.max(1, r.duration || 0);
-      const end = start + dur;
-      cursor = end;
-      return {
-        index: idx + 1,
-        question: r.question,
-        start,
-        end,
-        score: r.score || 0,
-        duration: dur,
-      };
-    });
-  })();
 
   const totalDuration = (() => {
     // Calculate total duration from response durations (in seconds)
@@ -1237,6 +1412,23 @@ const InterviewResults = () => {
       : result?.duration || 0;
   })();
 
+  const isAudioRecording = result?.captureMode === "audio";
+  // Recorded positions are exact; chapters are the fallback for older sessions
+  const getAnswerRange = (index: number) =>
+    result?.recordedAnswers?.[index] ?? chapters[index];
+  const clipExportRange =
+    clipExportIndex !== null ? getAnswerRange(clipExportIndex) : undefined;
+
+  const captionLanguage = getLanguageConfig(
+    result?.sessionData?.interview_config?.language
+  );
+
+  const togglePlayback = () => {
+    if (!videoRef.current) return;
+    if (videoRef.current.paused) videoRef.current.play().catch(() => {});
+    else videoRef.current.pause();
+  };
+
   const seekTo = (time: number) => {
     if (!videoRef.current) return;
     videoRef.current.currentTime = Math.max(
@@ -1288,6 +1480,34 @@ const InterviewResults = () => {
     );
   };
 
+  // Open an answer's own clip, or seek the full recording when it has none
+  const openChapter = (questionId: string, start: number) => {
+    if (!clipQuestionIds.includes(questionId)) {
+      seekTo(start);
+      return;
+    }
+    setExpandedQuestions((prev) =>
+      prev.includes(questionId) ? prev : [...prev, questionId]
+    );
+    document
+      .getElementById(`response-${questionId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  // Apply a transcript correction or re-analysis to one answer in place
+  const updateResponse = (index: number, patch: Partial<QuestionResponse>) => {
+    setResult((prev) =>
+      prev
+        ? {
+            ...prev,
+            responses: prev.responses.map((r, i) =>
+              i === index ? { ...r, ...patch } : r
+            ),
+          }
+        : prev
+    );
+  };
+
   // Format date for new design
   const formatDate = (dateString: string): string => {
     try {
@@ -1578,7 +1798,20 @@ const InterviewResults = () => {
 
             {/* Video Player Placeholder */}
             <div className="relative aspect-video bg-black/50 rounded-xl overflow-hidden mb-4 group cursor-pointer">
-              {!videoUrl ? (
+              {!videoUrl && recordingLocked ? (
+                <div className="absolute inset-0 flex flex-col items-center justify-center">
+                  <div className="w-16 h-16 rounded-full bg-primary/20 flex items-center justify-center mb-4">
+                    <Lock className="w-8 h-8 text-primary" />
+                  </div>
+                  <p className="text-white font-medium">
+                    Recording is encrypted
+                  </p>
+                  <p className="text-white/60 text-sm mt-2 mb-4">
+                    Enter your passphrase to watch this interview.
+                  </p>
+                  <Button onClick={() => setUnlockOpen(true)}>Unlock</Button>
+                </div>
+              ) : !videoUrl ? (
                 <div className="absolute inset-0 flex flex-col items-center justify-center">
                   <div className="w-16 h-16 rounded-full bg-red-500/20 flex items-center justify-center mb-4">
                     <AlertCircle className="w-8 h-8 text-red-400" />
@@ -1593,14 +1826,39 @@ const InterviewResults = () => {
                 <>
                   {isConverting && (
                     <div className="absolute inset-0 flex items-center justify-center bg-black/50 z-10">
-                      <div className="text-center text-white">
-                        <div className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin mx-auto mb-2" />
-                        <p className="text-sm">Converting video to MP4...</p>
+                      <div className="w-64 space-y-3 text-center text-white">
+                        <p className="text-sm">
+                          Converting video to MP4...{" "}
+                          {Math.round(conversionProgress * 100)}%
+                        </p>
+                        <Progress
+                          value={conversionProgress * 100}
+                          className="h-2"
+                        />
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => conversionAbortRef.current?.abort()}
+                        >
+                          Cancel
+                        </Button>
                       </div>
                     </div>
                   )}
 
-                  {!videoPlaying && !isConverting && (
+                  {isAudioRecording && (
+                    <WaveformPlayer
+                      peaks={result.waveform || []}
+                      currentTime={currentTime}
+                      duration={totalDuration}
+                      isPlaying={videoPlaying}
+                      onTogglePlay={togglePlayback}
+                      onSeek={seekTo}
+                      transcript={waveformTranscript}
+                    />
+                  )}
+
+                  {!videoPlaying && !isConverting && !isAudioRecording && (
                     <div
                       className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer z-20"
                       onClick={() => {
@@ -1614,7 +1872,9 @@ const InterviewResults = () => {
                         <Play className="w-8 h-8 text-white ml-1" />
                       </div>
                       <p className="text-white mt-4 font-medium">
-                        Interview Recording
+                        {result.captureMode === "screen"
+                          ? "Screen Recording"
+                          : "Interview Recording"}
                       </p>
                       <p className="text-white/60 text-sm">Click to play</p>
                     </div>
@@ -1622,7 +1882,11 @@ const InterviewResults = () => {
 
                   <video
                     controls
-                    className="w-full h-full"
+                    className={`w-full h-full ${
+                      result.captureMode === "screen"
+                        ? "object-contain bg-black"
+                        : ""
+                    }`}
                     src={seekableVideoUrl || videoUrl}
                     poster=""
                     preload="metadata"
@@ -1637,8 +1901,20 @@ const InterviewResults = () => {
                     }
                     onPlay={() => setVideoPlaying(true)}
                     onPause={() => setVideoPlaying(false)}
-                    style={{ display: videoPlaying ? "block" : "none" }}
+                    style={{
+                      display:
+                        videoPlaying && !isAudioRecording ? "block" : "none",
+                    }}
                   >
+                    {captionCues.length > 0 && (
+                      <track
+                        kind="captions"
+                        src={captionTrackUrl}
+                        srcLang={captionLanguage.code}
+                        label={captionLanguage.nativeName}
+                        default
+                      />
+                    )}
                     Your browser does not support the video tag.
                   </video>
                 </>
@@ -1656,7 +1932,7 @@ const InterviewResults = () => {
 
                 return (
                   <div className="flex items-center justify-between mb-4">
-                    {isMP4 ? (
+                    {isMP4 || isAudioRecording ? (
                       <Button
                         variant="ghost"
                         size="sm"
@@ -1693,8 +1969,11 @@ const InterviewResults = () => {
                           className="gap-2"
                           onClick={async () => {
                             if (!videoUrl) return;
+                            const controller = new AbortController();
+                            conversionAbortRef.current = controller;
                             try {
                               setIsConverting(true);
+                              setConversionProgress(0);
                               toast({
                                 title: "Converting Video",
                                 description:
@@ -1705,7 +1984,12 @@ const InterviewResults = () => {
                               const videoBlob = await response.blob();
                               const mp4Blob =
                                 await videoConversionService.convertWebMToMP4(
-                                  videoBlob
+                                  videoBlob,
+                                  {
+                                    onProgress: setConversionProgress,
+                                    signal: controller.signal,
+                                    duration: result.videoMetadata?.duration,
+                                  }
                                 );
 
                               const link = document.createElement("a");
@@ -1719,6 +2003,17 @@ const InterviewResults = () => {
                                   "MP4 video downloaded successfully!",
                               });
                             } catch (error) {
+                              if (isMediaJobCancelled(error)) {
+                                // Cleared when the page unmounts
+                                if (conversionAbortRef.current === controller) {
+                                  toast({
+                                    title: "Conversion Cancelled",
+                                    description:
+                                      "The MP4 conversion was stopped.",
+                                  });
+                                }
+                                return;
+                              }
                               console.error("MP4 conversion failed:", error);
                               toast({
                                 title: "Conversion Failed",
@@ -1727,13 +2022,20 @@ const InterviewResults = () => {
                                 variant: "destructive",
                               });
                             } finally {
-                              setIsConverting(false);
+                              if (conversionAbortRef.current === controller) {
+                                conversionAbortRef.current = null;
+                                setIsConverting(false);
+                              }
                             }
                           }}
                           disabled={isConverting}
                         >
                           <Download className="w-4 h-4" />
-                          {isConverting ? "Converting..." : "Download MP4"}
+                          {isConverting
+                            ? `Converting... ${Math.round(
+                                conversionProgress * 100
+                              )}%`
+                            : "Download MP4"}
                         </Button>
                       </>
                     )}
@@ -1781,6 +2083,44 @@ const InterviewResults = () => {
                       >
                         PiP
                       </Button>
+                      {captionCues.length > 0 && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 px-2 gap-1 text-xs"
+                            >
+                              <Captions className="w-4 h-4" />
+                              Captions
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem
+                              onClick={() =>
+                                downloadCaptions(
+                                  captionCues,
+                                  "vtt",
+                                  `interview-${result.id}`
+                                )
+                              }
+                            >
+                              Download WebVTT (.vtt)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() =>
+                                downloadCaptions(
+                                  captionCues,
+                                  "srt",
+                                  `interview-${result.id}`
+                                )
+                              }
+                            >
+                              Download SubRip (.srt)
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </div>
                   </div>
                 );
@@ -1803,7 +2143,7 @@ const InterviewResults = () => {
                     <button
                       key={i}
                       title={`Q${ch.index}: ${ch.question}`}
-                      onClick={() => seekTo(ch.start)}
+                      onClick={() => openChapter(ch.questionId, ch.start)}
                       style={{
                         left: `${(ch.start / totalDuration) * 100}%`,
                         width: `${(ch.duration / totalDuration) * 100}%`,
@@ -1944,6 +2284,17 @@ const InterviewResults = () => {
           </div>
         </motion.div>
 
+        {/* Speaking Pace */}
+        {result.responses.some((r) => r.speechMetrics?.wordCount) && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+          >
+            <SpeechMetricsCard responses={result.responses} />
+          </motion.div>
+        )}
+
         {/* Response Transcriptions */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -1967,6 +2318,7 @@ const InterviewResults = () => {
               return (
                 <div
                   key={questionId}
+                  id={`response-${questionId}`}
                   className="border border-border/50 rounded-xl overflow-hidden bg-card/30"
                 >
                   <button
@@ -2018,14 +2370,52 @@ const InterviewResults = () => {
                       exit={{ opacity: 0, height: 0 }}
                       className="px-4 pb-4 space-y-4"
                     >
-                      <div className="bg-muted/30 rounded-lg p-4">
-                        <h4 className="text-sm font-medium text-muted-foreground mb-2">
-                          Your Response
-                        </h4>
-                        <p className="text-foreground/80 text-sm leading-relaxed">
-                          {response.answer || "No response available"}
-                        </p>
-                      </div>
+                      {clipQuestionIds.includes(questionId) && (
+                        <AnswerClipPlayer
+                          sessionId={result.id}
+                          questionId={questionId}
+                          questionNumber={index + 1}
+                          responseId={response.responseId}
+                          onDeleted={() =>
+                            setClipQuestionIds((prev) =>
+                              prev.filter((id) => id !== questionId)
+                            )
+                          }
+                        />
+                      )}
+                      {videoUrl && getAnswerRange(index) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => setClipExportIndex(index)}
+                        >
+                          <Scissors className="w-4 h-4" />
+                          Clip this answer
+                        </Button>
+                      )}
+                      <TranscriptEditor
+                        responseId={response.responseId}
+                        answer={response.answer}
+                        originalAnswer={response.originalAnswer}
+                        onSaved={(text, originalText) =>
+                          updateResponse(index, {
+                            answer: text,
+                            originalAnswer: originalText,
+                          })
+                        }
+                        onReanalyzed={(analysis) =>
+                          updateResponse(index, {
+                            score: Math.round(analysis.overall_score),
+                            strengths: analysis.strengths,
+                            improvements: analysis.improvements,
+                            communication_scores: analysis.communication_scores,
+                            content_scores: analysis.content_scores,
+                            actionable_feedback: analysis.actionable_feedback,
+                            improved_example: analysis.improved_example,
+                          })
+                        }
+                      />
                       {response.actionable_feedback && (
                         <div className="bg-primary/10 rounded-lg p-4 border border-primary/20">
                           <h4 className="text-sm font-medium text-primary mb-2 flex items-center gap-2">
@@ -2127,7 +2517,7 @@ const InterviewResults = () => {
           <p className="text-muted-foreground mb-6">
             Continue your interview preparation journey
           </p>
-          <div className="flex items-center justify-center gap-4">
+          <div className="flex flex-wrap items-center justify-center gap-4">
             <Button
               variant="hero"
               size="lg"
@@ -2144,9 +2534,44 @@ const InterviewResults = () => {
             >
               View All My Interviews
             </Button>
+            <Button
+              variant="outline"
+              size="lg"
+              className="gap-2"
+              onClick={handleDownloadBundle}
+              disabled={isExportingBundle}
+            >
+              {isExportingBundle ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <FileArchive className="w-5 h-5" />
+              )}
+              Download Session
+            </Button>
           </div>
         </motion.div>
       </main>
+
+      <RecordingPassphraseDialog
+        open={unlockOpen}
+        onOpenChange={setUnlockOpen}
+        mode="unlock"
+        onSubmit={handleUnlockRecording}
+      />
+
+      {clipExportIndex !== null && clipExportRange && videoUrl && (
+        <AnswerClipExportDialog
+          open
+          onOpenChange={(open) => !open && setClipExportIndex(null)}
+          questionNumber={clipExportIndex + 1}
+          questionText={result.responses[clipExportIndex]?.question || ""}
+          start={clipExportRange.start}
+          end={clipExportRange.end}
+          getRecording={() => fetch(videoUrl).then((res) => res.blob())}
+          audioOnly={isAudioRecording}
+          captions={captionCues}
+        />
+      )}
     </div>
   );
 };
@@ -11,6 +11,15 @@ import { localVideoStorageService } from "@/services/localVideoStorageService";
 import { videoSegmentService } from "@/services/videoSegmentService";
 import { localInterviewStorageService } from "@/services/localInterviewStorageService";
 import { interviewSessionService } from "@/services/interviewSessionService";
+import { transcriptionVocabularyService } from "@/services/transcriptionVocabularyService";
+import { answerClipStorageService } from "@/services/answerClipStorageService";
+import {
+  recordingRecoveryService,
+  RECOVERY_HEARTBEAT_MS,
+} from "@/services/recordingRecoveryService";
+import { spendBudgetService } from "@/services/spendBudgetService";
+import { recordingEncryptionService } from "@/services/recordingEncryptionService";
+import type { CaptureMode } from "@/utils/screenComposition";
 import { useAuth } from "@/contexts/AuthContext";
 import { ClassifiedQuestion } from "@/services/questionClassificationService";
 import { supabase } from "@/integrations/supabase/client";
@@ -36,6 +45,8 @@ import {
   ChevronLeft,
   ChevronDown,
   ChevronUp,
+  RotateCcw,
+  Monitor,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -73,6 +84,9 @@ interface InterviewState {
   cameraOn: boolean;
 }
 
+// Trailing characters of finalized speech kept in the live caption strip
+const CAPTION_MAX_CHARS = 160;
+
 const InterviewSession = () => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -84,6 +98,9 @@ const InterviewSession = () => {
     ClassifiedQuestion[]
   >([]);
 
+  // Session vocabulary passed to the transcription provider as keyword hints
+  const transcriptionKeywordsRef = useRef<string[]>([]);
+
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
@@ -101,7 +118,18 @@ const InterviewSession = () => {
     getRecordingUrl,
     clearRecording,
     onAudioChunk,
+    onRecordedChunk,
+    startClip,
+    stopClip,
   } = useVideoRecording();
+  // When the current answer clip started (epoch ms), for its recorded length
+  const clipStartedAtRef = useRef<number | null>(null);
+  // Screen mode waits for a click, which the browser's share picker requires
+  const [awaitingScreenShare, setAwaitingScreenShare] = useState(false);
+  const [isStartingScreenShare, setIsStartingScreenShare] = useState(false);
+  const recordedCaptureModeRef = useRef<CaptureMode>("camera");
+  // Recorder chunks are flushed under this id so a crashed tab can recover
+  const recordingIdRef = useRef(`recording-${Date.now()}`);
 
   // State for questions
   const [questions, setQuestions] = useState<Question[]>([]);
@@ -119,6 +147,7 @@ const InterviewSession = () => {
 
   // Real-time transcription state
   const [transcript, setTranscript] = useState<string>("");
+  const [interimTranscript, setInterimTranscript] = useState<string>("");
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [videoLoading, setVideoLoading] = useState(true);
 
@@ -155,6 +184,9 @@ const InterviewSession = () => {
       }
     })();
 
+  // Phone-screen practice: microphone only, no camera preview
+  const isAudioOnly = config?.captureMode === "audio";
+
   // Redirect to setup if no session is available
   useEffect(() => {
     if (!config || !interviewType) {
@@ -235,7 +267,8 @@ const InterviewSession = () => {
               config.selectedField,
               config.useUserQuestions,
               config.selectedUserQuestions,
-              user?.id
+              user?.id,
+              config.language
             );
           }
 
@@ -258,6 +291,7 @@ const InterviewSession = () => {
                     selectedField: config.selectedField,
                     useUserQuestions: config.useUserQuestions,
                     selectedUserQuestions: config.selectedUserQuestions,
+                    language: config.language,
                   },
                 });
               setCurrentSessionId(sessionId);
@@ -342,6 +376,25 @@ const InterviewSession = () => {
     }
   }, [config, questions.length]);
 
+  // Build transcription keyword hints from the questions, their classification,
+  // the user's question bank and glossary
+  useEffect(() => {
+    if (questions.length === 0) return;
+    let cancelled = false;
+    transcriptionVocabularyService
+      .buildSessionVocabulary({
+        classifiedQuestions,
+        questionTexts: questions.map((q) => q.text),
+        userId: user?.id,
+      })
+      .then((terms) => {
+        if (!cancelled) transcriptionKeywordsRef.current = terms;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [questions, classifiedQuestions, user?.id]);
+
   // Watch for videoRef to become available and set mediaStream
   const [videoElementReady, setVideoElementReady] = useState(false);
 
@@ -370,6 +423,29 @@ const InterviewSession = () => {
 
   const currentQuestion = questions[interviewState.currentQuestion - 1];
 
+  // Latest session and question for the chunk persister, which is set up once
+  const recoveryContextRef = useRef<{
+    sessionId: string | null;
+    question?: Question;
+  }>({ sessionId: null });
+  useEffect(() => {
+    recoveryContextRef.current = {
+      sessionId: currentSessionId,
+      question: currentQuestion,
+    };
+  }, [currentSessionId, currentQuestion]);
+
+  // Keep the recording from looking abandoned while the interview is open,
+  // including while it is paused and no chunks are written
+  useEffect(() => {
+    if (interviewState.status !== "recording") return;
+    const recordingId = recordingIdRef.current;
+    const timer = setInterval(() => {
+      recordingRecoveryService.heartbeat(recordingId);
+    }, RECOVERY_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [interviewState.status]);
+
   // Start tracking the first question only once when interview begins
   const firstQuestionStartedRef = useRef(false);
   useEffect(() => {
@@ -440,6 +516,14 @@ const InterviewSession = () => {
           throw new Error("Camera access is not supported in this browser");
         }
 
+        if (isAudioOnly) {
+          clearTimeout(timeoutId);
+          setVideoLoading(false);
+          setInterviewState((prev) => ({ ...prev, status: "recording" }));
+          await beginRecording("audio");
+          return;
+        }
+
         // Try with ideal constraints first
         let mediaStream;
         try {
@@ -473,7 +557,10 @@ const InterviewSession = () => {
 
         // Store the mediaStream for video element when it's ready
         streamRef.current = mediaStream;
-        setInterviewState((prev) => ({ ...prev, status: "recording" }));
+        // Screen interviews begin once the user has picked what to share
+        if (config?.captureMode !== "screen") {
+          setInterviewState((prev) => ({ ...prev, status: "recording" }));
+        }
 
         // Try to set video element, with retry if not ready
         let retryCount = 0;
@@ -537,42 +624,13 @@ const InterviewSession = () => {
           description: "Your camera and microphone are now active.",
         });
 
-        // Start recording when camera is ready
-        try {
-          await startRecording();
-          // Mark recording start for precise transcript mapping
-          videoSegmentService.markRecordingStart();
-          // Ensure prep gap is 10s
-          videoSegmentService.setPrepGapSeconds(10);
-
-          // Start background streaming session for low-latency transcription
-          const session = deepgramTranscriptionService.createStreamingSession();
-          const unsubscribe = onAudioChunk(async (chunk) => {
-            try {
-              await session.pushChunk(chunk);
-            } catch (e) {
-              console.warn("Streaming push failed, continuing", e);
-            }
-          });
-          // Save finalize on window for later
-          (window as any).__dgFinalize = async () => {
-            try {
-              return await session.finalize();
-            } finally {
-              unsubscribe();
-            }
-          };
-        } catch (recordingError) {
-          console.error("Failed to start recording:", recordingError);
-          toast({
-            title: "Recording Error",
-            description:
-              "Failed to start recording. Interview will continue without recording.",
-            variant: "destructive",
-          });
+        // Screen capture needs a click to open the browser's share picker
+        if (config?.captureMode === "screen") {
+          setAwaitingScreenShare(true);
+        } else {
+          await beginRecording("camera");
         }
 
-        // Real-time transcription not implemented - using Deepgram for post-processing
       } catch (error) {
         console.error("Error accessing media devices:", error);
         let errorMessage = "Unable to access camera or microphone.";
@@ -623,27 +681,221 @@ const InterviewSession = () => {
   const handlePause = () => {
     setInterviewState((prev) => ({ ...prev, isPaused: true }));
     setShowPauseModal(true);
+    // Stop recording while paused; segments are mapped to recorded time
+    pauseRecording();
+    videoSegmentService.markRecordingPaused();
   };
 
   const handleResume = () => {
     setInterviewState((prev) => ({ ...prev, isPaused: false }));
     setShowPauseModal(false);
+    resumeRecording();
+    videoSegmentService.markRecordingResumed();
+  };
+
+  /**
+   * Start recording, and the transcript tracking tied to its timeline
+   */
+  const beginRecording = async (captureMode: CaptureMode) => {
+    try {
+      // Checked up front so the live stream doesn't miss the first chunks.
+      // Answer clips are transcribed one by one afterwards, so they don't
+      // stream the whole interview as well.
+      const streamBudget =
+        config?.transcriptionProvider !== "local" && !config?.perQuestionClips
+          ? await spendBudgetService.checkBudget(
+              user?.id,
+              spendBudgetService.estimateTranscriptionCost(
+                totalTimeSeconds,
+                true
+              )
+            )
+          : null;
+      const started = await startRecording({ captureMode });
+      if (!started) return false;
+      recordedCaptureModeRef.current = captureMode;
+      // Mark recording start for precise transcript mapping
+      videoSegmentService.markRecordingStart();
+      // Ensure prep gap is 10s
+      videoSegmentService.setPrepGapSeconds(10);
+      if (config?.perQuestionClips) {
+        startAnswerClip();
+      }
+      persistRecordingChunks(captureMode);
+
+      // Start background streaming session for low-latency transcription
+      // (skipped for on-device transcription, answer clips or when over budget)
+      if (streamBudget) {
+        spendBudgetService.notifyBudgetReached(streamBudget, "transcription");
+      }
+      if (streamBudget?.allowed) {
+        const session = deepgramTranscriptionService.createStreamingSession({
+          language: config?.language,
+          keywords: transcriptionKeywordsRef.current,
+          onTranscript: ({ transcript: text, isFinal }) => {
+            setIsTranscribing(true);
+            if (isFinal) {
+              setInterimTranscript("");
+              if (text.trim()) {
+                setTranscript((prev) =>
+                  prev ? `${prev} ${text.trim()}` : text.trim()
+                );
+              }
+            } else {
+              setInterimTranscript(text);
+            }
+          },
+        });
+        const unsubscribe = onAudioChunk(async (chunk) => {
+          try {
+            await session.pushChunk(chunk);
+          } catch (e) {
+            console.warn("Streaming push failed, continuing", e);
+          }
+        });
+        // Save finalize on window for later
+        (window as any).__dgFinalize = async () => {
+          try {
+            return await session.finalize();
+          } finally {
+            unsubscribe();
+          }
+        };
+      } else {
+        Reflect.deleteProperty(window, "__dgFinalize");
+      }
+      return true;
+    } catch (recordingError) {
+      console.error("Failed to start recording:", recordingError);
+      toast({
+        title: "Recording Error",
+        description:
+          "Failed to start recording. Interview will continue without recording.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Flush each recorder chunk to IndexedDB along with the question timeline,
+   * so the recording can be recovered if the tab is lost mid-interview
+   */
+  const persistRecordingChunks = async (captureMode: CaptureMode) => {
+    const recordingId = recordingIdRef.current;
+    try {
+      await recordingRecoveryService.begin({
+        id: recordingId,
+        sessionId: recoveryContextRef.current.sessionId,
+        userId: user?.id ?? null,
+        captureMode,
+        startedAt: Date.now(),
+        totalDuration: 0,
+        questionSegments: [],
+        config,
+        interviewType: interviewType?.id || "custom",
+        transcriptionKeywords: transcriptionKeywordsRef.current,
+      });
+    } catch (error) {
+      console.warn("Recording recovery unavailable:", error);
+      if (recordingEncryptionService.needsUnlock()) {
+        toast({
+          title: "No recovery copy",
+          description:
+            "Your recordings are locked, so this interview can't be recovered if the tab closes.",
+        });
+      }
+      return;
+    }
+
+    onRecordedChunk((chunk) => {
+      const { sessionId, question } = recoveryContextRef.current;
+      recordingRecoveryService.appendChunk(recordingId, chunk, {
+        sessionId,
+        questionSegments: videoSegmentService.getSegmentsSnapshot(
+          question && { id: question.id, text: question.text }
+        ),
+        totalDuration: videoSegmentService.getRecordedDuration(),
+      });
+    });
+  };
+
+  const handleStartRecording = async (captureMode: CaptureMode) => {
+    setIsStartingScreenShare(true);
+    const started = await beginRecording(captureMode);
+    setIsStartingScreenShare(false);
+    if (started) {
+      setAwaitingScreenShare(false);
+      setInterviewState((prev) => ({ ...prev, status: "recording" }));
+    }
+  };
+
+  /**
+   * Start recording the current answer as its own clip
+   */
+  const startAnswerClip = () => {
+    startClip();
+    clipStartedAtRef.current = Date.now();
+  };
+
+  /**
+   * Stop the current answer clip and store it against its question
+   */
+  const saveAnswerClip = async (question: Question | undefined) => {
+    if (!config?.perQuestionClips) return;
+    const blob = await stopClip();
+    const startedAt = clipStartedAtRef.current;
+    clipStartedAtRef.current = null;
+    if (!blob || !question || !currentSessionId || startedAt === null) return;
+
+    try {
+      const duration =
+        videoSegmentService.toMediaTime(Date.now()) -
+        videoSegmentService.toMediaTime(startedAt);
+      await answerClipStorageService.saveClip(
+        currentSessionId,
+        String(question.id),
+        question.text,
+        blob,
+        Math.max(0, duration)
+      );
+    } catch (error) {
+      console.error("Error saving answer clip:", error);
+    }
+  };
+
+  const handleRetakeAnswer = () => {
+    if (!currentQuestion) return;
+    // Replaces the clip and restarts the segment from now
+    startAnswerClip();
+    videoSegmentService.markQuestionShown();
+    videoSegmentService.startQuestionSegment(
+      currentQuestion.id,
+      currentQuestion.text
+    );
+    setTranscript("");
+    setInterimTranscript("");
+    toast({
+      title: "Answer restarted",
+      description: "Your previous take for this question was discarded.",
+    });
   };
 
   const handleEndInterview = async () => {
     setInterviewState((prev) => ({ ...prev, status: "processing" }));
 
     try {
+      await saveAnswerClip(currentQuestion);
+
       // Stop recording and get video blob
       const videoBlob = await stopRecording();
 
-      // Calculate total duration
+      // Calculate total duration, excluding time spent paused
       const recordingStartTime = videoSegmentService.getRecordingStartTime();
-      const recordingEndTime = Date.now();
       let totalDuration = 0;
 
       if (recordingStartTime) {
-        totalDuration = (recordingEndTime - recordingStartTime) / 1000;
+        totalDuration = videoSegmentService.getRecordedDuration();
       } else {
         // Fallback: calculate from question segments if available
         const segments = videoSegmentService.getQuestionSegments();
@@ -669,9 +921,16 @@ const InterviewSession = () => {
         currentQuestion,
         questionSegments: videoSegmentService.getQuestionSegments(),
         config,
+        captureMode: recordedCaptureModeRef.current,
         interviewType: interviewType?.id || "custom",
+        transcriptionKeywords: transcriptionKeywordsRef.current,
+        recordingId: recordingIdRef.current,
       };
 
+      recordingRecoveryService.markProcessing(
+        recordingIdRef.current,
+        currentSessionId
+      );
       navigate("/processing", {
         state: processingData,
       });
@@ -695,6 +954,7 @@ const InterviewSession = () => {
         currentQuestion.text
       );
     }
+    await saveAnswerClip(currentQuestion);
 
     if (interviewState.currentQuestion < interviewState.totalQuestions) {
       const nextQuestionIndex = interviewState.currentQuestion; // This is the next question index (1-indexed)
@@ -703,6 +963,13 @@ const InterviewSession = () => {
         currentQuestion: prev.currentQuestion + 1,
       }));
       setThinkingTime(10); // Reset thinking time
+      videoSegmentService.markQuestionShown();
+      if (config?.perQuestionClips) {
+        startAnswerClip();
+      }
+      // Start the caption strip fresh for the next answer
+      setTranscript("");
+      setInterimTranscript("");
 
       // Add current question to history
       if (currentQuestion) {
@@ -902,19 +1169,23 @@ const InterviewSession = () => {
                 )}
                 {interviewState.isMuted ? "Unmute" : "Mute"}
               </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleToggleCamera}
-                className="flex items-center gap-2"
-              >
-                {interviewState.cameraOn ? (
-                  <VideoOff className="w-4 h-4" />
-                ) : (
-                  <Video className="w-4 h-4" />
-                )}
-                {interviewState.cameraOn ? "Turn Off Camera" : "Turn On Camera"}
-              </Button>
+              {!isAudioOnly && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleToggleCamera}
+                  className="flex items-center gap-2"
+                >
+                  {interviewState.cameraOn ? (
+                    <VideoOff className="w-4 h-4" />
+                  ) : (
+                    <Video className="w-4 h-4" />
+                  )}
+                  {interviewState.cameraOn
+                    ? "Turn Off Camera"
+                    : "Turn On Camera"}
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -975,7 +1246,9 @@ const InterviewSession = () => {
                 <Card className="p-3">
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
-                      <h3 className="font-medium">Your Video</h3>
+                      <h3 className="font-medium">
+                        {isAudioOnly ? "Your Audio" : "Your Video"}
+                      </h3>
                       <div className="flex items-center gap-2">
                         {interviewState.isRecording && (
                           <div className="flex items-center gap-2 text-red-500">
@@ -988,7 +1261,14 @@ const InterviewSession = () => {
                       </div>
                     </div>
                     <div className="relative aspect-[16/10] bg-muted rounded-lg overflow-hidden">
-                      {videoLoading ? (
+                      {isAudioOnly ? (
+                        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-muted-foreground">
+                          <Mic className="w-12 h-12 text-primary" />
+                          <p className="text-sm">
+                            Audio-only interview: only your voice is recorded
+                          </p>
+                        </div>
+                      ) : videoLoading ? (
                         <div className="absolute inset-0 flex items-center justify-center">
                           <Loader2 className="w-8 h-8 animate-spin" />
                         </div>
@@ -1020,12 +1300,38 @@ const InterviewSession = () => {
                           autoPlay
                         />
                       )}
+
+                      {/* Live Captions */}
+                      {isTranscribing && (transcript || interimTranscript) && (
+                        <div className="absolute bottom-3 left-3 right-3 rounded-md bg-black/70 px-3 py-2 text-sm leading-snug text-white">
+                          <p className="line-clamp-2">
+                            <span>{transcript.slice(-CAPTION_MAX_CHARS)}</span>
+                            {interimTranscript && (
+                              <span className="text-white/60">
+                                {" "}
+                                {interimTranscript}
+                              </span>
+                            )}
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </Card>
 
                 {/* Action Buttons */}
-                <div className="flex justify-center pt-2">
+                <div className="flex justify-center gap-2 pt-2">
+                  {config?.perQuestionClips && (
+                    <Button
+                      onClick={handleRetakeAnswer}
+                      size="lg"
+                      variant="outline"
+                      className="flex items-center gap-2"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Retake Answer
+                    </Button>
+                  )}
                   {interviewState.currentQuestion <
                   interviewState.totalQuestions ? (
                     <Button
@@ -1055,7 +1361,12 @@ const InterviewSession = () => {
       </div>
 
       {/* Pause Modal */}
-      <Dialog open={showPauseModal} onOpenChange={setShowPauseModal}>
+      <Dialog
+        open={showPauseModal}
+        onOpenChange={(open) => {
+          if (!open) handleResume();
+        }}
+      >
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Interview Paused</DialogTitle>
@@ -1070,6 +1381,41 @@ const InterviewSession = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Screen Share Prompt */}
+      <Dialog open={awaitingScreenShare}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Monitor className="w-5 h-5 text-primary" />
+              Share your screen
+            </DialogTitle>
+            <DialogDescription>
+              Pick the screen, window or tab you will walk through. It is
+              recorded with your camera in the corner, and the interview starts
+              once sharing begins.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              disabled={isStartingScreenShare}
+              onClick={() => handleStartRecording("camera")}
+            >
+              Use camera only
+            </Button>
+            <Button
+              disabled={isStartingScreenShare}
+              onClick={() => handleStartRecording("screen")}
+            >
+              {isStartingScreenShare && (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              )}
+              Share Screen
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -64,6 +64,26 @@ import {
   userQuestionBankService,
   CustomQuestion,
 } from "@/services/userQuestionBankService";
+import {
+  unifiedTranscriptionService,
+  type TranscriptionProvider,
+} from "@/services/unifiedTranscriptionService";
+import { transcriptionVocabularyService } from "@/services/transcriptionVocabularyService";
+import { recordingEncryptionService } from "@/services/recordingEncryptionService";
+import RecordingPassphraseDialog from "@/components/RecordingPassphraseDialog";
+import {
+  isScreenCaptureSupported,
+  type CaptureMode,
+} from "@/utils/screenComposition";
+import {
+  transcriptionCacheService,
+  type TranscriptionCacheStats,
+} from "@/services/transcriptionCacheService";
+import {
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  type InterviewLanguage,
+} from "@/config/languages";
 
 interface InterviewType {
   id: string;
@@ -82,6 +102,10 @@ interface InterviewConfig {
   selectedField?: string; // For custom interview type
   useUserQuestions: boolean; // Use questions from user's question bank
   selectedUserQuestions: string[]; // Selected question IDs from user's bank
+  transcriptionProvider: TranscriptionProvider; // Remote (Deepgram) or on-device
+  language: InterviewLanguage; // Spoken language for transcription, questions and feedback
+  perQuestionClips: boolean; // Record each answer as its own clip
+  captureMode: CaptureMode; // Camera, or shared screen with a camera overlay
 }
 
 const InterviewSetup = () => {
@@ -109,6 +133,7 @@ const InterviewSetup = () => {
   const [selectedType, setSelectedType] = useState<string>("");
   const [showChecklist, setShowChecklist] = useState(false);
   const [isStarting, setIsStarting] = useState(false);
+  const [unlockOpen, setUnlockOpen] = useState(false);
   const [cameraTest, setCameraTest] = useState(false);
   const [audioTest, setAudioTest] = useState(false);
   const [checklistItems, setChecklistItems] = useState({
@@ -125,8 +150,68 @@ const InterviewSetup = () => {
     selectedField: "",
     useUserQuestions: false,
     selectedUserQuestions: [],
+    transcriptionProvider: unifiedTranscriptionService.getRecommendedProvider(),
+    language: DEFAULT_LANGUAGE,
+    perQuestionClips: false,
+    captureMode: "camera",
   });
 
+  // Restore the user's saved transcription provider
+  useEffect(() => {
+    const saved = unifiedTranscriptionService.getPreferredProvider(user?.id);
+    if (saved) {
+      setConfig((prev) => ({ ...prev, transcriptionProvider: saved }));
+    }
+  }, [user?.id]);
+
+  // Custom vocabulary passed to transcription as keyword hints
+  const [glossaryInput, setGlossaryInput] = useState("");
+  useEffect(() => {
+    if (!user?.id) return;
+    setGlossaryInput(
+      transcriptionVocabularyService.getGlossary(user.id).join(", ")
+    );
+  }, [user?.id]);
+
+  const handleGlossaryBlur = () => {
+    if (!user?.id) return;
+    const terms = transcriptionVocabularyService.parseGlossaryInput(
+      glossaryInput
+    );
+    transcriptionVocabularyService.setGlossary(user.id, terms);
+    setGlossaryInput(terms.join(", "));
+  };
+
+  // Locally cached transcripts, reused when a recording is reprocessed
+  const [transcriptionCacheStats, setTranscriptionCacheStats] =
+    useState<TranscriptionCacheStats | null>(null);
+  useEffect(() => {
+    transcriptionCacheService
+      .getStats()
+      .then(setTranscriptionCacheStats)
+      .catch((error) =>
+        console.warn("Failed to read transcription cache stats:", error)
+      );
+  }, []);
+
+  const handleClearTranscriptionCache = async () => {
+    try {
+      await transcriptionCacheService.clear();
+      setTranscriptionCacheStats(await transcriptionCacheService.getStats());
+      toast({
+        title: "Transcription cache cleared",
+        description: "Reprocessed recordings will be transcribed again.",
+      });
+    } catch (error) {
+      console.error("Error clearing transcription cache:", error);
+      toast({
+        title: "Error",
+        description: "Failed to clear the transcription cache.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // User questions state
   const [userQuestions, setUserQuestions] = useState<CustomQuestion[]>([]);
   const [loadingUserQuestions, setLoadingUserQuestions] = useState(false);
@@ -173,7 +258,7 @@ const InterviewSetup = () => {
       // Clear questions if no interview type is selected
       setAppQuestions([]);
     }
-  }, [selectedType, config.useUserQuestions]);
+  }, [selectedType, config.useUserQuestions, config.language]);
 
   // Load app questions when field changes for custom interviews
   useEffect(() => {
@@ -286,6 +371,18 @@ const InterviewSetup = () => {
     loadData();
   }, []);
 
+  const transcriptionProviders =
+    unifiedTranscriptionService.getAvailableProviders();
+
+  const handleTranscriptionProviderChange = (
+    provider: TranscriptionProvider
+  ) => {
+    setConfig((prev) => ({ ...prev, transcriptionProvider: provider }));
+    if (user?.id) {
+      unifiedTranscriptionService.setPreferredProvider(user.id, provider);
+    }
+  };
+
   const handleTypeSelect = (typeId: string) => {
     const type = interviewTypes.find((t) => t.id === typeId);
     setSelectedType(typeId);
@@ -387,20 +484,22 @@ const InterviewSetup = () => {
         // For custom interviews, load questions based on selected field
         const selectedField = config.selectedField || "product_manager";
         const allQuestions =
-          await questionDatabaseService.getQuestionsForInterview(
+          await questionDatabaseService.getQuestionsForInterviewFromDB(
             "custom",
             false,
             [],
-            selectedField
+            selectedField,
+            config.language
           );
         setAppQuestions(allQuestions);
       } else {
         const questions =
-          await questionDatabaseService.getQuestionsForInterview(
+          await questionDatabaseService.getQuestionsForInterviewFromDB(
             type as "behavioral" | "technical" | "leadership",
             false,
             [],
-            "product_manager"
+            "product_manager",
+            config.language
           );
         setAppQuestions(questions);
       }
@@ -478,8 +577,9 @@ const InterviewSetup = () => {
     const newAudioTest = !audioTest;
     setAudioTest(newAudioTest);
 
-    // Update checklist when both camera and audio are tested
-    if (newAudioTest && cameraTest) {
+    // Update checklist when both camera and audio are tested (audio-only
+    // interviews need just the microphone)
+    if (newAudioTest && (cameraTest || config.captureMode === "audio")) {
       setChecklistItems((prev) => ({
         ...prev,
         cameraAudio: true,
@@ -575,6 +675,12 @@ const InterviewSetup = () => {
       return;
     }
 
+    // Encrypted recordings can only be saved once the passphrase is entered
+    if (recordingEncryptionService.needsUnlock()) {
+      setUnlockOpen(true);
+      return;
+    }
+
     setIsStarting(true);
     setTimeout(() => {
       try {
@@ -1351,6 +1457,184 @@ const InterviewSetup = () => {
                   <span>15</span>
                 </div>
               </div>
+
+              {/* Transcription Provider */}
+              <div>
+                <label className="text-sm font-medium text-foreground mb-3 block">
+                  Transcription
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(
+                    Object.keys(
+                      transcriptionProviders
+                    ) as TranscriptionProvider[]
+                  ).map((provider) => {
+                    const info = transcriptionProviders[provider];
+                    return (
+                      <button
+                        key={provider}
+                        disabled={!info.available}
+                        onClick={() =>
+                          handleTranscriptionProviderChange(provider)
+                        }
+                        className={`py-2.5 px-3 rounded-lg text-sm font-medium transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed ${
+                          config.transcriptionProvider === provider
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-secondary text-muted-foreground hover:text-foreground"
+                        }`}
+                      >
+                        <span className="block">{info.name}</span>
+                        <span className="block text-xs opacity-80">
+                          {info.cost}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  If the selected provider fails, your answers are transcribed
+                  on-device instead.
+                </p>
+                {transcriptionCacheStats &&
+                  transcriptionCacheStats.entries > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {`${transcriptionCacheStats.entries} cached transcript${
+                        transcriptionCacheStats.entries === 1 ? "" : "s"
+                      } (${Math.ceil(
+                        transcriptionCacheStats.totalSize / 1024
+                      )} KB), reused when a recording is reprocessed.`}{" "}
+                      <button
+                        className="text-primary hover:underline"
+                        onClick={handleClearTranscriptionCache}
+                      >
+                        Clear
+                      </button>
+                    </p>
+                  )}
+              </div>
+
+              {/* Custom Vocabulary */}
+              {user && (
+                <div>
+                  <Label
+                    htmlFor="transcription-glossary"
+                    className="text-sm font-medium text-foreground mb-3 block"
+                  >
+                    Custom vocabulary
+                  </Label>
+                  <Input
+                    id="transcription-glossary"
+                    value={glossaryInput}
+                    onChange={(e) => setGlossaryInput(e.target.value)}
+                    onBlur={handleGlossaryBlur}
+                    placeholder="e.g. Kubernetes, Terraform, OKRs"
+                  />
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Comma-separated tools, products or jargon you expect to
+                    mention, so transcription spells them correctly.
+                  </p>
+                </div>
+              )}
+
+              {/* Interview Language */}
+              <div>
+                <label className="text-sm font-medium text-foreground mb-3 block">
+                  Language
+                </label>
+                <Select
+                  value={config.language}
+                  onValueChange={(value) => {
+                    setConfig((prev) => ({
+                      ...prev,
+                      language: value as InterviewLanguage,
+                    }));
+                    setSelectedAppQuestions([]);
+                  }}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select a language" />
+                  </SelectTrigger>
+                  <SelectContent className="glass-card">
+                    {SUPPORTED_LANGUAGES.map((language) => (
+                      <SelectItem key={language.code} value={language.code}>
+                        {language.name}
+                        {language.nativeName !== language.name &&
+                          ` (${language.nativeName})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Questions, transcription and feedback use this language.
+                </p>
+              </div>
+
+              {/* Recording Mode */}
+              <div>
+                <label className="text-sm font-medium text-foreground mb-3 block">
+                  Recording
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {(
+                    [
+                      ["camera", "Camera", "Face and voice"],
+                      ["screen", "Screen + camera", "Walk through code"],
+                      ["audio", "Audio only", "Phone screens"],
+                    ] as [CaptureMode, string, string][]
+                  ).map(([mode, name, detail]) => (
+                    <button
+                      key={mode}
+                      disabled={
+                        mode === "screen" && !isScreenCaptureSupported()
+                      }
+                      onClick={() =>
+                        setConfig((prev) => ({ ...prev, captureMode: mode }))
+                      }
+                      className={`py-2.5 px-3 rounded-lg text-sm font-medium transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed ${
+                        config.captureMode === mode
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-secondary text-muted-foreground hover:text-foreground"
+                      }`}
+                    >
+                      <span className="block">{name}</span>
+                      <span className="block text-xs opacity-80">{detail}</span>
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {config.captureMode === "audio"
+                    ? "Only your microphone is recorded, like a phone screen. No camera is needed."
+                    : isScreenCaptureSupported()
+                    ? "Records the screen you share with your camera in the corner, for technical and system-design rounds."
+                    : "Screen recording is not supported in this browser."}
+                </p>
+              </div>
+
+              {/* Per-question Clips */}
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Label
+                    htmlFor="per-question-clips"
+                    className="text-sm font-medium text-foreground block"
+                  >
+                    Record each answer separately
+                  </Label>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Saves every answer as its own clip on this device, so you
+                    can retake, replay or download answers individually.
+                  </p>
+                </div>
+                <Switch
+                  id="per-question-clips"
+                  checked={config.perQuestionClips}
+                  onCheckedChange={(checked) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      perQuestionClips: checked,
+                    }))
+                  }
+                />
+              </div>
             </div>
           </motion.div>
         </div>
@@ -1417,7 +1701,10 @@ const InterviewSetup = () => {
               {[
                 {
                   key: "cameraAudio" as keyof typeof checklistItems,
-                  label: "Camera and microphone working",
+                  label:
+                    config.captureMode === "audio"
+                      ? "Microphone working"
+                      : "Camera and microphone working",
                   checked: checklistItems.cameraAudio,
                 },
                 {
@@ -1501,6 +1788,20 @@ const InterviewSetup = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <RecordingPassphraseDialog
+        open={unlockOpen}
+        onOpenChange={setUnlockOpen}
+        mode="unlock"
+        description="Your recordings are encrypted. Enter your passphrase so this interview can be saved."
+        onSubmit={async (passphrase) => {
+          if (!(await recordingEncryptionService.unlock(passphrase))) {
+            return "That passphrase is not correct.";
+          }
+          handleBeginInterview();
+          return null;
+        }}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -17,6 +17,17 @@ import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import type { SpeechMetrics } from "@/utils/speechMetrics";
+import { buildWaveform } from "@/utils/waveform";
+import type { QuestionSegment } from "@/services/videoSegmentService";
+import { videoConversionService } from "@/services/videoConversionService";
+import {
+  recordingRecoveryService,
+  RECOVERY_HEARTBEAT_MS,
+} from "@/services/recordingRecoveryService";
+import { recordingEncryptionService } from "@/services/recordingEncryptionService";
+import RecordingPassphraseDialog from "@/components/RecordingPassphraseDialog";
 
 interface ProcessingStep {
   id: string;
@@ -31,11 +42,18 @@ const ProcessingInterview = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const [currentStep, setCurrentStep] = useState(0);
   const [overallProgress, setOverallProgress] = useState(0);
   const [sessionData, setSessionData] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [unlockOpen, setUnlockOpen] = useState(false);
+  // Settles the pending passphrase prompt: true once unlocked, false if the
+  // user closed it without unlocking
+  const unlockResolveRef = useRef<((unlocked: boolean) => void) | null>(null);
+  // Stops media jobs when the user leaves the page mid-processing
+  const mediaAbortRef = useRef<AbortController | null>(null);
 
   const [steps, setSteps] = useState<ProcessingStep[]>([
     {
@@ -94,13 +112,51 @@ const ProcessingInterview = () => {
     }
   }, [location.state, navigate]);
 
+  useEffect(() => {
+    return () => mediaAbortRef.current?.abort();
+  }, []);
+
+  // Keep the recording's recovery copy from looking abandoned mid-processing
+  useEffect(() => {
+    const recordingId: string | undefined = location.state?.recordingId;
+    if (!recordingId) return;
+    const timer = setInterval(() => {
+      recordingRecoveryService.heartbeat(recordingId);
+    }, RECOVERY_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [location.state]);
+
   const updateStep = (stepId: string, updates: Partial<ProcessingStep>) => {
     setSteps((prev) =>
       prev.map((step) => (step.id === stepId ? { ...step, ...updates } : step))
     );
   };
 
+  /**
+   * Ask for the passphrase when recordings are locked. Resolves once the
+   * user unlocks (true) or closes the prompt without unlocking (false).
+   */
+  const waitForUnlock = (): Promise<boolean> => {
+    if (!recordingEncryptionService.needsUnlock()) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      unlockResolveRef.current = resolve;
+      setUnlockOpen(true);
+    });
+  };
+
+  const handleUnlockOpenChange = (open: boolean) => {
+    setUnlockOpen(open);
+    if (!open) {
+      unlockResolveRef.current?.(!recordingEncryptionService.needsUnlock());
+      unlockResolveRef.current = null;
+    }
+  };
+
   const startProcessing = async (data: any) => {
+    // Ask now, while the rest runs, so the recording can be stored encrypted
+    const unlocked = waitForUnlock();
     try {
       // Validate required data
       if (!data.sessionId) {
@@ -138,10 +194,9 @@ const ProcessingInterview = () => {
       // If no duration was passed, calculate from recording time
       if (totalDuration === 0) {
         const recordingStartTime = videoSegmentService.getRecordingStartTime();
-        const recordingEndTime = Date.now();
 
         if (recordingStartTime) {
-          totalDuration = (recordingEndTime - recordingStartTime) / 1000;
+          totalDuration = videoSegmentService.getRecordedDuration();
         } else {
           const segments = videoSegmentService.getQuestionSegments();
           if (segments.length > 0) {
@@ -177,8 +232,72 @@ const ProcessingInterview = () => {
         }
       }
 
+      // Honour the provider and language chosen in setup; local is always the fallback
+      const transcriptionOptions = {
+        preferredProvider: data.config?.transcriptionProvider,
+        language: data.config?.language,
+        keywords: data.transcriptionKeywords,
+        userId: user?.id,
+        sessionId: data.sessionId,
+        estimatedDurationSeconds: totalDuration,
+      };
+
+      // Answers recorded as separate clips are transcribed clip by clip
+      const { answerClipStorageService } = await import(
+        "@/services/answerClipStorageService"
+      );
+      const answerClips =
+        data.config?.perQuestionClips && data.sessionId
+          ? await answerClipStorageService
+              .getSessionClips(data.sessionId)
+              .catch((error) => {
+                console.warn("Failed to load answer clips:", error);
+                return [];
+              })
+          : [];
+
       // Process transcription using the passed question segments
-      if (streamed) {
+      if (answerClips.length > 0) {
+        questionResponses = await videoSegmentService.transcribeQuestionClips(
+          answerClips,
+          transcriptionOptions
+        );
+        transcriptionResult = {
+          text: questionResponses
+            .map((r) => r.transcription.text)
+            .filter(Boolean)
+            .join(" "),
+          confidence: 0.8,
+          duration: questionResponses.reduce((sum, r) => sum + r.duration, 0),
+          language: transcriptionOptions.language,
+        };
+      } else if (streamed) {
+        // The live stream bypasses the unified service, so record its usage
+        if (user?.id) {
+          const { costTrackingService } = await import(
+            "@/services/costTrackingService"
+          );
+          await costTrackingService.trackTranscriptionUsage(
+            "deepgram",
+            streamed,
+            data.sessionId
+          );
+        }
+
+        // Cache the streamed transcript so reprocessing this recording is free
+        const { transcriptionCacheService } = await import(
+          "@/services/transcriptionCacheService"
+        );
+        await transcriptionCacheService.set(
+          videoBlob,
+          {
+            provider: "deepgram",
+            language: transcriptionOptions.language,
+            keywords: transcriptionOptions.keywords,
+          },
+          streamed
+        );
+
         const original = unifiedTranscriptionService.transcribeVideoDirectly;
         (unifiedTranscriptionService as any).transcribeVideoDirectly =
           async () => streamed;
@@ -186,7 +305,8 @@ const ProcessingInterview = () => {
           questionResponses =
             await videoSegmentService.transcribeQuestionSegments(
               videoBlob,
-              data.questionSegments // Pass the segments from InterviewSession
+              data.questionSegments, // Pass the segments from InterviewSession
+              transcriptionOptions
             );
         } finally {
           (unifiedTranscriptionService as any).transcribeVideoDirectly =
@@ -197,21 +317,39 @@ const ProcessingInterview = () => {
         questionResponses =
           await videoSegmentService.transcribeQuestionSegments(
             videoBlob,
-            data.questionSegments // Pass the segments from InterviewSession
+            data.questionSegments, // Pass the segments from InterviewSession
+            transcriptionOptions
           );
         transcriptionResult =
-          await unifiedTranscriptionService.transcribeVideoDirectly(videoBlob);
+          await unifiedTranscriptionService.transcribeVideoDirectly(
+            videoBlob,
+            transcriptionOptions
+          );
       }
 
-      // Save responses to database
+      // Save responses to database, keeping speech metrics for the analysis rows
+      const speechMetricsByResponse: Record<string, SpeechMetrics> = {};
       if (data.sessionId && questionResponses.length > 0) {
         for (const response of questionResponses) {
-          await interviewSessionService.saveQuestionResponse(data.sessionId, {
-            questionId: response.questionId, // Keep as string for user questions (UUID)
-            questionText: response.questionText,
-            responseText: response.answerText,
-            duration: response.duration,
-          });
+          const responseId = await interviewSessionService.saveQuestionResponse(
+            data.sessionId,
+            {
+              questionId: response.questionId, // Keep as string for user questions (UUID)
+              questionText: response.questionText,
+              responseText: response.answerText,
+              duration: response.duration,
+            }
+          );
+          if (responseId && response.speechMetrics) {
+            speechMetricsByResponse[responseId] = response.speechMetrics;
+          }
+          if (responseId && answerClips.length > 0) {
+            await answerClipStorageService
+              .linkResponse(data.sessionId, response.questionId, responseId)
+              .catch((error) =>
+                console.warn("Failed to link answer clip:", error)
+              );
+          }
         }
       }
 
@@ -227,7 +365,21 @@ const ProcessingInterview = () => {
         const { analyzeInterviewSession } = await import(
           "@/services/coreAnalysisService"
         );
-        const analysisResult = await analyzeInterviewSession(data.sessionId);
+        const analysisResult = await analyzeInterviewSession(data.sessionId, {
+          speechMetricsByResponse,
+          language: data.config?.language,
+        });
+        if (analysisResult.budget && !analysisResult.budget.allowed) {
+          const { spendBudgetService } = await import(
+            "@/services/spendBudgetService"
+          );
+          const remaining = spendBudgetService.describeRemaining(
+            analysisResult.budget
+          );
+          updateStep("ai-analysis", {
+            description: `AI budget reached. ${remaining} Using basic analysis instead.`,
+          });
+        }
 
         aiFeedback = {
           overallScore: analysisResult.summary.average_score || 75,
@@ -249,7 +401,8 @@ const ProcessingInterview = () => {
         const fallbackAnalysis = generateFallbackAnalysis(
           transcriptionResult.text,
           totalDuration,
-          "custom"
+          "custom",
+          data.config?.language
         );
 
         aiFeedback = {
@@ -284,31 +437,129 @@ const ProcessingInterview = () => {
         "@/services/localVideoStorageService"
       );
       await localVideoStorageService.initialize();
-      await localVideoStorageService.storeVideo(
-        data.sessionId,
-        videoBlob,
-        undefined,
-        {
-          duration: totalDuration,
-          size: videoBlob.size,
-          format: videoBlob.type,
+
+      // Audio-only recordings keep a waveform in place of video frames
+      let waveform: number[] | undefined;
+      if (data.captureMode === "audio") {
+        try {
+          waveform = await buildWaveform(videoBlob);
+        } catch (error) {
+          console.warn("Failed to build waveform:", error);
         }
-      );
+      }
 
-      // Update video metadata
-      await localVideoStorageService.updateVideoMetadata(data.sessionId, {
-        transcription: {
-          text: transcriptionResult.text,
-          confidence: transcriptionResult.confidence,
-          duration: transcriptionResult.duration,
-        },
-        aiFeedback: {
-          overallScore: aiFeedback.overallScore,
-          strengths: aiFeedback.strengths,
-          improvements: aiFeedback.improvements,
-          detailedFeedback: aiFeedback.detailedFeedback,
-        },
+      // Remux so the stored recording can be seeked; this runs in a worker
+      // and reports its progress on this step
+      let storedBlob = videoBlob;
+      mediaAbortRef.current = new AbortController();
+      try {
+        storedBlob = await videoConversionService.createSeekableVideo(
+          videoBlob,
+          {
+            signal: mediaAbortRef.current.signal,
+            duration: totalDuration,
+            onProgress: (progress) => {
+              updateStep("generating-report", {
+                progress: Math.round(progress * 90),
+              });
+              setOverallProgress(60 + progress * 18);
+            },
+          }
+        );
+      } catch (error) {
+        // Cancelled by leaving the page; the original recording still works
+        console.warn("Seekable video remux cancelled:", error);
+      } finally {
+        mediaAbortRef.current = null;
+      }
+
+      // Declining the passphrase prompt keeps the results but not the
+      // recording, which could only be stored in the clear
+      if (recordingEncryptionService.needsUnlock()) {
+        updateStep("generating-report", {
+          description: "Waiting for your passphrase to save the recording...",
+        });
+      }
+      const canStore = await unlocked;
+      updateStep("generating-report", {
+        description: "Creating your detailed interview report...",
       });
+      if (!canStore) {
+        toast({
+          title: "Recording not saved",
+          description:
+            "Your recordings are locked, so this one was not kept. Your transcript and feedback are saved.",
+        });
+      } else {
+        await localVideoStorageService.storeVideo(
+          data.sessionId,
+          storedBlob,
+          undefined,
+          {
+            duration: totalDuration,
+            size: storedBlob.size,
+            format: storedBlob.type,
+            captureMode: data.captureMode,
+            waveform,
+          }
+        );
+
+        // The recording is stored for good, so its crash-recovery copy can go
+        if (data.recordingId) {
+          try {
+            await recordingRecoveryService.discard(data.recordingId);
+          } catch (error) {
+            console.warn("Failed to clear recovered recording:", error);
+          }
+        }
+
+        // Update video metadata
+        await localVideoStorageService.updateVideoMetadata(data.sessionId, {
+          transcription: {
+            text: transcriptionResult.text,
+            confidence: transcriptionResult.confidence,
+            duration: transcriptionResult.duration,
+            words: transcriptionResult.words,
+          },
+          // Kept so single answers can be cut from the recording later
+          segments: ((data.questionSegments || []) as QuestionSegment[])
+            .filter((segment) => segment.mediaEnd > segment.mediaStart)
+            .map((segment) => ({
+              questionId: segment.questionId,
+              questionText: segment.questionText,
+              start: segment.mediaStart,
+              end: segment.mediaEnd,
+            })),
+          aiFeedback: {
+            overallScore: aiFeedback.overallScore,
+            strengths: aiFeedback.strengths,
+            improvements: aiFeedback.improvements,
+            detailedFeedback: aiFeedback.detailedFeedback,
+          },
+        });
+
+        // Make room under the user's retention policy, keeping this session
+        try {
+          const { storageRetentionService } = await import(
+            "@/services/storageRetentionService"
+          );
+          await storageRetentionService.applyRetention(data.sessionId);
+        } catch (error) {
+          console.warn("Failed to apply storage retention policy:", error);
+        }
+
+        // Opted-in users get a cloud copy; it uploads while they read results
+        const { cloudBackupService } = await import(
+          "@/services/cloudBackupService"
+        );
+        if (cloudBackupService.isEnabled(user?.id)) {
+          cloudBackupService
+            .backupSession(data.sessionId)
+            .catch((error) =>
+              console.warn("Cloud backup failed, will retry later:", error)
+            );
+        }
+      }
 
       updateStep("generating-report", { status: "completed", progress: 100 });
       setCurrentStep(4);
@@ -540,6 +791,19 @@ const ProcessingInterview = () => {
           </div>
         </div>
       </div>
+
+      <RecordingPassphraseDialog
+        open={unlockOpen}
+        onOpenChange={handleUnlockOpenChange}
+        mode="unlock"
+        description="Your recordings are encrypted. Enter your passphrase so this interview's recording can be saved."
+        onSubmit={async (passphrase) => {
+          if (!(await recordingEncryptionService.unlock(passphrase))) {
+            return "That passphrase is not correct.";
+          }
+          return null;
+        }}
+      />
     </div>
   );
 };
@@ -37,12 +37,30 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { getLanguageConfig } from "@/config/languages";
+import {
+  summarizeSpeechMetrics,
+  type SpeechMetrics,
+} from "@/utils/speechMetrics";
+import type { CaptureMode } from "@/utils/screenComposition";
+import { WaveformPlayer } from "@/components/results/WaveformPlayer";
+import {
+  buildCaptionCues,
+  downloadCaptions,
+  toWebVTTDataUrl,
+  wordsFromTimedText,
+} from "@/utils/captions";
+import type { TranscribedWord } from "@/services/deepgramTranscriptionService";
 
 interface SessionData {
   id: string;
   title: string;
   duration: number;
   videoUrl: string;
+  captureMode?: CaptureMode; // screen recordings must not be cropped
+  waveform?: number[]; // audio-only recordings are shown as a waveform
+  words?: TranscribedWord[]; // word timings for captions, when transcribed
   transcript: TranscriptSegment[];
   analysis: SessionAnalysis;
   bookmarks: Bookmark[];
@@ -59,7 +77,6 @@ interface TranscriptSegment {
 
 interface SessionAnalysis {
   overallScore: number;
-  speakingPace: number;
   fillerWords: number;
   eyeContact: number;
   emotionTimeline: EmotionData[];
@@ -102,6 +119,10 @@ const SessionReview = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [activeTab, setActiveTab] = useState("transcript");
   const [isLoading, setIsLoading] = useState(true);
+  const [speechSummary, setSpeechSummary] = useState<ReturnType<
+    typeof summarizeSpeechMetrics
+  > | null>(null);
+  const [sessionLanguage, setSessionLanguage] = useState<string | null>(null);
 
   // Mock data - in real app, this would come from your backend
   useEffect(() => {
@@ -144,7 +165,6 @@ const SessionReview = () => {
       ],
       analysis: {
         overallScore: 82,
-        speakingPace: 145,
         fillerWords: 12,
         eyeContact: 88,
         emotionTimeline: [
@@ -188,6 +208,59 @@ const SessionReview = () => {
     }, 1000);
   }, [sessionId]);
 
+  // Speaking pace and pauses come from each answer's word-timestamp metrics
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+
+    const loadSpeechMetrics = async () => {
+      const { data, error } = await supabase
+        .from("interview_analysis")
+        .select("speech_metrics")
+        .eq("session_id", sessionId);
+      if (error) {
+        console.warn("Failed to load speech metrics:", error);
+        return;
+      }
+      const metrics = (data || [])
+        .map((row) => row.speech_metrics as unknown as SpeechMetrics | null)
+        .filter((m): m is SpeechMetrics => !!m?.wordCount);
+      if (!cancelled && metrics.length > 0) {
+        setSpeechSummary(summarizeSpeechMetrics(metrics));
+      }
+    };
+
+    loadSpeechMetrics();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Captions are labelled with the language the interview was held in
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+
+    const loadLanguage = async () => {
+      const { data, error } = await supabase
+        .from("interview_sessions")
+        .select("interview_config")
+        .eq("id", sessionId)
+        .maybeSingle();
+      if (error) {
+        console.warn("Failed to load session language:", error);
+        return;
+      }
+      const config = data?.interview_config as { language?: string } | null;
+      if (!cancelled) setSessionLanguage(config?.language ?? null);
+    };
+
+    loadLanguage();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
   const handlePlayPause = () => {
     if (videoRef.current) {
       if (isPlaying) {
@@ -327,6 +400,20 @@ const SessionReview = () => {
 
   if (!sessionData) return null;
 
+  const transcriptTimeline = sessionData.transcript.map((segment, i) => ({
+    start: segment.timestamp,
+    end: sessionData.transcript[i + 1]?.timestamp ?? duration,
+    label: segment.speaker === "ai" ? "Interviewer" : "You",
+    text: segment.text,
+  }));
+  const captionCues = buildCaptionCues(
+    sessionData.words?.length
+      ? sessionData.words
+      : wordsFromTimedText(transcriptTimeline),
+    { boundaries: sessionData.transcript.map((segment) => segment.timestamp) }
+  );
+  const captionLanguage = getLanguageConfig(sessionLanguage);
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-6 py-8">
@@ -374,9 +461,26 @@ const SessionReview = () => {
             {/* Video Container */}
             <Card className="p-6">
               <div className="relative bg-black rounded-lg overflow-hidden aspect-video mb-4">
+                {sessionData.captureMode === "audio" && (
+                  <WaveformPlayer
+                    peaks={sessionData.waveform || []}
+                    currentTime={currentTime}
+                    duration={duration}
+                    isPlaying={isPlaying}
+                    onTogglePlay={handlePlayPause}
+                    onSeek={(time) => handleSeek([time])}
+                    transcript={transcriptTimeline}
+                  />
+                )}
                 <video
                   ref={videoRef}
-                  className="w-full h-full object-cover"
+                  className={`w-full h-full ${
+                    sessionData.captureMode === "audio"
+                      ? "hidden"
+                      : sessionData.captureMode === "screen"
+                      ? "object-contain"
+                      : "object-cover"
+                  }`}
                   onTimeUpdate={(e) =>
                     setCurrentTime(e.currentTarget.currentTime)
                   }
@@ -387,22 +491,33 @@ const SessionReview = () => {
                   onPause={() => setIsPlaying(false)}
                 >
                   <source src={sessionData.videoUrl} type="video/mp4" />
+                  {captionCues.length > 0 && (
+                    <track
+                      kind="captions"
+                      src={toWebVTTDataUrl(captionCues)}
+                      srcLang={captionLanguage.code}
+                      label={captionLanguage.nativeName}
+                      default
+                    />
+                  )}
                   Your browser does not support the video tag.
                 </video>
 
-                {/* Video Overlay */}
-                <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent opacity-0 hover:opacity-100 transition-opacity">
-                  <div className="absolute bottom-4 left-4 right-4">
-                    <Progress
-                      value={(currentTime / duration) * 100}
-                      className="h-1 mb-2"
-                    />
-                    <div className="flex items-center justify-between text-white text-sm">
-                      <span>{formatTime(currentTime)}</span>
-                      <span>{formatTime(duration)}</span>
+                {/* Video Overlay (the waveform has its own clock) */}
+                {sessionData.captureMode !== "audio" && (
+                  <div className="absolute inset-0 bg-gradient-to-t from-black/50 to-transparent opacity-0 hover:opacity-100 transition-opacity">
+                    <div className="absolute bottom-4 left-4 right-4">
+                      <Progress
+                        value={(currentTime / duration) * 100}
+                        className="h-1 mb-2"
+                      />
+                      <div className="flex items-center justify-between text-white text-sm">
+                        <span>{formatTime(currentTime)}</span>
+                        <span>{formatTime(duration)}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
               </div>
 
               {/* Video Controls */}
@@ -599,7 +714,17 @@ const SessionReview = () => {
                     Speaking Pace
                   </span>
                   <span className="font-bold">
-                    {sessionData.analysis.speakingPace} wpm
+                    {speechSummary
+                      ? `${speechSummary.wordsPerMinute} wpm`
+                      : "—"}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    Long Pauses
+                  </span>
+                  <span className="font-bold">
+                    {speechSummary ? speechSummary.longPauseCount : "—"}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
@@ -771,6 +896,32 @@ const SessionReview = () => {
                 className="w-full"
               />
             </div>
+
+            {captionCues.length > 0 && (
+              <div className="space-y-3">
+                <label className="text-sm font-medium">Captions</label>
+                <div className="flex gap-2">
+                  {(["vtt", "srt"] as const).map((format) => (
+                    <Button
+                      key={format}
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() =>
+                        downloadCaptions(
+                          captionCues,
+                          format,
+                          `session-${sessionData.id}`
+                        )
+                      }
+                    >
+                      <Download className="w-4 h-4" />
+                      {format === "vtt" ? "WebVTT (.vtt)" : "SubRip (.srt)"}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
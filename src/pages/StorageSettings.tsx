@@ -0,0 +1,968 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { motion } from "framer-motion";
+import { Link, useNavigate } from "react-router-dom";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Cloud,
+  CloudDownload,
+  CloudUpload,
+  FileArchive,
+  HardDrive,
+  LayoutDashboard,
+  Lock,
+  Mic,
+  Monitor,
+  ShieldCheck,
+  Trash2,
+  Video,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  storageRetentionService,
+  type RetentionPolicy,
+  type SessionFootprint,
+  type StorageEstimate,
+  type StorageWarning,
+} from "@/services/storageRetentionService";
+import {
+  transcriptionCacheService,
+  type TranscriptionCacheStats,
+} from "@/services/transcriptionCacheService";
+import { cloudBackupService } from "@/services/cloudBackupService";
+import { sessionBundleService } from "@/services/sessionBundleService";
+import {
+  recordingEncryptionService,
+  type EncryptionInfo,
+  type ReencryptResult,
+} from "@/services/recordingEncryptionService";
+import RecordingPassphraseDialog, {
+  type PassphraseDialogMode,
+} from "@/components/RecordingPassphraseDialog";
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const POLICY_FIELDS: {
+  key: keyof RetentionPolicy;
+  label: string;
+  description: string;
+  unit: string;
+  step: number;
+  fallback: number;
+}[] = [
+  {
+    key: "maxSessions",
+    label: "Keep the most recent sessions",
+    description: "Older recordings are deleted once you have more than this.",
+    unit: "sessions",
+    step: 1,
+    fallback: 10,
+  },
+  {
+    key: "maxStorageGb",
+    label: "Limit recordings to",
+    description: "Recordings are deleted until the total fits.",
+    unit: "GB",
+    step: 0.5,
+    fallback: 2,
+  },
+  {
+    key: "maxAgeDays",
+    label: "Delete recordings after",
+    description: "Recordings older than this are always deleted.",
+    unit: "days",
+    step: 1,
+    fallback: 30,
+  },
+];
+
+const StorageSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [footprints, setFootprints] = useState<SessionFootprint[]>([]);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [warning, setWarning] = useState<StorageWarning | null>(null);
+  const [cacheStats, setCacheStats] = useState<TranscriptionCacheStats | null>(
+    null
+  );
+  const [policy, setPolicy] = useState<RetentionPolicy>(() =>
+    storageRetentionService.getPolicy()
+  );
+  const [loading, setLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [backupEnabled, setBackupEnabled] = useState(() =>
+    cloudBackupService.isEnabled(user?.id)
+  );
+  const [backedUp, setBackedUp] = useState<string[]>([]);
+  // Session currently uploading or downloading, with upload progress (0..100)
+  const [transfer, setTransfer] = useState<{
+    sessionId: string;
+    progress: number | null;
+  } | null>(null);
+  const [encryptionEnabled, setEncryptionEnabled] = useState(() =>
+    recordingEncryptionService.isEnabled()
+  );
+  const [encryptionUnlocked, setEncryptionUnlocked] = useState(() =>
+    recordingEncryptionService.isUnlocked()
+  );
+  const [passphraseMode, setPassphraseMode] =
+    useState<PassphraseDialogMode | null>(null);
+  // A cloud backup encrypted under a passphrase this tab has not unlocked
+  const [lockedRestore, setLockedRestore] = useState<{
+    sessionId: string;
+    encryption: EncryptionInfo;
+  } | null>(null);
+
+  useEffect(() => {
+    loadStorage();
+  }, []);
+
+  useEffect(() => {
+    setBackupEnabled(cloudBackupService.isEnabled(user?.id));
+  }, [user?.id]);
+
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const loadStorage = async () => {
+    try {
+      const [
+        sessionFootprints,
+        storageEstimate,
+        storageWarning,
+        cache,
+        backups,
+      ] = await Promise.all([
+        storageRetentionService.getSessionFootprints(),
+        storageRetentionService.getStorageEstimate(),
+        storageRetentionService.getStorageWarning(),
+        transcriptionCacheService.getStats().catch(() => null),
+        cloudBackupService.listBackups().catch((error) => {
+          console.warn("Failed to list cloud backups:", error);
+          return [] as string[];
+        }),
+      ]);
+      setFootprints(sessionFootprints);
+      setEstimate(storageEstimate);
+      setWarning(storageWarning);
+      setCacheStats(cache);
+      setBackedUp(backups);
+    } catch (error) {
+      console.error("Error loading storage usage:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // What saving the policy would delete right now
+  const pendingEviction = useMemo(
+    () => storageRetentionService.planEviction(footprints, policy),
+    [footprints, policy]
+  );
+  const pendingBytes = pendingEviction.reduce(
+    (sum, footprint) => sum + footprint.totalSize,
+    0
+  );
+  const recordingsSize = footprints.reduce(
+    (sum, footprint) => sum + footprint.totalSize,
+    0
+  );
+  const cloudOnly = backedUp.filter(
+    (sessionId) =>
+      !footprints.some((footprint) => footprint.sessionId === sessionId)
+  );
+
+  const updatePolicyField = (
+    key: keyof RetentionPolicy,
+    value: number | null
+  ) => {
+    setPolicy((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleApplyPolicy = async () => {
+    setIsApplying(true);
+    try {
+      storageRetentionService.setPolicy(policy);
+      const { evicted, freedBytes } =
+        await storageRetentionService.applyRetention(undefined, policy);
+      toast({
+        title: "Retention policy saved",
+        description:
+          evicted.length > 0
+            ? `Deleted ${evicted.length} recording${
+                evicted.length === 1 ? "" : "s"
+              }, freeing ${formatBytes(freedBytes)}.`
+            : "No recordings needed to be deleted.",
+      });
+      await loadStorage();
+    } catch (error) {
+      console.error("Error applying retention policy:", error);
+      toast({
+        title: "Error",
+        description: "Failed to apply the retention policy.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleDeleteSession = async (footprint: SessionFootprint) => {
+    try {
+      await storageRetentionService.deleteSession(footprint.sessionId);
+      toast({
+        title: "Recording deleted",
+        description: `Freed ${formatBytes(footprint.totalSize)}.`,
+      });
+      await loadStorage();
+    } catch (error) {
+      console.error("Error deleting recording:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the recording.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleBackup = (enabled: boolean) => {
+    if (!user) return;
+    cloudBackupService.setEnabled(user.id, enabled);
+    setBackupEnabled(enabled);
+  };
+
+  const handleBackupSession = async (sessionId: string) => {
+    setTransfer({ sessionId, progress: 0 });
+    try {
+      await cloudBackupService.backupSession(sessionId, {
+        onProgress: ({ uploadedBytes, totalBytes }) =>
+          setTransfer({
+            sessionId,
+            progress: totalBytes > 0 ? (uploadedBytes / totalBytes) * 100 : 0,
+          }),
+      });
+      setBackedUp((prev) => [...prev, sessionId]);
+      toast({
+        title: "Recording backed up",
+        description: "You can now open this session on your other devices.",
+      });
+    } catch (error) {
+      console.error("Error backing up recording:", error);
+      toast({
+        title: "Backup interrupted",
+        description: "Try again to continue where the upload stopped.",
+        variant: "destructive",
+      });
+    } finally {
+      setTransfer(null);
+    }
+  };
+
+  const handleRestoreSession = async (sessionId: string) => {
+    setTransfer({ sessionId, progress: null });
+    try {
+      const manifest = await cloudBackupService.getManifest(sessionId);
+      if (
+        manifest?.encryption &&
+        !recordingEncryptionService.canDecrypt(manifest.encryption)
+      ) {
+        setLockedRestore({ sessionId, encryption: manifest.encryption });
+        setPassphraseMode("unlock");
+        return;
+      }
+
+      await cloudBackupService.restoreSession(sessionId);
+      toast({
+        title: "Recording downloaded",
+        description: "The session is now available on this device.",
+      });
+      await loadStorage();
+    } catch (error) {
+      console.error("Error restoring recording:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to download the recording.",
+        variant: "destructive",
+      });
+    } finally {
+      setTransfer(null);
+    }
+  };
+
+  const handleImportBundle = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const imported = await sessionBundleService.importSession(file);
+      toast({
+        title: "Session imported",
+        description: `${imported.responses} answer${
+          imported.responses === 1 ? "" : "s"
+        } restored${imported.hasRecording ? " with the recording" : ""}.`,
+      });
+      navigate(`/results/${imported.sessionId}`);
+    } catch (error) {
+      console.error("Error importing session:", error);
+      toast({
+        title: "Import failed",
+        description:
+          error instanceof Error ? error.message : "Failed to import session.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) importInputRef.current.value = "";
+    }
+  };
+
+  const refreshEncryption = () => {
+    setEncryptionEnabled(recordingEncryptionService.isEnabled());
+    setEncryptionUnlocked(recordingEncryptionService.isUnlocked());
+  };
+
+  const handlePassphraseSubmit = async (
+    passphrase: string,
+    newPassphrase?: string
+  ): Promise<string | null> => {
+    try {
+      if (lockedRestore) {
+        await recordingEncryptionService.unlockBackup(
+          passphrase,
+          lockedRestore.encryption
+        );
+        const { sessionId } = lockedRestore;
+        setLockedRestore(null);
+        await handleRestoreSession(sessionId);
+        return null;
+      }
+
+      let result: ReencryptResult | null = null;
+      if (passphraseMode === "unlock") {
+        if (!(await recordingEncryptionService.unlock(passphrase))) {
+          return "That passphrase is not correct.";
+        }
+      } else if (passphraseMode === "enable") {
+        result = await recordingEncryptionService.enable(passphrase);
+      } else if (passphraseMode === "change" && newPassphrase) {
+        result = await recordingEncryptionService.changePassphrase(
+          passphrase,
+          newPassphrase
+        );
+      } else if (passphraseMode === "disable") {
+        result = await recordingEncryptionService.disable(passphrase);
+      }
+
+      refreshEncryption();
+      if (result) {
+        toast({
+          title: "Recordings updated",
+          description:
+            result.failed > 0
+              ? `${result.updated} recordings updated; ${result.failed} could not be opened and were left as they were.`
+              : `${result.updated} recordings updated.`,
+          variant: result.failed > 0 ? "destructive" : undefined,
+        });
+      }
+      return null;
+    } catch (error) {
+      console.error("Error updating recording encryption:", error);
+      return error instanceof Error
+        ? error.message
+        : "Something went wrong. Please try again.";
+    }
+  };
+
+  const handleLock = () => {
+    recordingEncryptionService.lock();
+    refreshEncryption();
+  };
+
+  const handleForgotPassphrase = async () => {
+    try {
+      const deleted =
+        await recordingEncryptionService.resetForgottenPassphrase();
+      refreshEncryption();
+      toast({
+        title: "Encryption reset",
+        description: `${deleted} encrypted recording${
+          deleted === 1 ? " was" : "s were"
+        } deleted. Your transcripts and feedback are kept.`,
+      });
+      await loadStorage();
+    } catch (error) {
+      console.error("Error resetting recording encryption:", error);
+      toast({
+        title: "Error",
+        description: "Failed to reset encryption.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClearTranscriptionCache = async () => {
+    try {
+      await transcriptionCacheService.clear();
+      setCacheStats(await transcriptionCacheService.getStats());
+      toast({
+        title: "Transcription cache cleared",
+        description: "Reprocessed recordings will be transcribed again.",
+      });
+    } catch (error) {
+      console.error("Error clearing transcription cache:", error);
+      toast({
+        title: "Error",
+        description: "Failed to clear the transcription cache.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Helmet>
+        <title>Storage - Amplify Interview</title>
+        <meta
+          name="description"
+          content="Manage interview recordings stored on this device."
+        />
+      </Helmet>
+
+      {/* Header */}
+      <header className="border-b border-border/50 bg-card/30 backdrop-blur-xl sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <Link
+              to="/dashboard"
+              className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back to Dashboard</span>
+            </Link>
+            <h1 className="text-xl font-display font-bold text-foreground">
+              Storage
+            </h1>
+            <Link
+              to="/dashboard"
+              className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <LayoutDashboard className="w-5 h-5" />
+              <span>Dashboard</span>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 space-y-6 sm:space-y-8">
+        {/* Usage */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass-card p-6 space-y-4"
+        >
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/10 border border-primary/20 flex items-center justify-center">
+              <HardDrive className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="font-display text-lg font-semibold text-foreground">
+                Device storage
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {backupEnabled
+                  ? "Recordings are kept in this browser and backed up to your account."
+                  : "Recordings stay in this browser and are not uploaded."}
+              </p>
+            </div>
+          </div>
+
+          {estimate ? (
+            <div className="space-y-2">
+              <Progress value={estimate.ratio * 100} />
+              <p className="text-sm text-muted-foreground">
+                {formatBytes(estimate.usage)} of {formatBytes(estimate.quota)}{" "}
+                available to this site in use. Recordings account for{" "}
+                {formatBytes(recordingsSize)}.
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Recordings use {formatBytes(recordingsSize)}. This browser does
+              not report its storage quota.
+            </p>
+          )}
+
+          {warning && (
+            <div
+              className={`flex items-start gap-2 rounded-lg p-3 text-sm ${
+                warning.level === "critical"
+                  ? "bg-destructive/10 text-destructive"
+                  : "bg-warning/10 text-warning"
+              }`}
+            >
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{warning.message}</span>
+            </div>
+          )}
+
+          {cacheStats && cacheStats.entries > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {`${cacheStats.entries} cached transcript${
+                cacheStats.entries === 1 ? "" : "s"
+              } (${formatBytes(cacheStats.totalSize)}).`}{" "}
+              <button
+                className="text-primary hover:underline"
+                onClick={handleClearTranscriptionCache}
+              >
+                Clear
+              </button>
+            </p>
+          )}
+        </motion.div>
+
+        {/* Cloud backup */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.05 }}
+          className="glass-card p-6 space-y-4"
+        >
+          <div className="flex items-start gap-3">
+            <Switch
+              id="cloud-backup"
+              checked={backupEnabled}
+              onCheckedChange={handleToggleBackup}
+              disabled={!user}
+            />
+            <div>
+              <Label htmlFor="cloud-backup" className="flex items-center gap-2">
+                <Cloud className="w-4 h-4" />
+                Back up recordings to the cloud
+              </Label>
+              <p className="text-xs text-muted-foreground mt-1">
+                New interviews are uploaded to private storage only you can
+                access, so they survive cleared browser data and open on your
+                other devices. Interrupted uploads resume automatically.
+              </p>
+            </div>
+          </div>
+
+          {cloudOnly.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">
+                Only in the cloud
+              </p>
+              {cloudOnly.map((sessionId) => (
+                <div
+                  key={sessionId}
+                  className="flex items-center justify-between gap-3 text-sm"
+                >
+                  <Link
+                    to={`/results/${sessionId}`}
+                    className="text-muted-foreground hover:text-primary truncate"
+                  >
+                    Session {sessionId.slice(0, 8)}
+                  </Link>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => handleRestoreSession(sessionId)}
+                    disabled={transfer !== null}
+                  >
+                    <CloudDownload className="w-4 h-4" />
+                    {transfer?.sessionId === sessionId
+                      ? "Downloading..."
+                      : "Download"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </motion.div>
+
+        {/* Encryption */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.08 }}
+          className="glass-card p-6 space-y-4"
+        >
+          <div className="flex items-start gap-3">
+            <ShieldCheck className="w-5 h-5 text-primary mt-0.5 shrink-0" />
+            <div>
+              <h2 className="font-display text-lg font-semibold text-foreground">
+                Encryption
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {!encryptionEnabled
+                  ? "Encrypt recordings with a passphrase so they cannot be played without it, on this device or from your cloud backup."
+                  : encryptionUnlocked
+                  ? "Recordings are encrypted and unlocked in this tab."
+                  : "Recordings are encrypted. Unlock them to play, save or back up recordings."}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {!encryptionEnabled ? (
+              <Button
+                onClick={() => setPassphraseMode("enable")}
+                disabled={!recordingEncryptionService.isSupported()}
+              >
+                Encrypt Recordings
+              </Button>
+            ) : encryptionUnlocked ? (
+              <>
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  onClick={handleLock}
+                >
+                  <Lock className="w-4 h-4" />
+                  Lock
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setPassphraseMode("change")}
+                >
+                  Change Passphrase
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => setPassphraseMode("disable")}
+                >
+                  Turn Off Encryption
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button onClick={() => setPassphraseMode("unlock")}>
+                  Unlock
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" className="text-destructive">
+                      Forgot passphrase
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>
+                        Forgot your passphrase?
+                      </AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Your passphrase is never stored, so nobody can recover
+                        it or the recordings encrypted with it. You can delete
+                        the encrypted recordings on this device and start
+                        again without encryption. Transcripts and feedback are
+                        kept, and encrypted cloud backups stay unreadable.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={handleForgotPassphrase}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete Encrypted Recordings
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
+          </div>
+        </motion.div>
+
+        {/* Retention policy */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass-card p-6 space-y-5"
+        >
+          <div>
+            <h2 className="font-display text-lg font-semibold text-foreground">
+              Retention policy
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Applied after every interview. Recordings that already have
+              feedback are deleted before ones still waiting for analysis.
+            </p>
+          </div>
+
+          {POLICY_FIELDS.map((field) => {
+            const value = policy[field.key];
+            const enabled = value !== null;
+            return (
+              <div
+                key={field.key}
+                className="flex flex-col sm:flex-row sm:items-center gap-3"
+              >
+                <div className="flex items-center gap-3 flex-1">
+                  <Switch
+                    id={`policy-${field.key}`}
+                    checked={enabled}
+                    onCheckedChange={(checked) =>
+                      updatePolicyField(
+                        field.key,
+                        checked ? field.fallback : null
+                      )
+                    }
+                  />
+                  <div>
+                    <Label htmlFor={`policy-${field.key}`}>{field.label}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {field.description}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={field.step}
+                    step={field.step}
+                    className="w-24"
+                    disabled={!enabled}
+                    value={value ?? field.fallback}
+                    onChange={(event) => {
+                      const next = Number(event.target.value);
+                      if (next > 0) updatePolicyField(field.key, next);
+                    }}
+                  />
+                  <span className="text-sm text-muted-foreground w-16">
+                    {field.unit}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-2">
+            <p className="text-sm text-muted-foreground">
+              {pendingEviction.length > 0
+                ? `Saving will delete ${pendingEviction.length} recording${
+                    pendingEviction.length === 1 ? "" : "s"
+                  } (${formatBytes(pendingBytes)}).`
+                : "Saving will not delete any recordings now."}
+            </p>
+            <Button onClick={handleApplyPolicy} disabled={isApplying}>
+              {isApplying ? "Applying..." : "Save & Apply"}
+            </Button>
+          </div>
+        </motion.div>
+
+        {/* Sessions */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="glass-card p-6"
+        >
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+              <h2 className="font-display text-lg font-semibold text-foreground">
+                Stored recordings
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                {footprints.length} session
+                {footprints.length === 1 ? "" : "s"} on this device, newest
+                first
+              </p>
+            </div>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleImportBundle(file);
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 shrink-0"
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              <FileArchive className="w-4 h-4" />
+              {isImporting ? "Importing..." : "Import Session"}
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : footprints.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No recordings are stored on this device.
+            </p>
+          ) : (
+            <div className="divide-y divide-border/50">
+              {footprints.map((footprint) => {
+                const ModeIcon =
+                  footprint.captureMode === "audio"
+                    ? Mic
+                    : footprint.captureMode === "screen"
+                    ? Monitor
+                    : Video;
+                const share =
+                  recordingsSize > 0
+                    ? (footprint.totalSize / recordingsSize) * 100
+                    : 0;
+                return (
+                  <div
+                    key={footprint.sessionId}
+                    className="flex flex-col sm:flex-row sm:items-center gap-3 py-4"
+                  >
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <ModeIcon className="w-5 h-5 text-muted-foreground shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <Link
+                            to={`/results/${footprint.sessionId}`}
+                            className="font-medium text-foreground hover:text-primary truncate"
+                          >
+                            {new Date(footprint.timestamp).toLocaleString()}
+                          </Link>
+                          {footprint.hasAnalysis ? (
+                            <Badge variant="secondary">Analysed</Badge>
+                          ) : (
+                            <Badge variant="outline">Not analysed</Badge>
+                          )}
+                          {backedUp.includes(footprint.sessionId) && (
+                            <Badge variant="outline" className="gap-1">
+                              <Cloud className="w-3 h-3" />
+                              Backed up
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {footprint.duration > 0 &&
+                            `${Math.round(footprint.duration / 60)} min • `}
+                          Recording {formatBytes(footprint.videoSize)}
+                          {footprint.clipCount > 0 &&
+                            ` • ${footprint.clipCount} answer clip${
+                              footprint.clipCount === 1 ? "" : "s"
+                            } ${formatBytes(footprint.clipSize)}`}
+                        </p>
+                        <Progress
+                          value={
+                            transfer?.sessionId === footprint.sessionId
+                              ? transfer.progress ?? 0
+                              : share
+                          }
+                          className="h-1 mt-2"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 sm:w-48 justify-end">
+                      <span className="text-sm font-medium tabular-nums">
+                        {formatBytes(footprint.totalSize)}
+                      </span>
+                      {backupEnabled &&
+                        !backedUp.includes(footprint.sessionId) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Back up recording"
+                            onClick={() =>
+                              handleBackupSession(footprint.sessionId)
+                            }
+                            disabled={transfer !== null}
+                          >
+                            <CloudUpload className="w-4 h-4" />
+                          </Button>
+                        )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive"
+                            aria-label="Delete recording"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete Recording</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The video and answer clips for this session will
+                              be removed from this device. Your transcript,
+                              feedback and any cloud backup are kept.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDeleteSession(footprint)}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </motion.div>
+      </main>
+
+      <RecordingPassphraseDialog
+        open={passphraseMode !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPassphraseMode(null);
+            setLockedRestore(null);
+          }
+        }}
+        mode={passphraseMode ?? "unlock"}
+        description={
+          lockedRestore
+            ? "This backup was encrypted on another device. Enter the passphrase it was encrypted with."
+            : undefined
+        }
+        onSubmit={handlePassphraseSubmit}
+      />
+    </div>
+  );
+};
+
+export default StorageSettings;
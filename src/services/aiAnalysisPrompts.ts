@@ -8,6 +8,12 @@
  * analysis and scoring.
  */
 
+import {
+  DEFAULT_LANGUAGE,
+  getFeedbackLanguageInstruction,
+  getLanguageConfig,
+} from "../config/languages";
+
 export interface AnalysisPrompt {
   systemPrompt: string;
   userPromptTemplate: string;
@@ -716,23 +722,25 @@ Provide a comprehensive analysis in JSON format.`,
  */
 export function buildSystemPrompt(
   interviewType: string,
-  customDomain?: string
+  customDomain?: string,
+  language?: string
 ): string {
+  const languageInstruction = getFeedbackLanguageInstruction(language);
   if (interviewType === "behavioral") {
-    return BEHAVIORAL_ANALYSIS_PROMPT.systemPrompt;
+    return BEHAVIORAL_ANALYSIS_PROMPT.systemPrompt + languageInstruction;
   }
   if (interviewType === "leadership") {
-    return LEADERSHIP_ANALYSIS_PROMPT.systemPrompt;
+    return LEADERSHIP_ANALYSIS_PROMPT.systemPrompt + languageInstruction;
   }
   if (interviewType === "technical") {
-    return TECHNICAL_ANALYSIS_PROMPT.systemPrompt;
+    return TECHNICAL_ANALYSIS_PROMPT.systemPrompt + languageInstruction;
   }
   if (interviewType === "custom" && customDomain) {
     const domainPrompt = CUSTOM_DOMAIN_PROMPTS[customDomain];
     if (!domainPrompt) {
       throw new Error(`Unknown custom domain: ${customDomain}`);
     }
-    return domainPrompt.systemPrompt;
+    return domainPrompt.systemPrompt + languageInstruction;
   }
   throw new Error(`Invalid interview type: ${interviewType} or missing domain`);
 }
@@ -960,39 +968,22 @@ export function calculateOverallScore(
 /**
  * Helper function to extract filler words from response text
  */
-export function extractFillerWords(text: string): FillerWords {
-  const fillerPatterns = [
-    /\bum\b/gi,
-    /\buh\b/gi,
-    /\blike\b/gi,
-    /\byou know\b/gi,
-    /\bso\b/gi,
-    /\bactually\b/gi,
-    /\bbasically\b/gi,
-    /\bkind of\b/gi,
-    /\bsort of\b/gi,
-    /\bwell\b/gi,
-    /\bjust\b/gi,
-  ];
-
-  const words = [
-    "um",
-    "uh",
-    "like",
-    "you know",
-    "so",
-    "actually",
-    "basically",
-    "kind of",
-    "sort of",
-    "well",
-    "just",
-  ];
+export function extractFillerWords(
+  text: string,
+  language: string = DEFAULT_LANGUAGE
+): FillerWords {
+  const words = getLanguageConfig(language).fillerWords;
   const counts: Record<string, number> = {};
   let total = 0;
 
-  words.forEach((word, index) => {
-    const matches = text.match(fillerPatterns[index]);
+  words.forEach((word) => {
+    const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    // \b only understands ASCII, so match on Unicode letter boundaries instead
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{M}])${escaped}(?![\\p{L}\\p{M}])`,
+      "giu"
+    );
+    const matches = text.match(pattern);
     const count = matches ? matches.length : 0;
     counts[word] = count;
     total += count;
@@ -1005,6 +996,19 @@ export function extractFillerWords(text: string): FillerWords {
   };
 }
 
+/**
+ * Expand filler word counts into the list of occurrences found in the text
+ */
+export function findFillerWords(
+  text: string,
+  language: string = DEFAULT_LANGUAGE
+): string[] {
+  const { counts } = extractFillerWords(text, language);
+  return Object.entries(counts).flatMap(([word, count]) =>
+    new Array<string>(count).fill(word)
+  );
+}
+
 /**
  * Helper function to assess speaking pace based on response characteristics
  */
@@ -1069,9 +1073,10 @@ export function calculateConfidenceScore(
 export function generateFallbackAnalysis(
   responseText: string,
   duration: number,
-  interviewType?: string
+  interviewType?: string,
+  language?: string
 ): Partial<StandardAnalysisResult> {
-  const fillerWords = extractFillerWords(responseText);
+  const fillerWords = extractFillerWords(responseText, language);
   const speakingPace = assessSpeakingPace(responseText, duration);
   const responseLength = assessResponseLength(duration);
   const confidenceScore = calculateConfidenceScore(
@@ -26,6 +26,11 @@ import {
   questionClassificationService,
   ClassifiedQuestion,
 } from "./questionClassificationService";
+import type { SpeechMetrics } from "../utils/speechMetrics";
+import {
+  getFeedbackLanguageInstruction,
+  getLanguageConfig,
+} from "../config/languages";
 
 class AIAnalysisService {
   /**
@@ -211,10 +216,23 @@ class AIAnalysisService {
       includeExample?: boolean;
       customPrompt?: string;
       classifiedQuestion?: ClassifiedQuestion;
+      speechMetrics?: SpeechMetrics;
+      language?: string;
+      fallbackOnly?: boolean; // skip the AI call, e.g. when over budget
     }
   ): Promise<InterviewAnalysis> {
     const startTime = Date.now();
 
+    if (options?.fallbackOnly) {
+      return this.saveFallbackAnalysis(
+        responseText,
+        questionData,
+        sessionData,
+        options,
+        "spend budget reached"
+      );
+    }
+
     try {
       // Use classified question information if available
       const enhancedQuestionData = options?.classifiedQuestion
@@ -227,12 +245,13 @@ class AIAnalysisService {
         : questionData;
 
       // Get AI analysis from OpenRouter with enhanced question data
-      const { analysis, cost, usage } = await openRouterService.analyzeResponse(
-        responseText,
-        enhancedQuestionData,
-        sessionData,
-        options
-      );
+      const { analysis, cost, usage, model } =
+        await openRouterService.analyzeResponse(
+          responseText,
+          enhancedQuestionData,
+          sessionData,
+          options
+        );
 
       const processingTime = Date.now() - startTime;
 
@@ -245,13 +264,13 @@ class AIAnalysisService {
         sessionData.user_id,
         questionData.interview_type,
         questionData.custom_domain,
-        options?.model ||
-          openRouterService.selectModel(questionData.interview_type),
+        model,
         usage,
         cost
       );
 
       // Processing time not stored in database schema
+      analysisData.speech_metrics = options?.speechMetrics ?? null;
 
       // Save to database
       const savedAnalysis = await this.createAnalysis(analysisData);
@@ -264,84 +283,113 @@ class AIAnalysisService {
       );
 
       // Generate fallback analysis instead of throwing error
-      const { generateFallbackAnalysis } = await import("./aiAnalysisPrompts");
-
-      const fallbackAnalysis = generateFallbackAnalysis(
+      return this.saveFallbackAnalysis(
         responseText,
-        (sessionData as any).duration || 60, // Default duration if not provided
-        questionData.interview_type
+        questionData,
+        sessionData,
+        options,
+        "AI analysis failed"
       );
+    }
+  }
 
-      // Normalize fallback analysis scores to ensure consistency
-      if (fallbackAnalysis.communication_scores) {
-        fallbackAnalysis.communication_scores.clarity = Math.min(
-          100,
-          Math.max(10, fallbackAnalysis.communication_scores.clarity)
-        );
-        fallbackAnalysis.communication_scores.structure = Math.min(
-          100,
-          Math.max(10, fallbackAnalysis.communication_scores.structure)
-        );
-        fallbackAnalysis.communication_scores.conciseness = Math.min(
-          100,
-          Math.max(10, fallbackAnalysis.communication_scores.conciseness)
-        );
-      }
-      if (fallbackAnalysis.content_scores) {
-        fallbackAnalysis.content_scores.relevance = Math.min(
-          100,
-          Math.max(10, fallbackAnalysis.content_scores.relevance)
-        );
-        fallbackAnalysis.content_scores.depth = Math.min(
-          100,
-          Math.max(10, fallbackAnalysis.content_scores.depth)
-        );
-        fallbackAnalysis.content_scores.specificity = Math.min(
-          100,
-          Math.max(10, fallbackAnalysis.content_scores.specificity)
-        );
-      }
-
-      // Convert fallback to database format
-      const analysisData = {
-        interview_response_id: sessionData.response_id,
-        session_id: sessionData.session_id,
-        question_id: questionData.question_id,
-        user_id: sessionData.user_id,
-        interview_type: questionData.interview_type as any,
-        custom_domain: questionData.custom_domain || null,
-        model_used: "fallback",
-        overall_score: fallbackAnalysis.overall_score || 75,
-        communication_scores: fallbackAnalysis.communication_scores || null,
-        content_scores: fallbackAnalysis.content_scores || null,
-        strengths: fallbackAnalysis.strengths || [],
-        improvements: fallbackAnalysis.improvements || [],
-        actionable_feedback:
-          fallbackAnalysis.actionable_feedback || "Fallback analysis provided",
-        improved_example:
-          fallbackAnalysis.improved_example || "Example not available",
-        filler_words: fallbackAnalysis.filler_words || null,
-        speaking_pace: fallbackAnalysis.speaking_pace
-          ? this.convertSpeakingPaceToInt(fallbackAnalysis.speaking_pace)
-          : null,
-        confidence_score: fallbackAnalysis.confidence_score || 0,
-        // response_length_assessment not in database schema
-        tokens_used: 0,
-        input_tokens: 0,
-        output_tokens: 0,
-        cost_cents: 0,
-        // processing_time_ms not in database schema
-      };
+  /**
+   * Score a response with the rule-based fallback and save it
+   */
+  private async saveFallbackAnalysis(
+    responseText: string,
+    questionData: {
+      question_id: number;
+      interview_type: string;
+      custom_domain?: string;
+    },
+    sessionData: {
+      session_id: string;
+      user_id: string;
+      response_id: string;
+    },
+    options: { speechMetrics?: SpeechMetrics; language?: string } | undefined,
+    reason: string
+  ): Promise<InterviewAnalysis> {
+    const { generateFallbackAnalysis } = await import("./aiAnalysisPrompts");
 
-      // Save fallback analysis to database
-      const savedAnalysis = await this.createAnalysis(analysisData);
+    const fallbackAnalysis = generateFallbackAnalysis(
+      responseText,
+      (sessionData as any).duration || 60, // Default duration if not provided
+      questionData.interview_type,
+      options?.language
+    );
 
-      console.warn(
-        `FALLBACK analysis used for question ${questionData.question_id} - AI analysis failed. Score: ${fallbackAnalysis.overall_score}`
+    // Normalize fallback analysis scores to ensure consistency
+    if (fallbackAnalysis.communication_scores) {
+      fallbackAnalysis.communication_scores.clarity = Math.min(
+        100,
+        Math.max(10, fallbackAnalysis.communication_scores.clarity)
+      );
+      fallbackAnalysis.communication_scores.structure = Math.min(
+        100,
+        Math.max(10, fallbackAnalysis.communication_scores.structure)
+      );
+      fallbackAnalysis.communication_scores.conciseness = Math.min(
+        100,
+        Math.max(10, fallbackAnalysis.communication_scores.conciseness)
       );
-
-      return savedAnalysis;
     }
+    if (fallbackAnalysis.content_scores) {
+      fallbackAnalysis.content_scores.relevance = Math.min(
+        100,
+        Math.max(10, fallbackAnalysis.content_scores.relevance)
+      );
+      fallbackAnalysis.content_scores.depth = Math.min(
+        100,
+        Math.max(10, fallbackAnalysis.content_scores.depth)
+      );
+      fallbackAnalysis.content_scores.specificity = Math.min(
+        100,
+        Math.max(10, fallbackAnalysis.content_scores.specificity)
+      );
+    }
+
+    // Convert fallback to database format
+    const analysisData = {
+      interview_response_id: sessionData.response_id,
+      session_id: sessionData.session_id,
+      question_id: questionData.question_id,
+      user_id: sessionData.user_id,
+      interview_type: questionData.interview_type as any,
+      custom_domain: questionData.custom_domain || null,
+      model_used: "fallback",
+      overall_score: fallbackAnalysis.overall_score || 75,
+      communication_scores: fallbackAnalysis.communication_scores || null,
+      content_scores: fallbackAnalysis.content_scores || null,
+      strengths: fallbackAnalysis.strengths || [],
+      improvements: fallbackAnalysis.improvements || [],
+      actionable_feedback:
+        fallbackAnalysis.actionable_feedback || "Fallback analysis provided",
+      improved_example:
+        fallbackAnalysis.improved_example || "Example not available",
+      filler_words: fallbackAnalysis.filler_words || null,
+      speaking_pace: fallbackAnalysis.speaking_pace
+        ? this.convertSpeakingPaceToInt(fallbackAnalysis.speaking_pace)
+        : null,
+      confidence_score: fallbackAnalysis.confidence_score || 0,
+      speech_metrics: options?.speechMetrics ?? null,
+      // response_length_assessment not in database schema
+      tokens_used: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_cents: 0,
+      // processing_time_ms not in database schema
+    };
+
+    // Save fallback analysis to database
+    const savedAnalysis = await this.createAnalysis(analysisData);
+
+    console.warn(
+      `FALLBACK analysis used for question ${questionData.question_id} - ${reason}. Score: ${fallbackAnalysis.overall_score}`
+    );
+
+    return savedAnalysis;
   }
 
   /**
@@ -366,6 +414,9 @@ class AIAnalysisService {
     options?: {
       model?: string;
       concurrency?: number;
+      speechMetricsByResponse?: Record<string, SpeechMetrics>;
+      language?: string;
+      fallbackOnly?: boolean;
     }
   ): Promise<InterviewAnalysis[]> {
     const concurrency = options?.concurrency || 3;
@@ -388,6 +439,10 @@ class AIAnalysisService {
           {
             ...options,
             classifiedQuestion,
+            speechMetrics:
+              options?.speechMetricsByResponse?.[
+                response.sessionData.response_id
+              ],
           }
         ).catch((error) => {
           console.error(
@@ -601,6 +656,7 @@ class AIAnalysisService {
     options?: {
       model?: string;
       includePatternAnalysis?: boolean;
+      language?: string;
     }
   ): Promise<InterviewSummary> {
     try {
@@ -627,7 +683,7 @@ class AIAnalysisService {
       }
 
       // Fallback: Create summary client-side from analysis data
-      return await this.createClientSideSummary(sessionId);
+      return await this.createClientSideSummary(sessionId, options?.language);
     } catch (error) {
       console.error("Error processing session summary:", error);
       // Return fallback summary instead of throwing
@@ -639,7 +695,8 @@ class AIAnalysisService {
    * Create summary client-side from analysis data (fallback when DB function fails)
    */
   private async createClientSideSummary(
-    sessionId: string
+    sessionId: string,
+    language?: string
   ): Promise<InterviewSummary> {
     try {
       // Get all analyses for session
@@ -731,19 +788,25 @@ class AIAnalysisService {
       );
 
       // Generate role-specific feedback and next steps using model (with safe parse)
+      const feedbackLanguage =
+        language ??
+        (sessionData as { interview_config?: { language?: string } | null })
+          .interview_config?.language;
       const roleSpecificFeedback = await this.generateRoleSpecificFeedback(
         sessionId,
         sessionData.interview_type,
         (sessionData as any).interview_config?.domain || null,
         topStrengths,
-        topImprovements
+        topImprovements,
+        feedbackLanguage
       );
 
       const nextSteps = await this.generateNextSteps(
         sessionId,
         readinessLevel,
         topImprovements,
-        patternInsights
+        patternInsights,
+        feedbackLanguage
       );
 
       // Calculate costs and tokens
@@ -986,11 +1049,13 @@ class AIAnalysisService {
     try {
       const topStrengths = await this.identifyCommonThemes(
         strengths,
-        "strengths"
+        "strengths",
+        sessionId
       );
       const topImprovements = await this.identifyCommonThemes(
         improvements,
-        "improvements"
+        "improvements",
+        sessionId
       );
       return {
         topStrengths: topStrengths.slice(0, 5),
@@ -1007,25 +1072,29 @@ class AIAnalysisService {
 
   private async identifyCommonThemes(
     items: string[],
-    type: "strengths" | "improvements"
+    type: "strengths" | "improvements",
+    sessionId: string
   ): Promise<string[]> {
     if (!items || items.length === 0) return [];
     const list = items.map((item, i) => `${i + 1}. ${item}`).join("\n");
     const prompt = `Given these interview ${type} from multiple questions:\n\n${list}\n\nIdentify the top 5 overarching themes or patterns. Consolidate similar points. Return as JSON object: { "themes": string[] }`;
-    const response = await openRouterService.callOpenRouterWithRetry({
-      model: "openai/gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an expert at identifying patterns in interview feedback. Return only valid JSON.",
-        },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.5,
-      max_tokens: 500,
-      response_format: { type: "json_object" },
-    });
+    const response = await openRouterService.callOpenRouterWithRetry(
+      {
+        model: "openai/gpt-3.5-turbo",
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an expert at identifying patterns in interview feedback. Return only valid JSON.",
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.5,
+        max_tokens: 500,
+        response_format: { type: "json_object" },
+      },
+      { usage: { purpose: "summary_themes", sessionId } }
+    );
     const content = response.choices[0].message.content;
     const parsed: any = (openRouterService as any).instance?.[
       "parseJsonLenient"
@@ -1040,7 +1109,8 @@ class AIAnalysisService {
     interviewType: string,
     customDomain: string | null,
     overallStrengths: string[],
-    overallImprovements: string[]
+    overallImprovements: string[],
+    language?: string
   ): Promise<string> {
     const roleContext = customDomain || interviewType;
     const prompt = `Generate role-specific interview feedback for a ${roleContext} candidate.\n\nOVERALL STRENGTHS:\n${overallStrengths
@@ -1050,19 +1120,23 @@ class AIAnalysisService {
       .join(
         "\n"
       )}\n\nProvide a comprehensive 4-5 sentence paragraph that: 1) Acknowledges strengths in context of the role, 2) Explains how improvements relate to competencies, 3) Offers specific, actionable guidance, 4) Ends encouragingly.`;
-    const resp = await openRouterService.callOpenRouterWithRetry({
-      model: "openai/gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an expert career coach specializing in interview preparation. Provide constructive, role-specific feedback.",
-        },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 300,
-    });
+    const resp = await openRouterService.callOpenRouterWithRetry(
+      {
+        model: "openai/gpt-3.5-turbo",
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an expert career coach specializing in interview preparation. Provide constructive, role-specific feedback." +
+              getFeedbackLanguageInstruction(language),
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.7,
+        max_tokens: 300,
+      },
+      { usage: { purpose: "summary_feedback", sessionId } }
+    );
     return resp.choices[0].message.content.trim();
   }
 
@@ -1070,7 +1144,8 @@ class AIAnalysisService {
     sessionId: string,
     readinessLevel: string,
     overallImprovements: string[],
-    patterns: string[]
+    patterns: string[],
+    language?: string
   ): Promise<string[]> {
     const prompt = `Based on this interview assessment, provide specific next steps:\n\nREADINESS LEVEL: ${readinessLevel}\n\nMAIN AREAS TO IMPROVE:\n${overallImprovements
       .map((imp, i) => `${i + 1}. ${imp}`)
@@ -1079,20 +1154,24 @@ class AIAnalysisService {
       .join(
         "\n"
       )}\n\nGenerate 5-7 specific, actionable next steps ordered by priority. Return JSON object: { "steps": string[] }`;
-    const resp = await openRouterService.callOpenRouterWithRetry({
-      model: "openai/gpt-3.5-turbo",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an expert interview coach. Generate specific, actionable recommendations. Return only valid JSON.",
-        },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 500,
-      response_format: { type: "json_object" },
-    });
+    const resp = await openRouterService.callOpenRouterWithRetry(
+      {
+        model: "openai/gpt-3.5-turbo",
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are an expert interview coach. Generate specific, actionable recommendations. Return only valid JSON." +
+              getFeedbackLanguageInstruction(language),
+          },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.7,
+        max_tokens: 500,
+        response_format: { type: "json_object" },
+      },
+      { usage: { purpose: "summary_next_steps", sessionId } }
+    );
     const content = resp.choices[0].message.content;
     const parsed: any = (openRouterService as any).instance?.[
       "parseJsonLenient"
@@ -1284,6 +1363,9 @@ class AIAnalysisService {
     options?: {
       model?: string;
       concurrency?: number;
+      speechMetricsByResponse?: Record<string, SpeechMetrics>;
+      language?: string; // defaults to the language saved in the session config
+      fallbackOnly?: boolean; // score without AI, e.g. when over budget
     }
   ): Promise<{
     analyses: InterviewAnalysis[];
@@ -1365,15 +1447,29 @@ class AIAnalysisService {
         };
       });
 
+      // Write feedback in the language the interview was conducted in
+      const { interview_config: interviewConfig } = sessionData as {
+        interview_config?: { language?: string } | null;
+      };
+      const analysisOptions = {
+        ...options,
+        language: getLanguageConfig(
+          options?.language ?? interviewConfig?.language
+        ).code,
+      };
+
       // Process all responses
       const analyses = await this.batchProcessResponses(
         responses,
         classifiedQuestions,
-        options
+        analysisOptions
       );
 
       // Create session summary
-      const summary = await this.processSessionSummary(sessionId, options);
+      const summary = await this.processSessionSummary(
+        sessionId,
+        analysisOptions
+      );
 
       const processingTime = Date.now() - startTime;
       const totalCost = analyses.reduce(
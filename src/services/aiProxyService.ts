@@ -0,0 +1,119 @@
+/**
+ * AI Proxy Service
+ * Calls the serverless AI endpoints under /api with the signed-in user's
+ * Supabase access token. The endpoints hold the provider API keys and
+ * enforce per-user daily quotas, so no key has to ship in the client bundle.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { LLMProviderConfig } from "../config/llmProviders";
+import { getApiUrl } from "../utils/apiUrl";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  LLMProvider,
+  UsageContext,
+} from "./llmAdapters";
+
+export interface TranscriptionToken {
+  accessToken: string;
+  expiresIn: number; // seconds
+}
+
+export interface TranscriptionUsageReport {
+  provider: string;
+  model: string;
+  streamed: boolean;
+  audioSeconds: number;
+  sessionId?: string;
+}
+
+/**
+ * Whether an error means the user has used up today's proxy quota
+ */
+export const isProxyQuotaError = (error: unknown): boolean =>
+  error instanceof Error && error.message.includes("quota exceeded");
+
+class AIProxyService {
+  /**
+   * POST to a proxy endpoint as the current user
+   */
+  async post<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    const { data } = await supabase.auth.getSession();
+    const accessToken = data.session?.access_token;
+    if (!accessToken) {
+      throw new Error("AI proxy API error: 401 - Sign in to use AI features");
+    }
+
+    const response = await fetch(`${getApiUrl()}/api/${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      const message = payload?.error || response.statusText;
+      if (response.status === 429) {
+        throw new Error(`AI proxy quota exceeded: ${message}`);
+      }
+      throw new Error(`AI proxy API error: ${response.status} - ${message}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Run a chat completion through the proxy's provider, which records it in
+   * the usage ledger under `usage`
+   */
+  chat(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    usage?: UsageContext
+  ): Promise<ChatCompletionResponse> {
+    return this.post<ChatCompletionResponse>(
+      "ai/chat",
+      { request, usage },
+      signal
+    );
+  }
+
+  /**
+   * Get a short-lived Deepgram token for one transcription
+   */
+  getTranscriptionToken(): Promise<TranscriptionToken> {
+    return this.post<TranscriptionToken>("transcription/token", {});
+  }
+
+  /**
+   * Record a finished transcription in the server's usage ledger
+   */
+  async reportTranscriptionUsage(
+    report: TranscriptionUsageReport
+  ): Promise<void> {
+    await this.post<unknown>("transcription/usage", report);
+  }
+}
+
+/**
+ * Chat completions through the AI proxy
+ */
+export class ProxyProvider implements LLMProvider {
+  constructor(readonly config: LLMProviderConfig) {}
+
+  complete(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    usage?: UsageContext
+  ): Promise<ChatCompletionResponse> {
+    return aiProxyService.chat(request, signal, usage);
+  }
+}
+
+export const aiProxyService = new AIProxyService();
+export default aiProxyService;
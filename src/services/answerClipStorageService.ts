@@ -0,0 +1,293 @@
+/**
+ * Answer Clip Storage Service
+ * Stores each question's answer as its own recording in IndexedDB, linked to
+ * the question and its interview_responses row, so answers can be played,
+ * transcribed, retaken, deleted or exported individually.
+ */
+
+import {
+  recordingEncryptionService,
+  type EncryptionInfo,
+  type ReencryptResult,
+} from "./recordingEncryptionService";
+import { IndexedDbStore } from "../utils/indexedDbStore";
+
+export interface AnswerClipMetadata {
+  id: string; // `${sessionId}:${questionId}`
+  sessionId: string;
+  questionId: string;
+  questionText: string;
+  responseId: string | null; // interview_responses.id once the answer is saved
+  duration: number; // seconds, pauses excluded
+  size: number;
+  format: string;
+  timestamp: number;
+}
+
+export interface StoredAnswerClip {
+  metadata: AnswerClipMetadata;
+  clipBlob: ArrayBuffer;
+  encryption?: EncryptionInfo; // present when clipBlob is encrypted
+}
+
+export interface AnswerClip {
+  metadata: AnswerClipMetadata;
+  blob: Blob;
+}
+
+class AnswerClipStorageService {
+  private storeName = "answerClips";
+  private store = new IndexedDbStore({
+    name: "AmplifyAnswerClipsDB",
+    version: 1,
+    label: "answer clip storage",
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(this.storeName)) {
+        const store = db.createObjectStore(this.storeName, {
+          keyPath: "metadata.id",
+        });
+        store.createIndex("sessionId", "metadata.sessionId", {
+          unique: false,
+        });
+        store.createIndex("responseId", "metadata.responseId", {
+          unique: false,
+        });
+      }
+    },
+  });
+
+  /**
+   * Store (or replace, for a retake) the clip for one question
+   */
+  async saveClip(
+    sessionId: string,
+    questionId: string,
+    questionText: string,
+    clipBlob: Blob,
+    duration: number
+  ): Promise<AnswerClipMetadata> {
+    const metadata: AnswerClipMetadata = {
+      id: this.getClipId(sessionId, questionId),
+      sessionId,
+      questionId,
+      questionText,
+      responseId: null,
+      duration,
+      size: clipBlob.size,
+      format: clipBlob.type,
+      timestamp: Date.now(),
+    };
+
+    const stored = await this.encryptClip({
+      metadata,
+      clipBlob: await clipBlob.arrayBuffer(),
+    });
+
+    await this.request("readwrite", (store) => store.put(stored));
+    return metadata;
+  }
+
+  /**
+   * Get the clip recorded for one question
+   */
+  async getClip(
+    sessionId: string,
+    questionId: string
+  ): Promise<AnswerClip | null> {
+    const stored = await this.request<StoredAnswerClip | undefined>(
+      "readonly",
+      (store) => store.get(this.getClipId(sessionId, questionId))
+    );
+    return stored ? await this.toAnswerClip(stored) : null;
+  }
+
+  /**
+   * Get the clip linked to an interview_responses row
+   */
+  async getClipByResponseId(responseId: string): Promise<AnswerClip | null> {
+    const stored = await this.request<StoredAnswerClip | undefined>(
+      "readonly",
+      (store) => store.index("responseId").get(responseId)
+    );
+    return stored ? await this.toAnswerClip(stored) : null;
+  }
+
+  /**
+   * Get every clip recorded in a session, in recording order
+   */
+  async getSessionClips(sessionId: string): Promise<AnswerClip[]> {
+    const stored = await this.request<StoredAnswerClip[]>(
+      "readonly",
+      (store) => store.index("sessionId").getAll(sessionId)
+    );
+    const clips = await Promise.all(
+      stored.map((clip) => this.toAnswerClip(clip))
+    );
+    return clips.sort((a, b) => a.metadata.timestamp - b.metadata.timestamp);
+  }
+
+  /**
+   * Get a session's clips exactly as stored, still encrypted if encryption
+   * is on
+   */
+  async getStoredSessionClips(sessionId: string): Promise<StoredAnswerClip[]> {
+    return this.request<StoredAnswerClip[]>("readonly", (store) =>
+      store.index("sessionId").getAll(sessionId)
+    );
+  }
+
+  /**
+   * Get metadata for every stored clip
+   */
+  async getAllClips(): Promise<AnswerClipMetadata[]> {
+    const stored = await this.request<StoredAnswerClip[]>(
+      "readonly",
+      (store) => store.getAll()
+    );
+    return stored.map((clip) => clip.metadata);
+  }
+
+  /**
+   * Link a clip to the interview_responses row saved for its answer
+   */
+  async linkResponse(
+    sessionId: string,
+    questionId: string,
+    responseId: string
+  ): Promise<void> {
+    const id = this.getClipId(sessionId, questionId);
+    const stored = await this.request<StoredAnswerClip | undefined>(
+      "readonly",
+      (store) => store.get(id)
+    );
+    if (!stored) return;
+
+    await this.request("readwrite", (store) =>
+      store.put({ ...stored, metadata: { ...stored.metadata, responseId } })
+    );
+  }
+
+  /**
+   * Delete the clip for one question
+   */
+  async deleteClip(sessionId: string, questionId: string): Promise<void> {
+    await this.request("readwrite", (store) =>
+      store.delete(this.getClipId(sessionId, questionId))
+    );
+  }
+
+  /**
+   * Delete every clip recorded in a session
+   */
+  async deleteSessionClips(sessionId: string): Promise<void> {
+    const clips = await this.getStoredSessionClips(sessionId);
+    for (const clip of clips) {
+      await this.request("readwrite", (store) =>
+        store.delete(clip.metadata.id)
+      );
+    }
+  }
+
+  /**
+   * Rewrite every clip with the current encryption key, or as plain data
+   * when encryption has been turned off
+   */
+  async reencryptAll(): Promise<ReencryptResult> {
+    const stored = await this.request<StoredAnswerClip[]>(
+      "readonly",
+      (store) => store.getAll()
+    );
+    const result: ReencryptResult = { updated: 0, failed: 0 };
+
+    for (const clip of stored) {
+      try {
+        const updated = await this.encryptClip(await this.decryptClip(clip));
+        await this.request("readwrite", (store) => store.put(updated));
+        result.updated += 1;
+      } catch (error) {
+        console.error(`Failed to re-encrypt clip ${clip.metadata.id}:`, error);
+        result.failed += 1;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Delete every encrypted clip, returning how many were removed
+   */
+  async deleteEncrypted(): Promise<number> {
+    const stored = await this.request<StoredAnswerClip[]>(
+      "readonly",
+      (store) => store.getAll()
+    );
+    const encrypted = stored.filter((clip) => clip.encryption);
+    for (const clip of encrypted) {
+      await this.request("readwrite", (store) =>
+        store.delete(clip.metadata.id)
+      );
+    }
+    return encrypted.length;
+  }
+
+  /**
+   * Download one clip as a file
+   */
+  exportClip(clip: AnswerClip, fileName: string): void {
+    const url = URL.createObjectURL(clip.blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  private getClipId(sessionId: string, questionId: string): string {
+    return `${sessionId}:${questionId}`;
+  }
+
+  private async toAnswerClip(stored: StoredAnswerClip): Promise<AnswerClip> {
+    const { metadata, clipBlob } = await this.decryptClip(stored);
+    return {
+      metadata,
+      blob: new Blob([clipBlob], { type: metadata.format }),
+    };
+  }
+
+  private async encryptClip(
+    clip: StoredAnswerClip
+  ): Promise<StoredAnswerClip> {
+    const encrypted = await recordingEncryptionService.encrypt(clip.clipBlob);
+    if (!encrypted) return clip;
+    return {
+      metadata: clip.metadata,
+      clipBlob: encrypted.data,
+      encryption: encrypted.encryption,
+    };
+  }
+
+  private async decryptClip(
+    clip: StoredAnswerClip
+  ): Promise<StoredAnswerClip> {
+    if (!clip.encryption) return clip;
+    return {
+      metadata: clip.metadata,
+      clipBlob: await recordingEncryptionService.decrypt(
+        clip.clipBlob,
+        clip.encryption
+      ),
+    };
+  }
+
+  /**
+   * Run a single request against the clip store
+   */
+  private request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return this.store.request<T>(this.storeName, mode, run);
+  }
+}
+
+export const answerClipStorageService = new AnswerClipStorageService();
+export default answerClipStorageService;
@@ -0,0 +1,482 @@
+/**
+ * Cloud Backup Service
+ * Opt-in copies of local recordings in a private Supabase Storage bucket, so
+ * sessions survive cleared site data and follow the user between machines.
+ * Large files use Supabase's resumable (TUS) endpoint; an interrupted upload
+ * continues from its last acknowledged chunk the next time it is backed up.
+ * Encrypted recordings are uploaded as stored, so the cloud never sees them
+ * in plain form.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { getSupabaseAnonKey, getSupabaseUrl } from "../utils/env";
+import {
+  localVideoStorageService,
+  type LocalVideoMetadata,
+} from "./localVideoStorageService";
+import {
+  answerClipStorageService,
+  type AnswerClipMetadata,
+  type StoredAnswerClip,
+} from "./answerClipStorageService";
+import {
+  recordingEncryptionService,
+  type EncryptionInfo,
+} from "./recordingEncryptionService";
+
+export interface BackupManifest {
+  sessionId: string;
+  metadata: LocalVideoMetadata;
+  clips: AnswerClipMetadata[];
+  uploadedAt: number;
+  // Set when the uploaded files are encrypted
+  encryption?: EncryptionInfo;
+  clipEncryption?: Record<string, EncryptionInfo>; // by question id
+}
+
+export interface BackupProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+interface BackupOptions {
+  onProgress?: (progress: BackupProgress) => void;
+}
+
+const BUCKET = "interview-recordings";
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 3;
+const TUS_VERSION = "1.0.0";
+const ENABLED_KEY = "amplify_cloudBackup";
+const PENDING_KEY = "amplify_cloudBackupPending";
+const UPLOAD_URL_KEY = "amplify_tusUpload";
+
+class CloudBackupService {
+  // Sessions being uploaded in this tab, so a backup never runs twice at once
+  private inFlight = new Map<string, Promise<void>>();
+
+  /**
+   * Check whether the user has turned on cloud backup on this device
+   */
+  isEnabled(userId?: string): boolean {
+    if (!userId) return false;
+    try {
+      return localStorage.getItem(`${ENABLED_KEY}_${userId}`) === "true";
+    } catch (error) {
+      console.warn("Failed to read cloud backup preference:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Turn cloud backup on or off for this device
+   */
+  setEnabled(userId: string, enabled: boolean): void {
+    try {
+      localStorage.setItem(`${ENABLED_KEY}_${userId}`, String(enabled));
+    } catch (error) {
+      console.warn("Failed to save cloud backup preference:", error);
+    }
+  }
+
+  /**
+   * Upload a session's recording, answer clips and metadata. The manifest is
+   * written last, so a session only counts as backed up once it is complete.
+   */
+  backupSession(
+    sessionId: string,
+    options: BackupOptions = {}
+  ): Promise<void> {
+    const existing = this.inFlight.get(sessionId);
+    if (existing) return existing;
+
+    const backup = this.runBackup(sessionId, options).finally(() => {
+      this.inFlight.delete(sessionId);
+    });
+    this.inFlight.set(sessionId, backup);
+    return backup;
+  }
+
+  /**
+   * Finish backups that were interrupted by a reload or a lost connection
+   */
+  async resumePendingBackups(userId: string): Promise<void> {
+    if (!this.isEnabled(userId)) return;
+
+    for (const sessionId of this.getPending(userId)) {
+      try {
+        await this.backupSession(sessionId);
+      } catch (error) {
+        console.warn(`Backup of session ${sessionId} still failing:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the ids of sessions with a complete backup
+   */
+  async listBackups(): Promise<string[]> {
+    const userId = await this.getUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .list(userId, { limit: 1000 });
+    if (error) throw error;
+    // Folders have no id; each one is a session
+    return (data || []).filter((item) => !item.id).map((item) => item.name);
+  }
+
+  /**
+   * Get the manifest of a backed-up session, or null if it has none
+   */
+  async getManifest(sessionId: string): Promise<BackupManifest | null> {
+    const userId = await this.getUserId();
+    if (!userId) return null;
+
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .download(`${userId}/${sessionId}/manifest.json`);
+    if (error || !data) return null;
+    return JSON.parse(await data.text()) as BackupManifest;
+  }
+
+  /**
+   * Download a backed-up session into local storage. Returns false when the
+   * session has no backup.
+   */
+  async restoreSession(sessionId: string): Promise<boolean> {
+    const userId = await this.getUserId();
+    if (!userId) return false;
+
+    const manifest = await this.getManifest(sessionId);
+    if (!manifest) return false;
+
+    const folder = `${userId}/${sessionId}`;
+    const { data: video, error } = await supabase.storage
+      .from(BUCKET)
+      .download(`${folder}/video`);
+    if (error || !video) {
+      throw error || new Error("Backed-up recording is missing");
+    }
+
+    // Stored again through the local service, which applies this device's
+    // own encryption setting
+    await localVideoStorageService.storeVideo(
+      sessionId,
+      await this.openDownload(
+        video,
+        manifest.metadata.format,
+        manifest.encryption
+      ),
+      undefined,
+      manifest.metadata
+    );
+
+    for (const clip of manifest.clips) {
+      try {
+        const { data: clipData, error: clipError } = await supabase.storage
+          .from(BUCKET)
+          .download(`${folder}/clips/${clip.questionId}`);
+        if (clipError || !clipData) throw clipError;
+
+        await answerClipStorageService.saveClip(
+          sessionId,
+          clip.questionId,
+          clip.questionText,
+          await this.openDownload(
+            clipData,
+            clip.format,
+            manifest.clipEncryption?.[clip.questionId]
+          ),
+          clip.duration
+        );
+        if (clip.responseId) {
+          await answerClipStorageService.linkResponse(
+            sessionId,
+            clip.questionId,
+            clip.responseId
+          );
+        }
+      } catch (clipError) {
+        console.warn(`Failed to restore clip ${clip.id}:`, clipError);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Delete a session's cloud copy
+   */
+  async deleteBackup(sessionId: string): Promise<void> {
+    const userId = await this.getUserId();
+    if (!userId) return;
+
+    const folder = `${userId}/${sessionId}`;
+    const [{ data: files }, { data: clips }] = await Promise.all([
+      supabase.storage.from(BUCKET).list(folder),
+      supabase.storage.from(BUCKET).list(`${folder}/clips`),
+    ]);
+    const paths = [
+      ...(files || [])
+        .filter((item) => item.id)
+        .map((item) => `${folder}/${item.name}`),
+      ...(clips || []).map((item) => `${folder}/clips/${item.name}`),
+    ];
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) throw error;
+  }
+
+  private async runBackup(
+    sessionId: string,
+    options: BackupOptions
+  ): Promise<void> {
+    const userId = await this.getUserId();
+    if (!userId) throw new Error("Sign in to back up recordings");
+
+    const stored = await localVideoStorageService.getStoredVideo(sessionId);
+    if (!stored) {
+      this.setPending(userId, sessionId, false);
+      throw new Error("Recording not found on this device");
+    }
+
+    this.setPending(userId, sessionId, true);
+
+    const clips = await answerClipStorageService
+      .getStoredSessionClips(sessionId)
+      .catch((): StoredAnswerClip[] => []);
+    const video = new Blob([stored.videoBlob], {
+      type: stored.metadata.format,
+    });
+    const totalBytes = clips.reduce(
+      (sum, clip) => sum + clip.clipBlob.byteLength,
+      video.size
+    );
+    let completedBytes = 0;
+    const report = (uploaded: number) =>
+      options.onProgress?.({
+        uploadedBytes: completedBytes + uploaded,
+        totalBytes,
+      });
+
+    const folder = `${userId}/${sessionId}`;
+    await this.uploadResumable(
+      `${folder}/video`,
+      video,
+      stored.encryption,
+      report
+    );
+    completedBytes += video.size;
+
+    const clipEncryption: Record<string, EncryptionInfo> = {};
+    for (const clip of clips) {
+      const blob = new Blob([clip.clipBlob], { type: clip.metadata.format });
+      await this.uploadResumable(
+        `${folder}/clips/${clip.metadata.questionId}`,
+        blob,
+        clip.encryption,
+        report
+      );
+      if (clip.encryption) {
+        clipEncryption[clip.metadata.questionId] = clip.encryption;
+      }
+      completedBytes += blob.size;
+    }
+
+    const manifest: BackupManifest = {
+      sessionId,
+      metadata: stored.metadata,
+      clips: clips.map((clip) => clip.metadata),
+      uploadedAt: Date.now(),
+      encryption: stored.encryption,
+      clipEncryption,
+    };
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(`${folder}/manifest.json`, JSON.stringify(manifest), {
+        contentType: "application/json",
+        upsert: true,
+      });
+    if (error) throw error;
+
+    this.setPending(userId, sessionId, false);
+  }
+
+  /**
+   * Upload a file through the TUS endpoint, continuing a previous upload of
+   * the same file when the server still has it
+   */
+  private async uploadResumable(
+    objectName: string,
+    blob: Blob,
+    encryption: EncryptionInfo | undefined,
+    onProgress?: (uploadedBytes: number) => void
+  ): Promise<void> {
+    const headers = await this.getAuthHeaders();
+    // Re-encrypted files keep their size, so the IV tells them apart
+    const uploadKey = `${UPLOAD_URL_KEY}_${objectName}_${blob.size}_${
+      encryption?.iv ?? "plain"
+    }`;
+
+    let uploadUrl = localStorage.getItem(uploadKey);
+    let offset = uploadUrl ? await this.getOffset(uploadUrl, headers) : null;
+    if (!uploadUrl || offset === null) {
+      uploadUrl = await this.createUpload(objectName, blob, headers);
+      localStorage.setItem(uploadKey, uploadUrl);
+      offset = 0;
+    }
+
+    let attempts = 0;
+    while (offset < blob.size) {
+      onProgress?.(offset);
+      try {
+        const response = await fetch(uploadUrl, {
+          method: "PATCH",
+          headers: {
+            ...headers,
+            "Tus-Resumable": TUS_VERSION,
+            "Upload-Offset": String(offset),
+            "Content-Type": "application/offset+octet-stream",
+          },
+          body: blob.slice(offset, offset + CHUNK_SIZE),
+        });
+        if (!response.ok) {
+          throw new Error(`Chunk upload failed (${response.status})`);
+        }
+        offset = Number(response.headers.get("Upload-Offset"));
+        attempts = 0;
+      } catch (error) {
+        attempts += 1;
+        if (attempts >= MAX_CHUNK_ATTEMPTS) throw error;
+        await new Promise((resolve) => setTimeout(resolve, 1000 * attempts));
+        // Ask the server where it got to before retrying
+        const serverOffset = await this.getOffset(uploadUrl, headers);
+        if (serverOffset === null) throw error;
+        offset = serverOffset;
+      }
+    }
+
+    onProgress?.(blob.size);
+    localStorage.removeItem(uploadKey);
+  }
+
+  /**
+   * Turn downloaded bytes back into a playable blob, decrypting them with the
+   * passphrase the backup was made under
+   */
+  private async openDownload(
+    data: Blob,
+    format: string,
+    encryption?: EncryptionInfo
+  ): Promise<Blob> {
+    if (!encryption) return new Blob([data], { type: format });
+
+    const decrypted = await recordingEncryptionService.decrypt(
+      await data.arrayBuffer(),
+      encryption
+    );
+    return new Blob([decrypted], { type: format });
+  }
+
+  private async createUpload(
+    objectName: string,
+    blob: Blob,
+    headers: Record<string, string>
+  ): Promise<string> {
+    const endpoint = `${getSupabaseUrl()}/storage/v1/upload/resumable`;
+    const metadata = {
+      bucketName: BUCKET,
+      objectName,
+      contentType: blob.type || "application/octet-stream",
+      cacheControl: "3600",
+    };
+
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        ...headers,
+        "Tus-Resumable": TUS_VERSION,
+        "Upload-Length": String(blob.size),
+        "Upload-Metadata": Object.entries(metadata)
+          .map(([key, value]) => `${key} ${btoa(value)}`)
+          .join(","),
+        "x-upsert": "true",
+      },
+    });
+    const location = response.headers.get("Location");
+    if (!response.ok || !location) {
+      throw new Error(`Failed to start upload (${response.status})`);
+    }
+    return new URL(location, endpoint).toString();
+  }
+
+  /**
+   * Get how many bytes of an upload the server has, or null if it expired
+   */
+  private async getOffset(
+    uploadUrl: string,
+    headers: Record<string, string>
+  ): Promise<number | null> {
+    try {
+      const response = await fetch(uploadUrl, {
+        method: "HEAD",
+        headers: { ...headers, "Tus-Resumable": TUS_VERSION },
+      });
+      const offset = response.headers.get("Upload-Offset");
+      return response.ok && offset !== null ? Number(offset) : null;
+    } catch (error) {
+      console.warn("Failed to check upload progress:", error);
+      return null;
+    }
+  }
+
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    if (!session) throw new Error("Sign in to back up recordings");
+
+    return {
+      authorization: `Bearer ${session.access_token}`,
+      apikey: getSupabaseAnonKey(),
+    };
+  }
+
+  private async getUserId(): Promise<string | null> {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  }
+
+  private getPending(userId: string): string[] {
+    try {
+      const stored = localStorage.getItem(`${PENDING_KEY}_${userId}`);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private setPending(
+    userId: string,
+    sessionId: string,
+    pending: boolean
+  ): void {
+    const sessions = this.getPending(userId).filter((id) => id !== sessionId);
+    if (pending) sessions.push(sessionId);
+    try {
+      const key = `${PENDING_KEY}_${userId}`;
+      localStorage.setItem(key, JSON.stringify(sessions));
+    } catch (error) {
+      console.warn("Failed to save pending backups:", error);
+    }
+  }
+}
+
+export const cloudBackupService = new CloudBackupService();
+export default cloudBackupService;
@@ -6,6 +6,8 @@
  */
 
 import { openRouterService } from "./openRouterService";
+import { modelRoutingService } from "./modelRoutingService";
+import { spendBudgetService, type BudgetCheck } from "./spendBudgetService";
 import {
   BEHAVIORAL_ANALYSIS_PROMPT,
   LEADERSHIP_ANALYSIS_PROMPT,
@@ -30,6 +32,8 @@ import {
   questionClassificationService,
   ClassifiedQuestion,
 } from "./questionClassificationService";
+import type { SpeechMetrics } from "../utils/speechMetrics";
+import { getFeedbackLanguageInstruction } from "../config/languages";
 
 export interface AnalysisRequest {
   questionText: string;
@@ -40,6 +44,7 @@ export interface AnalysisRequest {
   category?: string;
   customDomain?: string;
   classifiedQuestion?: ClassifiedQuestion;
+  language?: string;
 }
 
 export interface AnalysisResponse {
@@ -65,13 +70,17 @@ export interface SessionAnalysisResult {
     total_tokens: number;
   };
   totalCostCents: number;
+  budget?: BudgetCheck; // not allowed when AI scoring was skipped
 }
 
 /**
  * Analyze a single interview response using AI by response ID
  */
 export async function analyzeQuestionResponse(
-  responseId: string
+  responseId: string,
+  options?: {
+    speechMetrics?: SpeechMetrics; // carried over when re-analyzing an answer
+  }
 ): Promise<AnalysisResponse> {
   try {
     // Import the AI analysis service
@@ -87,7 +96,8 @@ export async function analyzeQuestionResponse(
         *,
         interview_sessions!inner(
           user_id,
-          interview_type
+          interview_type,
+          interview_config
         ),
         interview_questions!inner(
           question_id,
@@ -104,6 +114,19 @@ export async function analyzeQuestionResponse(
       throw new Error("Response not found");
     }
 
+    // Score without AI when the re-analysis would go over budget
+    const userId = responseData.interview_sessions.user_id;
+    const budget = await spendBudgetService.checkBudget(
+      userId,
+      await spendBudgetService.estimateAnalysisCost(
+        responseData.interview_questions.interview_type,
+        1,
+        false,
+        userId
+      )
+    );
+    spendBudgetService.notifyBudgetReached(budget, "analysis");
+
     // Process the response using AI analysis service
     const analysis = await aiAnalysisService.processQuestionResponse(
       responseData.response_text || "",
@@ -117,6 +140,15 @@ export async function analyzeQuestionResponse(
         session_id: responseData.session_id,
         user_id: responseData.interview_sessions.user_id,
         response_id: responseId,
+      },
+      {
+        speechMetrics: options?.speechMetrics,
+        language: (
+          responseData.interview_sessions.interview_config as {
+            language?: string;
+          } | null
+        )?.language,
+        fallbackOnly: !budget.allowed,
       }
     );
 
@@ -165,8 +197,18 @@ export async function analyzeQuestionResponseFromRequest(
   const startTime = Date.now();
 
   try {
-    // Select appropriate model and prompt based on interview type
-    const model = openRouterService.selectModel(request.interviewType);
+    const budget = await spendBudgetService.checkBudget(
+      undefined,
+      await spendBudgetService.estimateAnalysisCost(
+        request.interviewType,
+        1,
+        false
+      )
+    );
+    if (!budget.allowed) {
+      spendBudgetService.notifyBudgetReached(budget, "analysis");
+      return buildFallbackResponse(request, startTime);
+    }
 
     // Use classified question information if available
     let systemPrompt: string;
@@ -174,9 +216,10 @@ export async function analyzeQuestionResponseFromRequest(
 
     if (request.classifiedQuestion) {
       // Use classification-specific prompts
-      systemPrompt = questionClassificationService.getAnalysisPrompt(
-        request.classifiedQuestion.classification
-      );
+      systemPrompt =
+        questionClassificationService.getAnalysisPrompt(
+          request.classifiedQuestion.classification
+        ) + getFeedbackLanguageInstruction(request.language);
 
       userPrompt = buildUserPrompt(
         request.questionText,
@@ -196,7 +239,8 @@ export async function analyzeQuestionResponseFromRequest(
       // Use standard prompts
       systemPrompt = buildSystemPrompt(
         request.interviewType,
-        request.customDomain
+        request.customDomain,
+        request.language
       );
 
       userPrompt = buildUserPrompt(
@@ -212,23 +256,34 @@ export async function analyzeQuestionResponseFromRequest(
       );
     }
 
-    // Make API call to OpenRouter
-    const apiResponse = await openRouterService.callOpenRouterWithRetry({
-      model,
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
+    // Route to a model for this answer, falling back if one is unavailable
+    const models = await modelRoutingService.getCandidateModels({
+      interviewType: request.interviewType,
+      customDomain: request.customDomain,
+      answerText: request.responseText,
+      promptChars: systemPrompt.length + userPrompt.length,
+      maxOutputTokens: 2000,
+    });
+    const { response: apiResponse, model } =
+      await openRouterService.callWithModelFallback(
+        models,
         {
-          role: "user",
-          content: userPrompt,
+          messages: [
+            {
+              role: "system",
+              content: systemPrompt,
+            },
+            {
+              role: "user",
+              content: userPrompt,
+            },
+          ],
+          temperature: 0.3, // Lower temperature for more consistent analysis
+          max_tokens: 2000,
+          response_format: { type: "json_object" },
         },
-      ],
-      temperature: 0.3, // Lower temperature for more consistent analysis
-      max_tokens: 2000,
-      response_format: { type: "json_object" },
-    });
+        { purpose: "answer_analysis" }
+      );
 
     const processingTime = Date.now() - startTime;
 
@@ -268,20 +323,7 @@ export async function analyzeQuestionResponseFromRequest(
 
     // Generate fallback analysis for graceful degradation
     try {
-      const fallbackAnalysis = generateFallbackAnalysis(
-        request.responseText,
-        request.duration,
-        request.interviewType
-      );
-
-      return {
-        success: true,
-        result: fallbackAnalysis as StandardAnalysisResult,
-        model: "fallback",
-        tokensUsed: 0,
-        costCents: 0,
-        processingTimeMs: Date.now() - startTime,
-      };
+      return buildFallbackResponse(request, startTime);
     } catch (fallbackError) {
       console.error("Fallback analysis also failed:", fallbackError);
       return {
@@ -293,18 +335,48 @@ export async function analyzeQuestionResponseFromRequest(
   }
 }
 
+/**
+ * Rule-based analysis used when the AI call fails or is over budget
+ */
+function buildFallbackResponse(
+  request: AnalysisRequest,
+  startTime: number
+): AnalysisResponse {
+  const fallbackAnalysis = generateFallbackAnalysis(
+    request.responseText,
+    request.duration,
+    request.interviewType,
+    request.language
+  );
+
+  return {
+    success: true,
+    result: fallbackAnalysis as StandardAnalysisResult,
+    model: "fallback",
+    tokensUsed: 0,
+    costCents: 0,
+    processingTimeMs: Date.now() - startTime,
+  };
+}
+
 /**
  * Analyze an entire interview session
  */
 export async function analyzeInterviewSession(
-  sessionId: string
+  sessionId: string,
+  options?: {
+    speechMetricsByResponse?: Record<string, SpeechMetrics>; // keyed by interview_responses.id
+    language?: string; // overrides the language saved in the session config
+  }
 ): Promise<SessionAnalysisResult> {
   try {
     // Get classified questions
     const { supabase } = await import("../integrations/supabase/client");
     const { data: session, error } = await supabase
       .from("interview_sessions")
-      .select("questions_asked")
+      .select(
+        "questions_asked, user_id, interview_type, interview_responses(id)"
+      )
       .eq("id", sessionId)
       .single();
 
@@ -314,13 +386,34 @@ export async function analyzeInterviewSession(
       classifiedQuestions = metadata.classifiedQuestions || [];
     }
 
+    // Check the whole run against the user's budget before any AI call
+    const budget = session
+      ? await spendBudgetService.checkBudget(
+          session.user_id,
+          await spendBudgetService.estimateAnalysisCost(
+            session.interview_type,
+            session.interview_responses?.length || 0,
+            true,
+            session.user_id
+          )
+        )
+      : undefined;
+    if (budget) {
+      spendBudgetService.notifyBudgetReached(budget, "analysis");
+    }
+
     // Import the AI analysis service that has full database integration
     const { aiAnalysisService } = await import("./aiAnalysisService");
 
     // Process the complete interview (all responses + summary) with classified questions
     const result = await aiAnalysisService.processCompleteInterview(
       sessionId,
-      classifiedQuestions
+      classifiedQuestions,
+      {
+        speechMetricsByResponse: options?.speechMetricsByResponse,
+        language: options?.language,
+        fallbackOnly: budget ? !budget.allowed : false,
+      }
     );
 
     // Convert the result to the expected format
@@ -362,6 +455,7 @@ export async function analyzeInterviewSession(
         total_tokens: result.summary.total_tokens || 0,
       },
       totalCostCents: result.totalCost,
+      budget,
     };
 
     return sessionAnalysisResult;
@@ -377,11 +471,12 @@ export async function analyzeInterviewSession(
 export function enhanceAnalysisWithMetrics(
   analysis: StandardAnalysisResult,
   responseText: string,
-  duration: number
+  duration: number,
+  language?: string
 ): StandardAnalysisResult {
   // Extract filler words if not already done
   if (!analysis.filler_words || analysis.filler_words.total === undefined) {
-    analysis.filler_words = extractFillerWords(responseText);
+    analysis.filler_words = extractFillerWords(responseText, language);
   }
 
   // Assess speaking pace if not already done
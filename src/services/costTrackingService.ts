@@ -1,34 +1,84 @@
 /**
  * Cost Tracking Service
- * Tracks AI model usage and costs for billing and optimization
+ * Tracks AI model and transcription usage and costs for billing
  */
 
 import { supabase } from "../integrations/supabase/client";
 import { InterviewAnalysis } from "../types/aiAnalysis";
+import type { TranscriptionResult } from "./deepgramTranscriptionService";
+import { aiProxyService } from "./aiProxyService";
+import { calculateTranscriptionCost } from "../config/transcriptionPricing";
 
-export interface CostSummary {
+export interface CostBreakdown {
+  analysisCostCents: number; // LLM requests from usage_events
+  transcriptionCostCents: number; // speech-to-text from transcription_usage
   totalCostCents: number;
+}
+
+export interface CostSummary extends CostBreakdown {
   modelBreakdown: Record<string, number>;
   tokenUsage: {
     total: number;
     input: number;
     output: number;
   };
+  transcriptionUsage: {
+    audioSeconds: number;
+    providerBreakdown: Record<string, number>; // cost cents per provider/model
+  };
 }
 
-export interface UserCostSummary {
-  totalCostCents: number;
+export interface UserCostSummary extends CostBreakdown {
   sessionCount: number;
   averageCostPerSession: number;
-  monthlyBreakdown: Record<string, number>;
+  monthlyBreakdown: Record<string, CostBreakdown>;
+}
+
+interface CostRecord {
+  cost_cents: number | null;
+  created_at: string | null;
+  session_id: string | null;
+}
+
+interface SessionTokenRecord {
+  model: string;
+  total_tokens: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_cents: number;
+}
+
+interface UsageEventRecord {
+  model: string;
+  purpose: string;
+  status: "success" | "error";
+  total_tokens: number;
+  cost_cents: number;
+  latency_ms: number;
+  session_id: string | null;
 }
 
 export interface ModelUsageStats {
   model: string;
-  usageCount: number;
+  usageCount: number; // requests, including failed attempts and retries
+  failureCount: number;
   totalCostCents: number;
   totalTokens: number;
-  averageCostPerAnalysis: number;
+  averageCostPerRequest: number; // per successful request
+  averageLatencyMs: number;
+  costByPurpose: Record<string, number>;
+}
+
+export interface CostEfficiencyMetrics {
+  averageCostPerQuestion: number;
+  averageCostPerSession: number;
+  mostExpensiveModel: string;
+  mostEfficientModel: string;
+  totalQuestionsAnalyzed: number;
+  totalSessions: number;
+  totalRequests: number;
+  failedRequests: number;
+  costByPurpose: Record<string, number>; // LLM spend per purpose in cents
 }
 
 class CostTrackingService {
@@ -45,53 +95,148 @@ class CostTrackingService {
     userId: string
   ): Promise<void> {
     try {
-      // Usage is already tracked in interview_analysis table
+      // The AI proxy records every request in usage_events
     } catch (error) {
       console.error("Error tracking usage:", error);
       // Don't throw error - supplementary tracking only
     }
   }
 
+  /**
+   * Report a transcription call to the AI proxy, which prices it and writes
+   * it to transcription_usage. The audio length is taken on trust.
+   */
+  public async trackTranscriptionUsage(
+    provider: string,
+    result: TranscriptionResult,
+    sessionId?: string
+  ): Promise<void> {
+    try {
+      await aiProxyService.reportTranscriptionUsage({
+        provider,
+        model: result.model || provider,
+        streamed: !!result.streamed,
+        audioSeconds: Math.max(0, result.duration || 0),
+        sessionId,
+      });
+      // A stream that dropped was paid for before the audio was re-uploaded
+      if (result.droppedStreamSeconds) {
+        await aiProxyService.reportTranscriptionUsage({
+          provider,
+          model: result.model || provider,
+          streamed: true,
+          audioSeconds: result.droppedStreamSeconds,
+          sessionId,
+        });
+      }
+    } catch (error) {
+      console.error("Error tracking transcription usage:", error);
+      // Don't throw error - supplementary tracking only
+    }
+  }
+
+  /**
+   * Calculate transcription cost in cents
+   */
+  public calculateTranscriptionCost(
+    provider: string,
+    audioSeconds: number,
+    streamed = false
+  ): number {
+    return calculateTranscriptionCost(provider, audioSeconds, streamed);
+  }
+
   /**
    * Get cost summary for a session
    */
   public async getSessionCost(sessionId: string): Promise<CostSummary> {
     try {
-      const { data: analyses, error } = await supabase
-        .from("interview_analysis")
-        .select(
-          "model_used, tokens_used, input_tokens, output_tokens, cost_cents"
-        )
+      const { data: ledgerEvents, error } = await supabase
+        .from("usage_events")
+        .select("model, total_tokens, input_tokens, output_tokens, cost_cents")
         .eq("session_id", sessionId);
 
       if (error) {
         throw new Error(`Failed to get session cost: ${error.message}`);
       }
 
+      // Sessions analyzed before the ledger existed, or by a development
+      // build calling a provider directly, only have interview_analysis rows
+      let events: SessionTokenRecord[] = ledgerEvents || [];
+      if (events.length === 0) {
+        const { data: analyses, error: analysisError } = await supabase
+          .from("interview_analysis")
+          .select(
+            "model_used, tokens_used, input_tokens, output_tokens, cost_cents"
+          )
+          .eq("session_id", sessionId);
+
+        if (analysisError) {
+          throw new Error(
+            `Failed to get session cost: ${analysisError.message}`
+          );
+        }
+        events = (analyses || []).map((analysis) => ({
+          model: analysis.model_used || "unknown",
+          total_tokens: analysis.tokens_used || 0,
+          input_tokens: analysis.input_tokens || 0,
+          output_tokens: analysis.output_tokens || 0,
+          cost_cents: analysis.cost_cents || 0,
+        }));
+      }
+
+      const { data: transcriptions, error: transcriptionError } = await supabase
+        .from("transcription_usage")
+        .select("provider, model, audio_seconds, cost_cents")
+        .eq("session_id", sessionId);
+
+      if (transcriptionError) {
+        throw new Error(
+          `Failed to get session transcription cost: ${transcriptionError.message}`
+        );
+      }
+
       const modelBreakdown: Record<string, number> = {};
       let totalCostCents = 0;
       let totalTokens = 0;
       let totalInputTokens = 0;
       let totalOutputTokens = 0;
 
-      analyses?.forEach((analysis) => {
-        const model = analysis.model_used || "unknown";
-        modelBreakdown[model] =
-          (modelBreakdown[model] || 0) + (analysis.cost_cents || 0);
-        totalCostCents += analysis.cost_cents || 0;
-        totalTokens += analysis.tokens_used || 0;
-        totalInputTokens += analysis.input_tokens || 0;
-        totalOutputTokens += analysis.output_tokens || 0;
+      events.forEach((event) => {
+        modelBreakdown[event.model] =
+          (modelBreakdown[event.model] || 0) + (event.cost_cents || 0);
+        totalCostCents += event.cost_cents || 0;
+        totalTokens += event.total_tokens || 0;
+        totalInputTokens += event.input_tokens || 0;
+        totalOutputTokens += event.output_tokens || 0;
+      });
+
+      const providerBreakdown: Record<string, number> = {};
+      let transcriptionCostCents = 0;
+      let audioSeconds = 0;
+
+      transcriptions?.forEach((usage) => {
+        const key = `${usage.provider}/${usage.model}`;
+        providerBreakdown[key] =
+          (providerBreakdown[key] || 0) + (usage.cost_cents || 0);
+        transcriptionCostCents += usage.cost_cents || 0;
+        audioSeconds += usage.audio_seconds || 0;
       });
 
       return {
-        totalCostCents,
+        analysisCostCents: totalCostCents,
+        transcriptionCostCents,
+        totalCostCents: totalCostCents + transcriptionCostCents,
         modelBreakdown,
         tokenUsage: {
           total: totalTokens,
           input: totalInputTokens,
           output: totalOutputTokens,
         },
+        transcriptionUsage: {
+          audioSeconds,
+          providerBreakdown,
+        },
       };
     } catch (error) {
       console.error("Error getting session cost:", error);
@@ -100,7 +245,7 @@ class CostTrackingService {
   }
 
   /**
-   * Get user's total AI costs
+   * Get user's total AI and transcription costs
    */
   public async getUserCosts(
     userId: string,
@@ -108,45 +253,41 @@ class CostTrackingService {
     endDate?: string
   ): Promise<UserCostSummary> {
     try {
-      let query = supabase
-        .from("interview_analysis")
-        .select("cost_cents, created_at, session_id")
-        .eq("user_id", userId);
-
-      if (startDate) {
-        query = query.gte("created_at", startDate);
-      }
-      if (endDate) {
-        query = query.lte("created_at", endDate);
-      }
-
-      const { data: analyses, error } = await query;
+      const { requests, transcriptions } = await this.getCostRecords(
+        userId,
+        startDate,
+        endDate
+      );
 
-      if (error) {
-        throw new Error(`Failed to get user costs: ${error.message}`);
-      }
+      const analysisCostCents = requests.reduce(
+        (sum, request) => sum + (request.cost_cents || 0),
+        0
+      );
+      const transcriptionCostCents = transcriptions.reduce(
+        (sum, usage) => sum + (usage.cost_cents || 0),
+        0
+      );
+      const totalCostCents = analysisCostCents + transcriptionCostCents;
 
-      const totalCostCents =
-        analyses?.reduce(
-          (sum, analysis) => sum + (analysis.cost_cents || 0),
-          0
-        ) || 0;
-      const uniqueSessions = new Set(analyses?.map((a) => a.session_id) || []);
+      const uniqueSessions = new Set(
+        [...requests, ...transcriptions]
+          .map((record) => record.session_id)
+          .filter(Boolean)
+      );
       const sessionCount = uniqueSessions.size;
       const averageCostPerSession =
         sessionCount > 0 ? totalCostCents / sessionCount : 0;
 
       // Calculate monthly breakdown
-      const monthlyBreakdown: Record<string, number> = {};
-      analyses?.forEach((analysis) => {
-        if (analysis.created_at) {
-          const month = analysis.created_at.substring(0, 7); // YYYY-MM
-          monthlyBreakdown[month] =
-            (monthlyBreakdown[month] || 0) + (analysis.cost_cents || 0);
-        }
-      });
+      const monthlyBreakdown = this.groupCostsByPeriod(
+        requests,
+        transcriptions,
+        "month"
+      );
 
       return {
+        analysisCostCents,
+        transcriptionCostCents,
         totalCostCents,
         sessionCount,
         averageCostPerSession: Math.round(averageCostPerSession),
@@ -159,7 +300,7 @@ class CostTrackingService {
   }
 
   /**
-   * Get model usage statistics
+   * Get per-model request, cost and latency statistics from the usage ledger
    */
   public async getModelUsageStats(
     userId?: string,
@@ -167,58 +308,8 @@ class CostTrackingService {
     endDate?: string
   ): Promise<ModelUsageStats[]> {
     try {
-      let query = supabase
-        .from("interview_analysis")
-        .select("model_used, tokens_used, cost_cents")
-        .not("model_used", "is", null);
-
-      if (userId) {
-        query = query.eq("user_id", userId);
-      }
-      if (startDate) {
-        query = query.gte("created_at", startDate);
-      }
-      if (endDate) {
-        query = query.lte("created_at", endDate);
-      }
-
-      const { data: analyses, error } = await query;
-
-      if (error) {
-        throw new Error(`Failed to get model usage stats: ${error.message}`);
-      }
-
-      const modelStats: Record<
-        string,
-        {
-          usageCount: number;
-          totalCostCents: number;
-          totalTokens: number;
-        }
-      > = {};
-
-      analyses?.forEach((analysis) => {
-        const model = analysis.model_used || "unknown";
-        if (!modelStats[model]) {
-          modelStats[model] = {
-            usageCount: 0,
-            totalCostCents: 0,
-            totalTokens: 0,
-          };
-        }
-        modelStats[model].usageCount++;
-        modelStats[model].totalCostCents += analysis.cost_cents || 0;
-        modelStats[model].totalTokens += analysis.tokens_used || 0;
-      });
-
-      return Object.entries(modelStats).map(([model, stats]) => ({
-        model,
-        usageCount: stats.usageCount,
-        totalCostCents: stats.totalCostCents,
-        totalTokens: stats.totalTokens,
-        averageCostPerAnalysis:
-          stats.usageCount > 0 ? stats.totalCostCents / stats.usageCount : 0,
-      }));
+      const events = await this.getUsageEvents(userId, startDate, endDate);
+      return this.summarizeByModel(events);
     } catch (error) {
       console.error("Error getting model usage stats:", error);
       throw error;
@@ -231,47 +322,15 @@ class CostTrackingService {
   public async getCostTrends(
     userId: string,
     period: "day" | "week" | "month" = "month"
-  ): Promise<Record<string, number>> {
+  ): Promise<Record<string, CostBreakdown>> {
     try {
-      const { data: analyses, error } = await supabase
-        .from("interview_analysis")
-        .select("cost_cents, created_at")
-        .eq("user_id", userId)
-        .order("created_at", { ascending: true });
-
-      if (error) {
-        throw new Error(`Failed to get cost trends: ${error.message}`);
-      }
-
-      const trends: Record<string, number> = {};
-
-      analyses?.forEach((analysis) => {
-        if (analysis.created_at) {
-          let periodKey: string;
-          const date = new Date(analysis.created_at);
-
-          switch (period) {
-            case "day":
-              periodKey = date.toISOString().split("T")[0]; // YYYY-MM-DD
-              break;
-            case "week":
-              const weekStart = new Date(date);
-              weekStart.setDate(date.getDate() - date.getDay());
-              periodKey = weekStart.toISOString().split("T")[0];
-              break;
-            case "month":
-              periodKey = analysis.created_at.substring(0, 7); // YYYY-MM
-              break;
-            default:
-              periodKey = analysis.created_at.substring(0, 7);
-          }
-
-          trends[periodKey] =
-            (trends[periodKey] || 0) + (analysis.cost_cents || 0);
-        }
-      });
+      const { requests, transcriptions } = await this.getCostRecords(userId);
+      const trends = this.groupCostsByPeriod(requests, transcriptions, period);
 
-      return trends;
+      // Keep periods in chronological order
+      return Object.fromEntries(
+        Object.entries(trends).sort(([a], [b]) => a.localeCompare(b))
+      );
     } catch (error) {
       console.error("Error getting cost trends:", error);
       throw error;
@@ -292,10 +351,16 @@ class CostTrackingService {
     period: string;
   }> {
     try {
-      const startDate = this.getPeriodStartDate(period);
-      const costs = await this.getUserCosts(userId, startDate);
+      // Summed in the database, the same way the AI proxy enforces budgets
+      const { data, error } = await supabase.rpc("get_spend_cents", {
+        p_user_id: userId,
+        p_since: this.getPeriodStartDate(period),
+      });
+      if (error) {
+        throw new Error(`Failed to get spend: ${error.message}`);
+      }
 
-      const currentCostCents = costs.totalCostCents;
+      const currentCostCents = Number(data) || 0;
       const exceeded = currentCostCents > limitCents;
       const remainingCents = Math.max(0, limitCents - currentCostCents);
 
@@ -312,7 +377,129 @@ class CostTrackingService {
   }
 
   /**
-   * Get period start date for cost calculations
+   * Load LLM request and transcription cost rows for a user. Sessions with
+   * no usage events fall back to the cost saved with their analyses.
+   */
+  private async getCostRecords(
+    userId: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<{
+    requests: CostRecord[];
+    transcriptions: CostRecord[];
+  }> {
+    let requestQuery = supabase
+      .from("usage_events")
+      .select("cost_cents, created_at, session_id")
+      .eq("user_id", userId);
+    let analysisQuery = supabase
+      .from("interview_analysis")
+      .select("cost_cents, created_at, session_id")
+      .eq("user_id", userId);
+    let transcriptionQuery = supabase
+      .from("transcription_usage")
+      .select("cost_cents, created_at, session_id")
+      .eq("user_id", userId);
+
+    if (startDate) {
+      requestQuery = requestQuery.gte("created_at", startDate);
+      analysisQuery = analysisQuery.gte("created_at", startDate);
+      transcriptionQuery = transcriptionQuery.gte("created_at", startDate);
+    }
+    if (endDate) {
+      requestQuery = requestQuery.lte("created_at", endDate);
+      analysisQuery = analysisQuery.lte("created_at", endDate);
+      transcriptionQuery = transcriptionQuery.lte("created_at", endDate);
+    }
+
+    const [requestResult, analysisResult, transcriptionResult] =
+      await Promise.all([requestQuery, analysisQuery, transcriptionQuery]);
+
+    if (requestResult.error) {
+      throw new Error(
+        `Failed to get user costs: ${requestResult.error.message}`
+      );
+    }
+    if (analysisResult.error) {
+      throw new Error(
+        `Failed to get user costs: ${analysisResult.error.message}`
+      );
+    }
+    if (transcriptionResult.error) {
+      throw new Error(
+        `Failed to get transcription costs: ${transcriptionResult.error.message}`
+      );
+    }
+
+    const requests: CostRecord[] = requestResult.data || [];
+    const ledgerSessions = new Set(requests.map((record) => record.session_id));
+    const analyses: CostRecord[] = analysisResult.data || [];
+    const unledgeredAnalyses = analyses.filter(
+      (record) => !ledgerSessions.has(record.session_id)
+    );
+
+    return {
+      requests: [...requests, ...unledgeredAnalyses],
+      transcriptions: transcriptionResult.data || [],
+    };
+  }
+
+  /**
+   * Sum LLM request and transcription costs per day, week or month
+   */
+  private groupCostsByPeriod(
+    requests: CostRecord[],
+    transcriptions: CostRecord[],
+    period: "day" | "week" | "month"
+  ): Record<string, CostBreakdown> {
+    const groups: Record<string, CostBreakdown> = {};
+
+    const add = (
+      record: CostRecord,
+      field: "analysisCostCents" | "transcriptionCostCents"
+    ) => {
+      if (!record.created_at) return;
+      const periodKey = this.getPeriodKey(record.created_at, period);
+      const group = (groups[periodKey] ??= {
+        analysisCostCents: 0,
+        transcriptionCostCents: 0,
+        totalCostCents: 0,
+      });
+      group[field] += record.cost_cents || 0;
+      group.totalCostCents += record.cost_cents || 0;
+    };
+
+    requests.forEach((record) => add(record, "analysisCostCents"));
+    transcriptions.forEach((record) => add(record, "transcriptionCostCents"));
+
+    return groups;
+  }
+
+  /**
+   * Get the day, week or month a timestamp falls in
+   */
+  private getPeriodKey(
+    createdAt: string,
+    period: "day" | "week" | "month"
+  ): string {
+    const date = new Date(createdAt);
+
+    switch (period) {
+      case "day":
+        return date.toISOString().split("T")[0]; // YYYY-MM-DD
+      case "week":
+        const weekStart = new Date(date);
+        weekStart.setDate(date.getDate() - date.getDay());
+        return weekStart.toISOString().split("T")[0];
+      case "month":
+        return createdAt.substring(0, 7); // YYYY-MM
+      default:
+        return createdAt.substring(0, 7);
+    }
+  }
+
+  /**
+   * Get period start date for cost calculations, in UTC like the AI proxy
    */
   private getPeriodStartDate(period: "day" | "month"): string {
     const now = new Date();
@@ -321,7 +508,9 @@ class CostTrackingService {
       case "day":
         return now.toISOString().split("T")[0];
       case "month":
-        const firstDay = new Date(now.getFullYear(), now.getMonth(), 1);
+        const firstDay = new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)
+        );
         return firstDay.toISOString().split("T")[0];
       default:
         return now.toISOString().split("T")[0];
@@ -340,83 +529,168 @@ class CostTrackingService {
   }
 
   /**
-   * Get cost efficiency metrics
+   * Get cost efficiency metrics from the usage ledger and transcription usage
    */
   public async getCostEfficiencyMetrics(
     userId: string,
     startDate?: string,
     endDate?: string
-  ): Promise<{
-    averageCostPerQuestion: number;
-    averageCostPerSession: number;
-    mostExpensiveModel: string;
-    mostEfficientModel: string;
-    totalQuestionsAnalyzed: number;
-    totalSessions: number;
-  }> {
+  ): Promise<CostEfficiencyMetrics> {
     try {
-      const costs = await this.getUserCosts(userId, startDate, startDate);
-      const modelStats = await this.getModelUsageStats(
-        userId,
-        startDate,
-        endDate
+      const [events, { transcriptions }] = await Promise.all([
+        this.getUsageEvents(userId, startDate, endDate),
+        this.getCostRecords(userId, startDate, endDate),
+      ]);
+
+      const llmCostCents = events.reduce(
+        (sum, event) => sum + (event.cost_cents || 0),
+        0
       );
+      const transcriptionCostCents = transcriptions.reduce(
+        (sum, usage) => sum + (usage.cost_cents || 0),
+        0
+      );
+      const totalCostCents = llmCostCents + transcriptionCostCents;
+
+      const totalQuestions = events.filter(
+        (event) =>
+          event.purpose === "answer_analysis" && event.status === "success"
+      ).length;
+      const failedRequests = events.filter(
+        (event) => event.status === "error"
+      ).length;
+      const totalSessions = new Set(
+        [...events, ...transcriptions]
+          .map((record) => record.session_id)
+          .filter(Boolean)
+      ).size;
+
+      const costByPurpose: Record<string, number> = {};
+      events.forEach((event) => {
+        costByPurpose[event.purpose] =
+          (costByPurpose[event.purpose] || 0) + (event.cost_cents || 0);
+      });
 
-      // Get total questions analyzed
-      let query = supabase
-        .from("interview_analysis")
-        .select("id", { count: "exact", head: true })
-        .eq("user_id", userId);
-
-      if (startDate) {
-        query = query.gte("created_at", startDate);
-      }
-      if (endDate) {
-        query = query.lte("created_at", endDate);
-      }
-
-      const { count: totalQuestions, error } = await query;
-
-      if (error) {
-        throw new Error(`Failed to get total questions: ${error.message}`);
-      }
-
-      const averageCostPerQuestion =
-        (totalQuestions || 0) > 0
-          ? costs.totalCostCents / (totalQuestions || 1)
-          : 0;
-      const averageCostPerSession = costs.averageCostPerSession;
-
-      // Find most expensive and efficient models
+      // Find most expensive and efficient models among ones that answered
       let mostExpensiveModel = "";
       let mostEfficientModel = "";
-      let highestCostPerAnalysis = 0;
-      let lowestCostPerAnalysis = Infinity;
-
-      modelStats.forEach((stat) => {
-        if (stat.averageCostPerAnalysis > highestCostPerAnalysis) {
-          highestCostPerAnalysis = stat.averageCostPerAnalysis;
-          mostExpensiveModel = stat.model;
-        }
-        if (stat.averageCostPerAnalysis < lowestCostPerAnalysis) {
-          lowestCostPerAnalysis = stat.averageCostPerAnalysis;
-          mostEfficientModel = stat.model;
-        }
-      });
+      let highestCostPerRequest = -1;
+      let lowestCostPerRequest = Infinity;
+
+      this.summarizeByModel(events)
+        .filter((stat) => stat.usageCount > stat.failureCount)
+        .forEach((stat) => {
+          if (stat.averageCostPerRequest > highestCostPerRequest) {
+            highestCostPerRequest = stat.averageCostPerRequest;
+            mostExpensiveModel = stat.model;
+          }
+          if (stat.averageCostPerRequest < lowestCostPerRequest) {
+            lowestCostPerRequest = stat.averageCostPerRequest;
+            mostEfficientModel = stat.model;
+          }
+        });
 
       return {
-        averageCostPerQuestion: Math.round(averageCostPerQuestion),
-        averageCostPerSession: Math.round(averageCostPerSession),
+        averageCostPerQuestion:
+          totalQuestions > 0 ? Math.round(totalCostCents / totalQuestions) : 0,
+        averageCostPerSession:
+          totalSessions > 0 ? Math.round(totalCostCents / totalSessions) : 0,
         mostExpensiveModel,
         mostEfficientModel,
-        totalQuestionsAnalyzed: totalQuestions || 0,
-        totalSessions: costs.sessionCount,
+        totalQuestionsAnalyzed: totalQuestions,
+        totalSessions,
+        totalRequests: events.length,
+        failedRequests,
+        costByPurpose,
       };
     } catch (error) {
       console.error("Error getting cost efficiency metrics:", error);
       throw error;
     }
   }
+
+  /**
+   * Load LLM requests from the usage ledger
+   */
+  private async getUsageEvents(
+    userId?: string,
+    startDate?: string,
+    endDate?: string
+  ): Promise<UsageEventRecord[]> {
+    let query = supabase
+      .from("usage_events")
+      .select(
+        "model, purpose, status, total_tokens, cost_cents, latency_ms, session_id"
+      );
+
+    if (userId) {
+      query = query.eq("user_id", userId);
+    }
+    if (startDate) {
+      query = query.gte("created_at", startDate);
+    }
+    if (endDate) {
+      query = query.lte("created_at", endDate);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to get usage events: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Aggregate usage events per model
+   */
+  private summarizeByModel(events: UsageEventRecord[]): ModelUsageStats[] {
+    const modelStats: Record<
+      string,
+      {
+        usageCount: number;
+        failureCount: number;
+        totalCostCents: number;
+        totalTokens: number;
+        totalLatencyMs: number;
+        costByPurpose: Record<string, number>;
+      }
+    > = {};
+
+    events.forEach((event) => {
+      const stats = (modelStats[event.model] ??= {
+        usageCount: 0,
+        failureCount: 0,
+        totalCostCents: 0,
+        totalTokens: 0,
+        totalLatencyMs: 0,
+        costByPurpose: {},
+      });
+      stats.usageCount++;
+      if (event.status === "error") stats.failureCount++;
+      stats.totalCostCents += event.cost_cents || 0;
+      stats.totalTokens += event.total_tokens || 0;
+      stats.totalLatencyMs += event.latency_ms || 0;
+      stats.costByPurpose[event.purpose] =
+        (stats.costByPurpose[event.purpose] || 0) + (event.cost_cents || 0);
+    });
+
+    return Object.entries(modelStats).map(([model, stats]) => {
+      const successCount = stats.usageCount - stats.failureCount;
+      return {
+        model,
+        usageCount: stats.usageCount,
+        failureCount: stats.failureCount,
+        totalCostCents: stats.totalCostCents,
+        totalTokens: stats.totalTokens,
+        averageCostPerRequest:
+          successCount > 0 ? stats.totalCostCents / successCount : 0,
+        averageLatencyMs: Math.round(stats.totalLatencyMs / stats.usageCount),
+        costByPurpose: stats.costByPurpose,
+      };
+    });
+  }
 }
 
 // Export singleton instance
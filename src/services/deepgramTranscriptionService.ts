@@ -1,3 +1,11 @@
+import { DEFAULT_LANGUAGE, getLanguageConfig } from "../config/languages";
+import {
+  videoConversionService,
+  type MediaConversionOptions,
+} from "./videoConversionService";
+import { aiProxyService } from "./aiProxyService";
+import { buildSentencesFromWords } from "../utils/transcriptSentences";
+
 // Define types for transcription results
 export interface TranscribedWord {
   word: string;
@@ -13,12 +21,55 @@ export interface TranscriptionResult {
   confidence: number;
   words?: TranscribedWord[]; // optional word-level timestamps
   sentences?: { text: string; start: number; end: number }[];
+  model?: string; // model that produced the transcript, for usage tracking
+  streamed?: boolean; // true when transcribed live over the WebSocket
+  droppedStreamSeconds?: number; // streamed before the socket dropped
+}
+
+interface DeepgramCredentials {
+  scheme: "token" | "bearer"; // API key, or short-lived token from the proxy
+  key: string;
 }
 
 export interface StreamingSessionHandle {
   pushChunk: (chunk: Blob) => Promise<void>;
   finalize: () => Promise<TranscriptionResult>;
   abort: () => void;
+  isLive: () => boolean; // true while words are arriving over the WebSocket
+}
+
+export interface StreamingTranscriptUpdate {
+  transcript: string;
+  words: TranscribedWord[];
+  isFinal: boolean; // interim results are replaced by the next update
+}
+
+export interface StreamingSessionOptions {
+  onTranscript?: (update: StreamingTranscriptUpdate) => void;
+  language?: string; // interview language code, defaults to English
+  keywords?: string[]; // session vocabulary to boost
+}
+
+interface DeepgramStreamWord {
+  word?: string;
+  punctuated_word?: string;
+  start?: number;
+  end?: number;
+  confidence?: number;
+}
+
+interface DeepgramStreamMessage {
+  type?: string;
+  is_final?: boolean;
+  start?: number;
+  duration?: number;
+  channel?: {
+    alternatives?: {
+      transcript?: string;
+      confidence?: number;
+      words?: DeepgramStreamWord[];
+    }[];
+  };
 }
 
 export interface SpeechAnalysis {
@@ -29,35 +80,56 @@ export interface SpeechAnalysis {
 }
 
 class DeepgramTranscriptionService {
-  private apiKey: string;
+  private apiKey: string; // dev builds only; otherwise the proxy issues tokens
   private baseUrl = "https://api.deepgram.com/v1/listen";
-  private streamUrl = "https://api.deepgram.com/v1/listen"; // same endpoint supports streaming with chunked uploads
+  private streamUrl = "wss://api.deepgram.com/v1/listen";
+  private model = "nova-2";
+  private streamKeepAliveMs = 8000; // Deepgram closes idle sockets after ~10s
+  private streamCloseTimeoutMs = 10000;
+  private maxKeywords = 100; // Deepgram limit per request
+  private keywordBoost = 2; // gentle boost; high values cause false positives
 
   constructor() {
-    this.apiKey = import.meta.env.VITE_DEEPGRAM_API_KEY || "";
-    if (!this.apiKey) {
-      console.warn("VITE_DEEPGRAM_API_KEY not found in environment variables");
+    // Checked against DEV first so production builds never read the key
+    this.apiKey = import.meta.env.DEV
+      ? import.meta.env.VITE_DEEPGRAM_API_KEY || ""
+      : "";
+    if (this.apiKey) {
+      console.warn(
+        "Calling Deepgram with VITE_DEEPGRAM_API_KEY. This is for local development only: the key is visible to anyone who loads the app."
+      );
     }
   }
 
+  /**
+   * Credentials for one request: the API key in development builds when set,
+   * otherwise a short-lived token from the AI proxy
+   */
+  private async getCredentials(): Promise<DeepgramCredentials> {
+    if (this.apiKey) return { scheme: "token", key: this.apiKey };
+    const { accessToken } = await aiProxyService.getTranscriptionToken();
+    return { scheme: "bearer", key: accessToken };
+  }
+
   /**
    * Transcribe video using Deepgram API
    */
-  async transcribeVideoDirectly(videoBlob: Blob): Promise<TranscriptionResult> {
+  async transcribeVideoDirectly(
+    videoBlob: Blob,
+    options: { language?: string; keywords?: string[] } = {}
+  ): Promise<TranscriptionResult> {
     // Validate video blob
     if (!videoBlob || videoBlob.size === 0) {
       throw new Error("Invalid video data: empty or missing video blob");
     }
 
-    if (!this.apiKey) {
-      throw new Error(
-        "Deepgram API key not configured. Please add VITE_DEEPGRAM_API_KEY to your .env.local file"
-      );
-    }
-
     try {
       // Transcribe using Deepgram API (send raw recorded blob to avoid CORS/HTTP2 issues)
-      const result = await this.transcribeWithDeepgram(videoBlob);
+      const result = await this.transcribeWithDeepgram(
+        videoBlob,
+        options.language,
+        options.keywords
+      );
 
       return result;
     } catch (error) {
@@ -73,63 +145,43 @@ class DeepgramTranscriptionService {
   /**
    * Extract audio from video blob
    */
-  private async extractAudioFromVideo(videoBlob: Blob): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const audio = new Audio();
-      const url = URL.createObjectURL(videoBlob);
-
-      audio.onloadedmetadata = () => {
-        // Handle invalid duration by using a reasonable default
-        let duration = audio.duration;
-        if (!isFinite(duration) || duration <= 0 || duration === Infinity) {
-          console.warn(
-            "Invalid audio duration detected, using default duration"
-          );
-          // Use a reasonable default duration for interview responses (2-3 minutes)
-          duration = 120; // 2 minutes default
-        }
-
-        // Create audio blob from video
-        const audioBlob = new Blob([videoBlob], { type: "audio/webm" });
-        URL.revokeObjectURL(url);
-        resolve(audioBlob);
-      };
-
-      audio.onerror = () => {
-        URL.revokeObjectURL(url);
-        reject(new Error("Failed to extract audio from video"));
-      };
-
-      audio.src = url;
-      audio.load();
-    });
+  private async extractAudioFromVideo(
+    videoBlob: Blob,
+    options: MediaConversionOptions = {}
+  ): Promise<Blob> {
+    return videoConversionService.extractAudio(videoBlob, options);
   }
 
   /**
    * Transcribe audio using Deepgram API
    */
   private async transcribeWithDeepgram(
-    mediaBlob: Blob
+    mediaBlob: Blob,
+    language: string = DEFAULT_LANGUAGE,
+    keywords: string[] = []
   ): Promise<TranscriptionResult> {
+    const languageConfig = getLanguageConfig(language);
     try {
-      if (!this.apiKey) {
-        throw new Error("Deepgram API key is not configured");
-      }
-
       if (!mediaBlob || mediaBlob.size === 0) {
         throw new Error("Invalid audio blob provided for transcription");
       }
 
+      const credentials = await this.getCredentials();
+
       // Add timeout to prevent hanging requests
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 120000); // 2 minute timeout
 
       const response = await fetch(
-        `${this.baseUrl}?model=nova-2&language=en&punctuate=true&diarize=false&smart_format=true&words=true&sentences=true&paragraphs=true`,
+        `${this.baseUrl}?model=${this.model}&language=${languageConfig.deepgramLanguage}&punctuate=true&diarize=false&smart_format=true&words=true&sentences=true&paragraphs=true${this.buildKeywordParams(
+          keywords
+        )}`,
         {
           method: "POST",
           headers: {
-            Authorization: `Token ${this.apiKey}`,
+            Authorization: `${
+              credentials.scheme === "token" ? "Token" : "Bearer"
+            } ${credentials.key}`,
             // Do not force Content-Type; allow browser to set boundary/type for blob
           },
           body: mediaBlob,
@@ -206,10 +258,12 @@ class DeepgramTranscriptionService {
 
       return {
         text: transcriptionText,
+        language: languageConfig.code,
         confidence,
         duration,
         words,
         sentences,
+        model: this.model,
       };
     } catch (error: any) {
       // Handle abort/timeout errors
@@ -241,81 +295,227 @@ class DeepgramTranscriptionService {
   }
 
   /**
-   * Create a lightweight streaming session that accepts audio chunks during the interview.
-   * It buffers chunks locally and performs one POST at finalize for speed.
+   * Create a streaming session that sends audio chunks to Deepgram over a WebSocket
+   * and reports interim/final words as they arrive. Chunks are also buffered so
+   * finalize can fall back to a single POST if the socket is unavailable.
    */
-  createStreamingSession(): StreamingSessionHandle {
+  createStreamingSession(
+    options: StreamingSessionOptions = {}
+  ): StreamingSessionHandle {
+    const languageConfig = getLanguageConfig(options.language);
     const buffered: Blob[] = [];
+    const finalWords: TranscribedWord[] = [];
+    const finalTranscripts: string[] = [];
+    const finalConfidences: number[] = [];
+    let streamedDuration = 0;
+    let sentCount = 0;
     let aborted = false;
+    let socketFailed = false;
+    let keepAliveId: ReturnType<typeof setInterval> | null = null;
+    let resolveClosed: () => void = () => {};
+    const closed = new Promise<void>((resolve) => {
+      resolveClosed = resolve;
+    });
+
+    let socket: WebSocket | null = null;
+    const flush = () => {
+      if (!socket || socket.readyState !== WebSocket.OPEN) return;
+      while (sentCount < buffered.length) {
+        socket.send(buffered[sentCount]);
+        sentCount++;
+      }
+    };
+
+    const listen = (ws: WebSocket) => {
+      ws.onopen = () => {
+        flush();
+        keepAliveId = setInterval(() => {
+          if (socket?.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify({ type: "KeepAlive" }));
+          }
+        }, this.streamKeepAliveMs);
+      };
+
+      ws.onmessage = (event: MessageEvent<string>) => {
+        let data: DeepgramStreamMessage;
+        try {
+          data = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        if (data?.type !== "Results") return;
+
+        const alternative = data.channel?.alternatives?.[0];
+        if (!alternative) return;
+
+        const words: TranscribedWord[] = (alternative.words || []).map((w) => ({
+          word: w.punctuated_word ?? w.word ?? "",
+          start: typeof w.start === "number" ? w.start : 0,
+          end: typeof w.end === "number" ? w.end : 0,
+          confidence:
+            typeof w.confidence === "number" ? w.confidence : undefined,
+        }));
+        const transcript = alternative.transcript || "";
+        const isFinal = Boolean(data.is_final);
+
+        if (isFinal && transcript.trim().length > 0) {
+          finalWords.push(...words);
+          finalTranscripts.push(transcript.trim());
+          if (typeof alternative.confidence === "number") {
+            finalConfidences.push(alternative.confidence);
+          }
+        }
+        if (isFinal && typeof data.start === "number") {
+          streamedDuration = Math.max(
+            streamedDuration,
+            data.start + (data.duration || 0)
+          );
+        }
+
+        options.onTranscript?.({ transcript, words, isFinal });
+      };
+
+      ws.onerror = (event) => {
+        console.warn("Deepgram streaming socket error:", event);
+        socketFailed = true;
+      };
+
+      ws.onclose = (event) => {
+        if (keepAliveId) clearInterval(keepAliveId);
+        keepAliveId = null;
+        // 1000 is the normal close Deepgram sends after CloseStream
+        if (event.code !== 1000) socketFailed = true;
+        resolveClosed();
+      };
+    };
+
+    // The socket opens once credentials arrive; chunks buffer until then
+    let connecting: Promise<void> = Promise.resolve();
+    if (typeof WebSocket === "undefined") {
+      socketFailed = true;
+    } else {
+      connecting = this.getCredentials()
+        .then((credentials) => {
+          if (aborted) return;
+          socket = new WebSocket(
+            `${this.streamUrl}?model=${this.model}&language=${languageConfig.deepgramLanguage}&punctuate=true&smart_format=true&interim_results=true${this.buildKeywordParams(
+              options.keywords
+            )}`,
+            [credentials.scheme, credentials.key]
+          );
+          listen(socket);
+        })
+        .catch((error) => {
+          console.warn(
+            "Deepgram streaming unavailable, buffering audio:",
+            error
+          );
+          socketFailed = true;
+        });
+    }
 
     const pushChunk = async (chunk: Blob) => {
       if (aborted) return;
-      if (chunk && chunk.size > 0) buffered.push(chunk);
+      if (chunk && chunk.size > 0) {
+        buffered.push(chunk);
+        flush();
+      }
     };
 
     const finalize = async (): Promise<TranscriptionResult> => {
       if (aborted) throw new Error("Streaming session aborted");
+      await connecting;
+
+      if (socket && !socketFailed) {
+        flush();
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ type: "CloseStream" }));
+        }
+        await Promise.race([
+          closed,
+          new Promise<void>((resolve) =>
+            setTimeout(resolve, this.streamCloseTimeoutMs)
+          ),
+        ]);
+
+        if (!socketFailed && finalTranscripts.length > 0) {
+          const confidence =
+            finalConfidences.length > 0
+              ? finalConfidences.reduce((sum, c) => sum + c, 0) /
+                finalConfidences.length
+              : 0.8;
+          return {
+            text: finalTranscripts.join(" "),
+            language: languageConfig.code,
+            duration: streamedDuration,
+            confidence,
+            words: finalWords,
+            sentences: buildSentencesFromWords(finalWords),
+            model: this.model,
+            streamed: true,
+          };
+        }
+      }
+
+      // Socket never connected or dropped mid-session: upload the buffered
+      // audio. The recording can't be cut at the last finalized word, so the
+      // streamed part is sent again and both are billed.
       const mime =
         buffered.length > 0 ? buffered[0].type || "audio/webm" : "audio/webm";
       const full = new Blob(buffered, { type: mime });
-      return await this.transcribeWithDeepgram(full);
+      const result = await this.transcribeWithDeepgram(
+        full,
+        languageConfig.code,
+        options.keywords
+      );
+      return streamedDuration > 0
+        ? { ...result, droppedStreamSeconds: streamedDuration }
+        : result;
     };
 
     const abort = () => {
       aborted = true;
       buffered.splice(0, buffered.length);
+      if (keepAliveId) clearInterval(keepAliveId);
+      if (socket && socket.readyState <= WebSocket.OPEN) {
+        socket.close();
+      }
     };
 
-    return { pushChunk, finalize, abort };
+    const isLive = () =>
+      !aborted &&
+      !socketFailed &&
+      !!socket &&
+      socket.readyState === WebSocket.OPEN;
+
+    return { pushChunk, finalize, abort, isLive };
   }
 
   /**
-   * Analyze speech patterns
+   * Turn session vocabulary into `keywords` query params. Deepgram boosts
+   * single words, so phrases are split and very short words skipped.
    */
-  analyzeSpeechPatterns(text: string): SpeechAnalysis {
-    const words = text.split(/\s+/).filter((word) => word.length > 0);
-    const wordCount = words.length;
-
-    // Calculate speaking rate (words per minute)
-    const duration = Math.max(1, 60); // Assume 1 minute for analysis
-    const speakingRate = Math.round((wordCount / duration) * 60);
-
-    // Count filler words
-    const fillerWords = [
-      "um",
-      "uh",
-      "like",
-      "you know",
-      "so",
-      "well",
-      "actually",
-      "basically",
-      "literally",
-      "honestly",
-      "obviously",
-    ];
-    const fillerCount = words.filter((word) =>
-      fillerWords.includes(word.toLowerCase())
-    ).length;
-
-    // Find actual filler words
-    const foundFillerWords = words.filter((word) =>
-      fillerWords.includes(word.toLowerCase())
+  private buildKeywordParams(keywords: string[] = []): string {
+    const words = new Set<string>();
+    keywords.forEach((term) =>
+      term.split(/\s+/).forEach((word) => {
+        if (word.length > 2) words.add(word);
+      })
     );
-
-    return {
-      wordCount,
-      speakingRate,
-      fillerWords: foundFillerWords,
-      confidence: Math.max(0, 1 - fillerCount / wordCount),
-    };
+    return Array.from(words)
+      .slice(0, this.maxKeywords)
+      .map(
+        (word) => `&keywords=${encodeURIComponent(word)}:${this.keywordBoost}`
+      )
+      .join("");
   }
 
   /**
    * Check if service is supported
    */
   isAudioAnalysisSupported(): boolean {
-    return !!this.apiKey;
+    // Without a development key the AI proxy issues tokens on demand
+    return typeof fetch !== "undefined";
   }
 
   /**
@@ -323,7 +523,7 @@ class DeepgramTranscriptionService {
    */
   getBrowserCapabilities() {
     return {
-      deepgramAPI: !!this.apiKey,
+      deepgramAPI: this.isAudioAnalysisSupported(),
       mediaRecorder: "MediaRecorder" in window,
       getUserMedia: "getUserMedia" in navigator.mediaDevices,
     };
@@ -4,6 +4,7 @@ import {
   questionClassificationService,
   ClassifiedQuestion,
 } from "./questionClassificationService";
+import { DEFAULT_LANGUAGE, type InterviewLanguage } from "@/config/languages";
 
 type InterviewSession =
   Database["public"]["Tables"]["interview_sessions"]["Row"];
@@ -20,6 +21,7 @@ export interface InterviewConfig {
   selectedField?: string;
   useUserQuestions?: boolean;
   selectedUserQuestions?: string[];
+  language?: InterviewLanguage;
 }
 
 export interface CreateSessionData {
@@ -28,6 +30,14 @@ export interface CreateSessionData {
   config: InterviewConfig;
 }
 
+export interface RecoveredSessionData {
+  userId: string;
+  interviewType: string;
+  config: Partial<InterviewConfig>;
+  questionIds: string[]; // from the recording's question timeline
+  duration: number; // minutes
+}
+
 export interface QuestionResponse {
   questionId: string | number; // Can be string (UUID for user questions) or number (for app questions)
   responseText: string;
@@ -65,7 +75,8 @@ export class InterviewSessionService {
         data.config.selectedField,
         data.config.questionCount, // Use user's selected question count
         data.config.useCustomQuestions,
-        data.config.customQuestions || []
+        data.config.customQuestions || [],
+        data.config.language
       );
 
       if (questions.length === 0) {
@@ -85,6 +96,7 @@ export class InterviewSessionService {
           useCustomQuestions: data.config.useCustomQuestions,
           customQuestions: data.config.customQuestions || [],
           selectedField: data.config.selectedField,
+          language: data.config.language || DEFAULT_LANGUAGE,
         },
         questions_asked: questions.map((q) => q.question_id),
         completed_at: null,
@@ -147,6 +159,43 @@ export class InterviewSessionService {
     }
   }
 
+  /**
+   * Create the session for a recovered recording whose tab was lost before
+   * one was created. Its questions come from the recording, not a new fetch.
+   */
+  async createRecoveredSession(data: RecoveredSessionData): Promise<string> {
+    const { data: session, error } = await supabase
+      .from("interview_sessions")
+      .insert({
+        user_id: data.userId,
+        interview_type: data.interviewType,
+        duration: data.duration,
+        interview_config: {
+          duration: data.duration,
+          questionCount: data.questionIds.length,
+          useCustomQuestions: data.config.useCustomQuestions ?? false,
+          customQuestions: data.config.customQuestions || [],
+          selectedField: data.config.selectedField,
+          language: data.config.language || DEFAULT_LANGUAGE,
+        },
+        questions_asked: data.questionIds,
+        completed_at: null,
+      })
+      .select("id")
+      .single();
+
+    if (error || !session) {
+      console.error("Error creating recovered session:", error);
+      throw new Error(
+        `Failed to create interview session: ${
+          error?.message || "No data returned"
+        }`
+      );
+    }
+
+    return session.id;
+  }
+
   /**
    * Fetch questions for interview based on type and domain
    */
@@ -155,7 +204,8 @@ export class InterviewSessionService {
     customDomain?: string,
     count: number = 15,
     useCustomQuestions: boolean = false,
-    customQuestions: string[] = []
+    customQuestions: string[] = [],
+    language: string = DEFAULT_LANGUAGE
   ): Promise<InterviewQuestion[]> {
     try {
       // If using custom questions, return mock question objects
@@ -169,6 +219,7 @@ export class InterviewSessionService {
           focus_areas: ["Custom"],
           difficulty: "Medium" as any,
           is_active: true,
+          language,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         }));
@@ -178,7 +229,7 @@ export class InterviewSessionService {
         .from("interview_questions")
         .select("*")
         .eq("is_active", true)
-        .limit(count);
+        .in("language", [language, DEFAULT_LANGUAGE]);
 
       if (interviewType === "custom" && customDomain) {
         query = query
@@ -230,8 +281,15 @@ export class InterviewSessionService {
         return [];
       }
 
+      // Prefer questions in the session language, falling back to English
+      const localized = data.filter((row) => row.language === language);
+      const rows =
+        localized.length > 0
+          ? localized
+          : data.filter((row) => row.language === DEFAULT_LANGUAGE);
+
       // Randomize order for variety
-      const shuffled = data.sort(() => Math.random() - 0.5);
+      const shuffled = rows.sort(() => Math.random() - 0.5).slice(0, count);
 
       // Transform database rows to InterviewQuestion format
       const transformedQuestions = shuffled.map((row) => ({
@@ -243,6 +301,7 @@ export class InterviewSessionService {
         focus_areas: row.focus_areas || [],
         difficulty: row.difficulty,
         is_active: row.is_active,
+        language: row.language,
         created_at: row.created_at,
         updated_at: row.updated_at,
       }));
@@ -314,9 +373,17 @@ export class InterviewSessionService {
         questionId = Number(response.questionId);
       }
 
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error("You must be signed in to save responses");
+      }
+
       const responseData = {
         session_id: sessionId,
         question_id: questionId,
+        user_id: session.user.id,
         response_text: response.responseText,
         duration: Math.round(response.duration), // Convert to integer
       };
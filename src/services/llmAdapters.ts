@@ -0,0 +1,282 @@
+/**
+ * LLM Provider Adapters
+ * Chat completions behind one interface, with adapters for OpenRouter, the
+ * direct Anthropic and OpenAI APIs, and OpenAI-compatible local servers.
+ * Requests and responses use the OpenAI chat-completions shape and the app's
+ * OpenRouter model ids; each adapter translates to its own API. This module
+ * has no browser dependencies so the serverless AI proxy can use it too.
+ */
+
+import type {
+  LLMProviderConfig,
+  LLMProviderId,
+} from "../config/llmProviders";
+import { MODEL_CONFIG } from "../config/openRouter";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: "json_object" };
+}
+
+export interface ChatCompletionResponse {
+  id: string;
+  model: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export type UsagePurpose =
+  | "answer_analysis"
+  | "question_classification"
+  | "summary_themes"
+  | "summary_feedback"
+  | "summary_next_steps"
+  | "other";
+
+export const USAGE_PURPOSES: UsagePurpose[] = [
+  "answer_analysis",
+  "question_classification",
+  "summary_themes",
+  "summary_feedback",
+  "summary_next_steps",
+  "other",
+];
+
+/**
+ * What a request is for, recorded with it in the usage ledger by the proxy
+ */
+export interface UsageContext {
+  purpose: UsagePurpose;
+  sessionId?: string;
+  attempt?: number; // 1 for the first try, higher for retries
+}
+
+export interface LLMProvider {
+  readonly config: LLMProviderConfig;
+  complete(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    usage?: UsageContext
+  ): Promise<ChatCompletionResponse>;
+}
+
+// Anthropic requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 2000;
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type ProviderModels = Partial<Record<LLMProviderId, string>>;
+
+const getProviderModels = (model: string): ProviderModels =>
+  (MODEL_CONFIG as Record<string, { providerModels?: ProviderModels }>)[model]
+    ?.providerModels || {};
+
+/**
+ * Map an app model id onto the id the provider's API expects
+ */
+export function resolveProviderModel(
+  config: LLMProviderConfig,
+  model: string
+): string {
+  if (config.modelOverride) return config.modelOverride;
+  // The proxy resolves ids with its own provider configuration
+  if (config.provider === "openrouter" || config.provider === "proxy") {
+    return model;
+  }
+
+  const direct = getProviderModels(model)[config.provider];
+  if (direct) return direct;
+  if (model.startsWith(`${config.provider}/`)) {
+    return model.slice(config.provider.length + 1);
+  }
+
+  // A model from another vendor: use the first one this provider serves
+  const substitute = Object.keys(MODEL_CONFIG)
+    .map((id) => getProviderModels(id)[config.provider])
+    .find(Boolean);
+  if (!substitute) {
+    throw new Error(`${config.name} has no model configured for ${model}`);
+  }
+  return substitute;
+}
+
+/**
+ * Map a provider's model id back onto an app model id, or null when the app
+ * doesn't know the model
+ */
+export function toAppModelId(
+  provider: LLMProviderId,
+  providerModel: string
+): string | null {
+  return (
+    Object.keys(MODEL_CONFIG).find(
+      (id) =>
+        id === providerModel ||
+        id === `${provider}/${providerModel}` ||
+        getProviderModels(id)[provider] === providerModel
+    ) ?? null
+  );
+}
+
+const readError = async (response: Response, name: string) =>
+  new Error(`${name} API error: ${response.status} - ${await response.text()}`);
+
+/**
+ * OpenRouter, OpenAI and local servers all speak the chat-completions API
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(readonly config: LLMProviderConfig) {}
+
+  async complete(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    const model = resolveProviderModel(this.config, request.model);
+    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        ...this.config.extraHeaders,
+        ...(this.config.apiKey
+          ? { Authorization: `Bearer ${this.config.apiKey}` }
+          : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...request, model }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await readError(response, this.config.name);
+    }
+
+    const data: ChatCompletionResponse = await response.json();
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error(`No choices returned from ${this.config.name} API`);
+    }
+
+    // Some local servers leave out usage
+    const usage = data.usage || {
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+    };
+    return { ...data, model: data.model || model, usage };
+  }
+}
+
+interface AnthropicMessageResponse {
+  id: string;
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Anthropic Messages API
+ */
+class AnthropicProvider implements LLMProvider {
+  constructor(readonly config: LLMProviderConfig) {}
+
+  async complete(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    const model = resolveProviderModel(this.config, request.model);
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    const messages = request.messages.filter(
+      (message) => message.role !== "system"
+    );
+    // There is no JSON mode, so the reply is prefilled to start an object
+    const prefill = request.response_format?.type === "json_object" ? "{" : "";
+
+    const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        ...this.config.extraHeaders,
+        "x-api-key": this.config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "anthropic-dangerous-direct-browser-access": "true",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.max_tokens || DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        ...(system ? { system } : {}),
+        messages: prefill
+          ? [...messages, { role: "assistant", content: prefill }]
+          : messages,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await readError(response, this.config.name);
+    }
+
+    const data: AnthropicMessageResponse = await response.json();
+    const text = data.content
+      .filter((block) => block.type === "text")
+      .map((block) => block.text || "")
+      .join("");
+    if (!text && !prefill) {
+      throw new Error(`No content returned from ${this.config.name} API`);
+    }
+
+    return {
+      id: data.id,
+      model: data.model || model,
+      choices: [
+        {
+          message: { role: "assistant", content: prefill + text },
+          finish_reason:
+            data.stop_reason === "max_tokens"
+              ? "length"
+              : data.stop_reason === "end_turn"
+              ? "stop"
+              : data.stop_reason || "stop",
+        },
+      ],
+      usage: {
+        prompt_tokens: data.usage.input_tokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: data.usage.input_tokens + data.usage.output_tokens,
+      },
+    };
+  }
+}
+
+/**
+ * Build the adapter for a direct provider configuration
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case "anthropic":
+      return new AnthropicProvider(config);
+    case "proxy":
+      throw new Error("The AI proxy is not a direct provider");
+    default:
+      return new OpenAICompatibleProvider(config);
+  }
+}
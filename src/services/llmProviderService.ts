@@ -0,0 +1,94 @@
+/**
+ * LLM Provider Service
+ * The browser's chat-completion provider: the serverless AI proxy by default,
+ * or a direct adapter (see llmAdapters) when VITE_LLM_PROVIDER selects one.
+ */
+
+import {
+  getLLMProviderConfig,
+  type LLMProviderConfig,
+} from "../config/llmProviders";
+import { ProxyProvider } from "./aiProxyService";
+import {
+  createLLMProvider,
+  resolveProviderModel,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type LLMProvider,
+  type UsageContext,
+} from "./llmAdapters";
+
+export type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  LLMProvider,
+  UsageContext,
+  UsagePurpose,
+} from "./llmAdapters";
+
+class LLMProviderService {
+  private provider: LLMProvider | null = null;
+
+  /**
+   * The configured provider, created on first use
+   */
+  getProvider(): LLMProvider {
+    if (!this.provider) {
+      const config = getLLMProviderConfig();
+      this.provider =
+        config.provider === "proxy"
+          ? new ProxyProvider(config)
+          : createLLMProvider(config);
+    }
+    return this.provider;
+  }
+
+  getConfig(): LLMProviderConfig {
+    return this.getProvider().config;
+  }
+
+  /**
+   * Check whether the provider has the credentials it needs
+   */
+  isConfigured(): boolean {
+    const config = this.getConfig();
+    return !config.apiKeyEnvVar || !!config.apiKey;
+  }
+
+  /**
+   * Local models cost nothing per token; the proxy bills like its provider
+   */
+  isBillable(): boolean {
+    return this.getConfig().provider !== "local";
+  }
+
+  /**
+   * The id the provider's API will receive for an app model id
+   */
+  resolveModel(model: string): string {
+    return resolveProviderModel(this.getConfig(), model);
+  }
+
+  /**
+   * Explain what is missing when the provider is not configured
+   */
+  getSetupMessage(): string {
+    const config = this.getConfig();
+    return `${config.name} API key is required. Please check your ${config.apiKeyEnvVar} environment variable.`;
+  }
+
+  /**
+   * Send a chat completion to the configured provider
+   */
+  complete(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal,
+    usage?: UsageContext
+  ): Promise<ChatCompletionResponse> {
+    return this.getProvider().complete(request, signal, usage);
+  }
+}
+
+export const llmProviderService = new LLMProviderService();
+export default llmProviderService;
@@ -0,0 +1,231 @@
+/**
+ * Local Transcription Service
+ * On-device speech-to-text using a Whisper model running in a Web Worker.
+ * Used when the user prefers offline transcription or the remote provider fails.
+ */
+
+import type {
+  TranscribedWord,
+  TranscriptionResult,
+} from "./deepgramTranscriptionService";
+import type {
+  LocalModelSource,
+  LocalTranscriptionMessage,
+  WhisperOutput,
+} from "../workers/localTranscription.worker";
+import { DEFAULT_LANGUAGE, getLanguageConfig } from "../config/languages";
+import { decodeToMonoPcm, SPEECH_SAMPLE_RATE } from "../utils/audioDecoding";
+import { buildSentencesFromWords } from "../utils/transcriptSentences";
+
+export interface LocalTranscriptionOptions {
+  language?: string;
+  onProgress?: (stage: "loading" | "transcribing", progress: number) => void;
+}
+
+interface PendingJob {
+  resolve: (output: WhisperOutput) => void;
+  reject: (error: Error) => void;
+  onProgress?: LocalTranscriptionOptions["onProgress"];
+}
+
+// Whisper does not report per-word confidence, so results carry a fixed estimate
+const LOCAL_CONFIDENCE = 0.75;
+
+class LocalTranscriptionService {
+  private worker: Worker | null = null;
+  private pendingJobs = new Map<string, PendingJob>();
+  private model: string =
+    import.meta.env.VITE_LOCAL_WHISPER_MODEL || "Xenova/whisper-tiny.en";
+  private modelSource: LocalModelSource = {
+    localModelPath: import.meta.env.VITE_LOCAL_WHISPER_MODEL_PATH || undefined,
+    allowRemoteModels:
+      import.meta.env.VITE_LOCAL_WHISPER_ALLOW_REMOTE !== "false",
+    wasmPath: import.meta.env.VITE_LOCAL_WHISPER_WASM_PATH || undefined,
+  };
+
+  /**
+   * Check whether the browser can run the local model
+   */
+  isSupported(): boolean {
+    return (
+      typeof window !== "undefined" &&
+      typeof Worker !== "undefined" &&
+      typeof WebAssembly !== "undefined" &&
+      typeof OfflineAudioContext !== "undefined"
+    );
+  }
+
+  /**
+   * Get the Whisper checkpoint used for local transcription
+   */
+  getModelName(language: string = DEFAULT_LANGUAGE): string {
+    // English-only checkpoints (*.en) cannot transcribe other languages, so
+    // switch to the multilingual checkpoint of the same size
+    const isEnglish = getLanguageConfig(language).code === "en";
+    if (!isEnglish && this.model.endsWith(".en")) {
+      return this.model.slice(0, -".en".length);
+    }
+    return this.model;
+  }
+
+  /**
+   * Transcribe video locally
+   */
+  async transcribeVideoDirectly(
+    videoBlob: Blob,
+    options: LocalTranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    if (!videoBlob || videoBlob.size === 0) {
+      throw new Error("Invalid video data: empty or missing video blob");
+    }
+
+    if (!this.isSupported()) {
+      throw new Error(
+        "Local transcription is not supported in this browser (requires Web Workers and WebAssembly)"
+      );
+    }
+
+    try {
+      // Whisper expects 16kHz mono PCM
+      const audio = await decodeToMonoPcm(videoBlob);
+      const duration = audio.length / SPEECH_SAMPLE_RATE;
+      const output = await this.runWorker(audio, options);
+
+      const language = getLanguageConfig(options.language).code;
+      return this.toTranscriptionResult(
+        output,
+        duration,
+        language,
+        this.getModelName(language)
+      );
+    } catch (error) {
+      console.error("Error in local transcription:", error);
+      throw new Error(
+        `Local transcription failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Stop the worker and reject any in-flight jobs
+   */
+  terminate(): void {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.pendingJobs.forEach((job) =>
+      job.reject(new Error("Local transcription worker terminated"))
+    );
+    this.pendingJobs.clear();
+  }
+
+  /**
+   * Lazily create the worker and route its messages to pending jobs
+   */
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    this.worker = new Worker(
+      new URL("../workers/localTranscription.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    this.worker.onmessage = (
+      event: MessageEvent<LocalTranscriptionMessage>
+    ) => {
+      const message = event.data;
+      const job = this.pendingJobs.get(message.id);
+      if (!job) return;
+
+      switch (message.type) {
+        case "progress":
+          job.onProgress?.(message.stage, message.progress);
+          break;
+        case "result":
+          this.pendingJobs.delete(message.id);
+          job.resolve(message.output);
+          break;
+        case "error":
+          this.pendingJobs.delete(message.id);
+          job.reject(new Error(message.message));
+          break;
+      }
+    };
+
+    this.worker.onerror = (event) => {
+      console.error("Local transcription worker error:", event);
+      this.terminate();
+    };
+
+    return this.worker;
+  }
+
+  /**
+   * Send decoded audio to the worker and wait for its result
+   */
+  private runWorker(
+    audio: Float32Array,
+    options: LocalTranscriptionOptions
+  ): Promise<WhisperOutput> {
+    const worker = this.getWorker();
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const languageConfig = getLanguageConfig(options.language);
+
+    return new Promise((resolve, reject) => {
+      this.pendingJobs.set(id, {
+        resolve,
+        reject,
+        onProgress: options.onProgress,
+      });
+      worker.postMessage(
+        {
+          type: "transcribe",
+          id,
+          audio,
+          model: this.getModelName(languageConfig.code),
+          language: languageConfig.whisperLanguage,
+          source: this.modelSource,
+        },
+        [audio.buffer]
+      );
+    });
+  }
+
+  /**
+   * Map Whisper output onto the shared TranscriptionResult shape
+   */
+  private toTranscriptionResult(
+    output: WhisperOutput,
+    duration: number,
+    language: string,
+    model: string
+  ): TranscriptionResult {
+    const words: TranscribedWord[] = (output.chunks || [])
+      .map((chunk) => {
+        const [start, end] = chunk.timestamp;
+        return {
+          word: chunk.text.trim(),
+          start,
+          end: end ?? start,
+          confidence: LOCAL_CONFIDENCE,
+        };
+      })
+      .filter((w) => w.word.length > 0);
+
+    return {
+      text: (output.text || "").trim(),
+      language,
+      duration,
+      confidence: LOCAL_CONFIDENCE,
+      words,
+      sentences: buildSentencesFromWords(words),
+      model,
+    };
+  }
+}
+
+export const localTranscriptionService = new LocalTranscriptionService();
+export default localTranscriptionService;
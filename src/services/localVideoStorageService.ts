@@ -1,14 +1,30 @@
-interface LocalVideoMetadata {
+import type { CaptureMode } from "@/utils/screenComposition";
+import type { TranscribedWord } from "./deepgramTranscriptionService";
+import {
+  recordingEncryptionService,
+  type EncryptionInfo,
+  type ReencryptResult,
+} from "./recordingEncryptionService";
+import {
+  videoConversionService,
+  type MediaConversionOptions,
+} from "./videoConversionService";
+
+export interface LocalVideoMetadata {
   sessionId: string;
   timestamp: number;
   duration: number;
   size: number;
   format: string;
+  captureMode?: CaptureMode; // "screen" recordings have a camera overlay
+  waveform?: number[]; // peak levels for audio-only recordings
   transcription?: {
     text: string;
     confidence: number;
     duration: number;
+    words?: TranscribedWord[]; // full-recording timings, used for captions
   };
+  segments?: RecordedAnswer[]; // where each answer sits in the recording
   aiFeedback?: {
     overallScore: number;
     strengths: string[];
@@ -17,10 +33,20 @@ interface LocalVideoMetadata {
   };
 }
 
-interface StoredVideoData {
+export interface RecordedAnswer {
+  questionId: string;
+  questionText: string;
+  start: number; // seconds into the recording
+  end: number; // seconds into the recording
+}
+
+export interface StoredVideoData {
   metadata: LocalVideoMetadata;
   videoBlob: ArrayBuffer;
   audioBlob?: ArrayBuffer;
+  // Present when the buffers are encrypted; metadata is stored as is
+  encryption?: EncryptionInfo;
+  audioEncryption?: EncryptionInfo;
 }
 
 class LocalVideoStorageService {
@@ -100,11 +126,11 @@ class LocalVideoStorageService {
       ? await audioBlob.arrayBuffer()
       : undefined;
 
-    const storedData: StoredVideoData = {
+    const storedData = await this.encryptRecord({
       metadata: videoMetadata,
       videoBlob: videoArrayBuffer,
       audioBlob: audioArrayBuffer,
-    };
+    });
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([this.storeName], "readwrite");
@@ -125,9 +151,36 @@ class LocalVideoStorageService {
   }
 
   /**
-   * Retrieve video data by session ID
+   * Retrieve video data by session ID, downloading the cloud backup when
+   * this device has no copy
    */
   async getVideo(sessionId: string): Promise<StoredVideoData | null> {
+    const local = await this.getLocalVideo(sessionId);
+    if (local) return local;
+
+    try {
+      const { cloudBackupService } = await import("./cloudBackupService");
+      if (await cloudBackupService.restoreSession(sessionId)) {
+        return await this.getLocalVideo(sessionId);
+      }
+    } catch (error) {
+      console.warn("Failed to restore video from cloud backup:", error);
+    }
+    return null;
+  }
+
+  /**
+   * Retrieve video data stored on this device only
+   */
+  async getLocalVideo(sessionId: string): Promise<StoredVideoData | null> {
+    const stored = await this.getStoredVideo(sessionId);
+    return stored ? this.decryptRecord(stored) : null;
+  }
+
+  /**
+   * Retrieve a record exactly as stored, still encrypted if encryption is on
+   */
+  async getStoredVideo(sessionId: string): Promise<StoredVideoData | null> {
     if (!this.db) {
       await this.initialize();
     }
@@ -210,8 +263,8 @@ class LocalVideoStorageService {
       await this.initialize();
     }
 
-    // First get the existing data
-    const existingData = await this.getVideo(sessionId);
+    // First get the existing data; buffers stay encrypted if they are
+    const existingData = await this.getStoredVideo(sessionId);
     if (!existingData) {
       throw new Error("Video not found");
     }
@@ -241,6 +294,121 @@ class LocalVideoStorageService {
     });
   }
 
+  /**
+   * Rewrite every record with the current encryption key, or as plain data
+   * when encryption has been turned off
+   */
+  async reencryptAll(): Promise<ReencryptResult> {
+    const records = await this.getAllRecords();
+    const result: ReencryptResult = { updated: 0, failed: 0 };
+
+    for (const record of records) {
+      try {
+        const updated = await this.encryptRecord(
+          await this.decryptRecord(record)
+        );
+        await this.putRecord(updated);
+        result.updated += 1;
+      } catch (error) {
+        console.error(
+          `Failed to re-encrypt video ${record.metadata.sessionId}:`,
+          error
+        );
+        result.failed += 1;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Delete every encrypted record, returning how many were removed
+   */
+  async deleteEncrypted(): Promise<number> {
+    const records = await this.getAllRecords();
+    const encrypted = records.filter((record) => record.encryption);
+    for (const record of encrypted) {
+      await this.deleteVideo(record.metadata.sessionId);
+    }
+    return encrypted.length;
+  }
+
+  private async encryptRecord(
+    record: StoredVideoData
+  ): Promise<StoredVideoData> {
+    const video = await recordingEncryptionService.encrypt(record.videoBlob);
+    if (!video) return record;
+
+    const audio = record.audioBlob
+      ? await recordingEncryptionService.encrypt(record.audioBlob)
+      : null;
+    return {
+      metadata: record.metadata,
+      videoBlob: video.data,
+      encryption: video.encryption,
+      audioBlob: audio?.data,
+      audioEncryption: audio?.encryption,
+    };
+  }
+
+  private async decryptRecord(
+    record: StoredVideoData
+  ): Promise<StoredVideoData> {
+    if (!record.encryption) return record;
+
+    return {
+      metadata: record.metadata,
+      videoBlob: await recordingEncryptionService.decrypt(
+        record.videoBlob,
+        record.encryption
+      ),
+      audioBlob:
+        record.audioBlob && record.audioEncryption
+          ? await recordingEncryptionService.decrypt(
+              record.audioBlob,
+              record.audioEncryption
+            )
+          : record.audioBlob,
+    };
+  }
+
+  private async getAllRecords(): Promise<StoredVideoData[]> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], "readonly");
+      const request = transaction.objectStore(this.storeName).getAll();
+
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+
+      request.onerror = () => {
+        reject(new Error("Failed to retrieve videos"));
+      };
+    });
+  }
+
+  private async putRecord(record: StoredVideoData): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.storeName], "readwrite");
+      const request = transaction.objectStore(this.storeName).put(record);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error("Failed to store video"));
+      };
+    });
+  }
+
   /**
    * Get storage usage statistics
    */
@@ -333,53 +501,11 @@ class LocalVideoStorageService {
   /**
    * Extract audio from video blob for processing
    */
-  async extractAudioFromVideo(videoBlob: Blob): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const video = document.createElement("video");
-      const audioContext = new (window.AudioContext ||
-        (window as any).webkitAudioContext)();
-
-      video.onloadedmetadata = async () => {
-        try {
-          const stream = video.captureStream();
-          const audioTracks = stream.getAudioTracks();
-
-          if (audioTracks.length === 0) {
-            throw new Error("No audio track found in video");
-          }
-
-          const mediaStream = new MediaStream(audioTracks);
-          const mediaRecorder = new MediaRecorder(mediaStream);
-          const chunks: BlobPart[] = [];
-
-          mediaRecorder.ondataavailable = (event) => {
-            if (event.data.size > 0) {
-              chunks.push(event.data);
-            }
-          };
-
-          mediaRecorder.onstop = () => {
-            const audioBlob = new Blob(chunks, { type: "audio/webm" });
-            resolve(audioBlob);
-          };
-
-          mediaRecorder.start();
-
-          // Record for the duration of the video
-          setTimeout(() => {
-            mediaRecorder.stop();
-          }, video.duration * 1000);
-        } catch (error) {
-          reject(error);
-        }
-      };
-
-      video.onerror = () => {
-        reject(new Error("Failed to load video for audio extraction"));
-      };
-
-      video.src = URL.createObjectURL(videoBlob);
-    });
+  async extractAudioFromVideo(
+    videoBlob: Blob,
+    options: MediaConversionOptions = {}
+  ): Promise<Blob> {
+    return videoConversionService.extractAudio(videoBlob, options);
   }
 
   /**
@@ -0,0 +1,241 @@
+/**
+ * Media Job Service
+ * Queues ffmpeg jobs (conversion, remuxing, audio extraction, clip export)
+ * and runs them one at a time in a Web Worker so long recordings never block
+ * the page. Jobs report progress and can be cancelled with an AbortSignal.
+ */
+
+import type {
+  MediaJobFile,
+  MediaJobMessage,
+  MediaJobRequest,
+} from "../workers/mediaJob.worker";
+
+export type MediaJobStage = "queued" | "loading" | "processing";
+
+export interface MediaJob {
+  files: { name: string; data: Blob | Uint8Array }[];
+  args: string[];
+  output: string;
+  outputType: string;
+  fallbackArgs?: string[];
+}
+
+export interface MediaJobOptions {
+  onProgress?: (progress: number, stage: MediaJobStage) => void; // 0 to 1
+  signal?: AbortSignal;
+  // Expected output length in seconds, for steadier progress than ffmpeg's
+  duration?: number;
+}
+
+interface QueuedJob {
+  id: string;
+  job: MediaJob;
+  options: MediaJobOptions;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+  onAbort: () => void;
+}
+
+const createAbortError = () =>
+  new DOMException("Media job cancelled", "AbortError");
+
+/**
+ * Whether an error came from cancelling a media job
+ */
+export const isMediaJobCancelled = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+class MediaJobService {
+  private worker: Worker | null = null;
+  private queue: QueuedJob[] = [];
+  private current: QueuedJob | null = null;
+
+  /**
+   * Check whether the browser can run media jobs
+   */
+  isSupported(): boolean {
+    return (
+      typeof window !== "undefined" &&
+      typeof Worker !== "undefined" &&
+      typeof WebAssembly !== "undefined"
+    );
+  }
+
+  /**
+   * Queue a job and resolve with its output file
+   */
+  run(job: MediaJob, options: MediaJobOptions = {}): Promise<Blob> {
+    if (!this.isSupported()) {
+      return Promise.reject(
+        new Error(
+          "Media processing is not supported in this browser (requires Web Workers and WebAssembly)"
+        )
+      );
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const queued: QueuedJob = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+        job,
+        options,
+        resolve,
+        reject,
+        onAbort: () => this.cancel(queued),
+      };
+      options.signal?.addEventListener("abort", queued.onAbort, {
+        once: true,
+      });
+      this.queue.push(queued);
+      options.onProgress?.(0, "queued");
+      void this.next();
+    });
+  }
+
+  /**
+   * Cancel every queued and running job
+   */
+  cancelAll(): void {
+    for (const job of [...this.queue]) this.cancel(job);
+    if (this.current) this.cancel(this.current);
+  }
+
+  /**
+   * Start the next queued job when the worker is free
+   */
+  private async next(): Promise<void> {
+    if (this.current) return;
+    const queued = this.queue.shift();
+    if (!queued) return;
+    this.current = queued;
+
+    try {
+      const files: MediaJobFile[] = await Promise.all(
+        queued.job.files.map(async (file) => ({
+          name: file.name,
+          data:
+            file.data instanceof Blob
+              ? new Uint8Array(await file.data.arrayBuffer())
+              : file.data,
+        }))
+      );
+      // Cancelled while the inputs were being read
+      if (this.current !== queued) return;
+
+      const request: MediaJobRequest = {
+        type: "run",
+        id: queued.id,
+        files,
+        args: queued.job.args,
+        output: queued.job.output,
+        fallbackArgs: queued.job.fallbackArgs,
+      };
+      this.getWorker().postMessage(
+        request,
+        files.map((file) => file.data.buffer)
+      );
+    } catch (error) {
+      this.finish(queued);
+      queued.reject(
+        error instanceof Error ? error : new Error("Failed to start media job")
+      );
+    }
+  }
+
+  /**
+   * Drop a job; a running job stops with its worker, which is recreated for
+   * the next one
+   */
+  private cancel(queued: QueuedJob): void {
+    if (this.current === queued) {
+      this.worker?.terminate();
+      this.worker = null;
+    } else {
+      const index = this.queue.indexOf(queued);
+      if (index === -1) return;
+      this.queue.splice(index, 1);
+    }
+    this.finish(queued);
+    queued.reject(createAbortError());
+  }
+
+  private finish(queued: QueuedJob): void {
+    queued.options.signal?.removeEventListener("abort", queued.onAbort);
+    if (this.current === queued) {
+      this.current = null;
+      void this.next();
+    }
+  }
+
+  /**
+   * Lazily create the worker and route its messages to the running job
+   */
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    this.worker = new Worker(
+      new URL("../workers/mediaJob.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+
+    this.worker.onmessage = (event: MessageEvent<MediaJobMessage>) => {
+      const message = event.data;
+      const queued = this.current;
+      if (!queued || queued.id !== message.id) return;
+
+      switch (message.type) {
+        case "progress":
+          queued.options.onProgress?.(
+            this.toProgress(message, queued.options.duration),
+            message.stage
+          );
+          break;
+        case "result":
+          this.finish(queued);
+          queued.options.onProgress?.(1, "processing");
+          queued.resolve(
+            new Blob([message.data as BlobPart], {
+              type: queued.job.outputType,
+            })
+          );
+          break;
+        case "error":
+          this.finish(queued);
+          queued.reject(new Error(message.message));
+          break;
+      }
+    };
+
+    this.worker.onerror = (event) => {
+      console.error("Media job worker error:", event);
+      this.worker?.terminate();
+      this.worker = null;
+      const queued = this.current;
+      if (queued) {
+        this.finish(queued);
+        queued.reject(new Error("Media job worker crashed"));
+      }
+    };
+
+    return this.worker;
+  }
+
+  private toProgress(
+    message: Extract<MediaJobMessage, { type: "progress" }>,
+    duration?: number
+  ): number {
+    if (message.stage === "loading") return 0;
+    // ffmpeg reports the output position in microseconds
+    const progress =
+      duration && duration > 0
+        ? message.time / 1e6 / duration
+        : message.progress;
+    return Math.min(1, Math.max(0, progress || 0));
+  }
+}
+
+export const mediaJobService = new MediaJobService();
+export default mediaJobService;
@@ -0,0 +1,208 @@
+/**
+ * Model Routing Service
+ * Picks the model that scores an answer from the user's routing table, an
+ * ordered list of rules matching interview type, custom domain and answer
+ * length. Models lacking the capabilities an interview type needs, or whose
+ * context window cannot hold the prompt, are skipped, and the remaining
+ * candidates are returned in order so callers can fall back when one fails.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  MODEL_CONFIG,
+  MODEL_SELECTION,
+  REQUIRED_CAPABILITIES,
+  type ModelCapability,
+  type ModelId,
+} from "../config/openRouter";
+
+export type RoutedInterviewType = keyof typeof MODEL_SELECTION;
+
+export interface ModelRoutingRule {
+  id: string;
+  interviewType: RoutedInterviewType | null; // null matches any type
+  customDomain: string | null; // case-insensitive, null matches any domain
+  minWords: number | null;
+  maxWords: number | null;
+  model: string;
+}
+
+export interface ModelRouteInput {
+  interviewType: string;
+  customDomain?: string | null;
+  answerText?: string;
+  promptChars?: number; // length of the full prompt, system prompt included
+  maxOutputTokens?: number;
+}
+
+// Rough English average, enough to keep prompts clear of the context limit
+const CHARS_PER_TOKEN = 4;
+
+const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+  starAnalysis: "STAR analysis",
+  technicalAnalysis: "technical analysis",
+  communicationAnalysis: "communication analysis",
+  patternDetection: "pattern detection",
+  behavioralAssessment: "behavioral assessment",
+  leadershipAssessment: "leadership assessment",
+};
+
+const isRoutedType = (type: string): type is RoutedInterviewType =>
+  type in MODEL_SELECTION;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Check whether a rule applies to an answer
+ */
+export function matchesRule(
+  rule: ModelRoutingRule,
+  input: ModelRouteInput
+): boolean {
+  if (rule.interviewType && rule.interviewType !== input.interviewType) {
+    return false;
+  }
+  if (
+    rule.customDomain &&
+    rule.customDomain.trim().toLowerCase() !==
+      (input.customDomain || "").trim().toLowerCase()
+  ) {
+    return false;
+  }
+  const words = countWords(input.answerText || "");
+  if (rule.minWords !== null && words < rule.minWords) return false;
+  if (rule.maxWords !== null && words > rule.maxWords) return false;
+  return true;
+}
+
+/**
+ * Explain why a model cannot score an interview type, or null when it can
+ */
+export function getModelIneligibility(
+  model: string,
+  interviewType: string | null,
+  promptTokens = 0
+): string | null {
+  const config = MODEL_CONFIG[model as ModelId];
+  if (!config) return `${model} is not a supported model`;
+
+  if (interviewType && isRoutedType(interviewType)) {
+    const missing = REQUIRED_CAPABILITIES[interviewType].filter(
+      (capability) => !config.capabilities[capability]
+    );
+    if (missing.length > 0) {
+      return `${config.name} does not support ${missing
+        .map((capability) => CAPABILITY_LABELS[capability])
+        .join(" or ")}`;
+    }
+  }
+
+  if (promptTokens > config.contextWindow) {
+    return `${config.name} cannot fit a prompt of about ${promptTokens} tokens`;
+  }
+  return null;
+}
+
+class ModelRoutingService {
+  private rulesCache = new Map<string, ModelRoutingRule[]>();
+
+  /**
+   * Load a user's routing table, or an empty one when none is saved
+   */
+  async getRules(userId: string): Promise<ModelRoutingRule[]> {
+    const cached = this.rulesCache.get(userId);
+    if (cached) return cached;
+
+    const { data, error } = await supabase
+      .from("model_routing_rules")
+      .select("rules")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) {
+      console.warn("Failed to load model routing rules:", error);
+      return [];
+    }
+
+    const rules = Array.isArray(data?.rules)
+      ? (data.rules as unknown as ModelRoutingRule[])
+      : [];
+    this.rulesCache.set(userId, rules);
+    return rules;
+  }
+
+  /**
+   * Save a user's routing table
+   */
+  async saveRules(userId: string, rules: ModelRoutingRule[]): Promise<void> {
+    const { error } = await supabase.from("model_routing_rules").upsert({
+      user_id: userId,
+      rules: rules as unknown as Json,
+      updated_at: new Date().toISOString(),
+    });
+    if (error) {
+      throw new Error(`Failed to save model routing: ${error.message}`);
+    }
+    this.rulesCache.set(userId, rules);
+  }
+
+  /**
+   * Built-in model for an interview type, used when no rule matches
+   */
+  getDefaultModel(interviewType: string): string {
+    return isRoutedType(interviewType)
+      ? MODEL_SELECTION[interviewType]
+      : MODEL_SELECTION.custom;
+  }
+
+  /**
+   * Eligible models for an answer, best first: matching rules in table
+   * order, then the built-in choice, then any other capable model
+   */
+  async getCandidateModels(
+    input: ModelRouteInput,
+    userId?: string
+  ): Promise<string[]> {
+    const rules = await this.getRulesForUser(userId);
+    const promptTokens =
+      Math.ceil((input.promptChars || 0) / CHARS_PER_TOKEN) +
+      (input.maxOutputTokens || 0);
+    const defaultModel = this.getDefaultModel(input.interviewType);
+
+    const ordered = [
+      ...rules
+        .filter((rule) => matchesRule(rule, input))
+        .map((rule) => rule.model),
+      defaultModel,
+      ...Object.keys(MODEL_CONFIG),
+    ];
+    const candidates = [...new Set(ordered)].filter((model) => {
+      const issue = getModelIneligibility(
+        model,
+        input.interviewType,
+        promptTokens
+      );
+      if (issue && rules.some((rule) => rule.model === model)) {
+        console.warn(`Skipping routed model ${model}: ${issue}`);
+      }
+      return !issue;
+    });
+
+    // Nothing qualifies; the built-in choice is still better than no answer
+    return candidates.length > 0 ? candidates : [defaultModel];
+  }
+
+  private async getRulesForUser(userId?: string): Promise<ModelRoutingRule[]> {
+    try {
+      const id =
+        userId || (await supabase.auth.getSession()).data.session?.user.id;
+      return id ? await this.getRules(id) : [];
+    } catch (error) {
+      console.warn("Failed to resolve model routing rules:", error);
+      return [];
+    }
+  }
+}
+
+export const modelRoutingService = new ModelRoutingService();
+export default modelRoutingService;
@@ -1,6 +1,8 @@
 /**
  * OpenRouter API Service for AI Analysis
- * Handles model selection, API calls, cost tracking, and error handling
+ * Handles model selection, API calls, cost tracking, and error handling.
+ * Completions go through llmProviderService, so the configured provider may
+ * be OpenRouter, Anthropic, OpenAI or a local model.
  */
 
 import {
@@ -13,54 +15,38 @@ import {
   FillerWords,
 } from "../types/aiAnalysis";
 import { rateLimiter } from "./rateLimiter";
-import { getOpenRouterApiKey } from "../utils/env";
+import { getFeedbackLanguageInstruction } from "../config/languages";
+import {
+  MODEL_CONFIG,
+  MODEL_SELECTION,
+  type ModelId,
+} from "../config/openRouter";
+import {
+  llmProviderService,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type UsageContext,
+} from "./llmProviderService";
+import { modelRoutingService } from "./modelRoutingService";
+import { isProxyQuotaError } from "./aiProxyService";
 
 // Model configuration
 export const MODELS = {
-  BEHAVIORAL_LEADERSHIP: "anthropic/claude-3-haiku",
-  TECHNICAL_CUSTOM: "openai/gpt-3.5-turbo",
-} as const;
-
-// Model pricing (per token in dollars)
-export const MODEL_COSTS = {
-  "anthropic/claude-3-haiku": {
-    input: 0.25 / 1_000_000, // $0.25 per 1M input tokens
-    output: 1.25 / 1_000_000, // $1.25 per 1M output tokens
-  },
-  "openai/gpt-3.5-turbo": {
-    input: 0.5 / 1_000_000, // $0.50 per 1M input tokens
-    output: 1.5 / 1_000_000, // $1.50 per 1M output tokens
-  },
+  BEHAVIORAL_LEADERSHIP: MODEL_SELECTION.behavioral,
+  TECHNICAL_CUSTOM: MODEL_SELECTION.technical,
 } as const;
 
-// OpenRouter API interfaces
-export interface OpenRouterRequest {
-  model: string;
-  messages: Array<{
-    role: "system" | "user" | "assistant";
-    content: string;
-  }>;
-  temperature?: number;
-  max_tokens?: number;
-  response_format?: { type: "json_object" };
-}
+// Model pricing (per token in dollars), from MODEL_CONFIG
+export const MODEL_COSTS = Object.fromEntries(
+  Object.entries(MODEL_CONFIG).map(([model, config]) => [
+    model,
+    { input: config.inputCostPerToken, output: config.outputCostPerToken },
+  ])
+) as Record<ModelId, { input: number; output: number }>;
 
-export interface OpenRouterResponse {
-  id: string;
-  model: string;
-  choices: Array<{
-    message: {
-      role: string;
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+// Kept under their original names for existing callers
+export type OpenRouterRequest = ChatCompletionRequest;
+export type OpenRouterResponse = ChatCompletionResponse;
 
 // Analysis result interface
 export interface AIAnalysisResult {
@@ -89,8 +75,6 @@ export interface CostCalculation {
 
 // Service configuration
 export interface OpenRouterConfig {
-  apiKey: string;
-  baseUrl: string;
   maxRetries: number;
   timeoutMs: number;
   defaultTemperature: number;
@@ -99,57 +83,15 @@ export interface OpenRouterConfig {
 
 class OpenRouterService {
   private config: OpenRouterConfig;
-  private defaultHeaders: Record<string, string>;
 
   constructor(config?: Partial<OpenRouterConfig>) {
     this.config = {
-      apiKey: config?.apiKey || "", // Will be set dynamically
-      baseUrl: config?.baseUrl || "https://openrouter.ai/api/v1",
       maxRetries: config?.maxRetries || 3,
-      timeoutMs: config?.timeoutMs || 30000,
+      // Defaults to the provider's own timeout
+      timeoutMs: config?.timeoutMs || 0,
       defaultTemperature: config?.defaultTemperature || 0.7,
       defaultMaxTokens: config?.defaultMaxTokens || 2000,
     };
-
-    // Don't set headers in constructor - will be set dynamically
-    this.defaultHeaders = {
-      Authorization: "",
-      "HTTP-Referer":
-        import.meta.env.VITE_SITE_URL || "https://amplifyinterview.com",
-      "X-Title": "Amplify Interview",
-      "Content-Type": "application/json",
-    };
-  }
-
-  /**
-   * Get API key dynamically from environment
-   */
-  private getApiKey(): string {
-    // Try config first, then environment variables
-    if (this.config.apiKey) {
-      return this.config.apiKey;
-    }
-
-    // Use the environment utility to get the API key
-    const apiKey = getOpenRouterApiKey();
-
-    if (!apiKey) {
-      console.warn(
-        "OpenRouter API key not found. Check VITE_OPENROUTER_API_KEY environment variable."
-      );
-    }
-
-    return apiKey;
-  }
-
-  /**
-   * Get headers with dynamic API key
-   */
-  private getHeaders(): Record<string, string> {
-    return {
-      ...this.defaultHeaders,
-      Authorization: `Bearer ${this.getApiKey()}`,
-    };
   }
 
   /**
@@ -173,13 +115,15 @@ class OpenRouterService {
     inputTokens: number,
     outputTokens: number
   ): CostCalculation {
-    const modelCost = MODEL_COSTS[model as keyof typeof MODEL_COSTS];
+    const modelCost = MODEL_COSTS[model as ModelId];
     if (!modelCost) {
       throw new Error(`Unknown model: ${model}`);
     }
 
-    const inputCost = inputTokens * modelCost.input;
-    const outputCost = outputTokens * modelCost.output;
+    // Local models are free to run
+    const billable = llmProviderService.isBillable();
+    const inputCost = billable ? inputTokens * modelCost.input : 0;
+    const outputCost = billable ? outputTokens * modelCost.output : 0;
     const totalCostCents = Math.ceil((inputCost + outputCost) * 100);
 
     return {
@@ -193,35 +137,35 @@ class OpenRouterService {
   }
 
   /**
-   * Call OpenRouter API with retry logic and rate limiting
+   * Call the configured LLM provider with retry logic and rate limiting.
+   * The AI proxy records every attempt in the usage ledger under
+   * `options.usage`.
    */
   public async callOpenRouterWithRetry(
     request: OpenRouterRequest,
-    maxRetries?: number
+    options?: { maxRetries?: number; usage?: UsageContext }
   ): Promise<OpenRouterResponse> {
-    // Check if API key is available
-    const apiKey = this.getApiKey();
-    if (!apiKey) {
-      throw new Error(
-        "OpenRouter API key is required. Please check your VITE_OPENROUTER_API_KEY environment variable."
-      );
+    // Check if the provider has its API key
+    if (!llmProviderService.isConfigured()) {
+      throw new Error(llmProviderService.getSetupMessage());
     }
+    const providerName = llmProviderService.getConfig().name;
 
-    const retries = maxRetries || this.config.maxRetries;
+    const retries = options?.maxRetries || this.config.maxRetries;
     let lastError: Error;
 
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
         // Use rate limiter for API calls
         const response = await rateLimiter.add(() =>
-          this.callOpenRouter(request)
+          this.callOpenRouter(request, options?.usage, attempt)
         );
         return response;
       } catch (error) {
         lastError = error as Error;
 
-        // Don't retry on authentication errors
-        if (this.isAuthError(error)) {
+        // Don't retry on authentication or quota errors
+        if (this.isNonRetryableError(error)) {
           throw error;
         }
 
@@ -229,7 +173,7 @@ class OpenRouterService {
           // Exponential backoff: 2^attempt seconds
           const delay = Math.pow(2, attempt) * 1000;
           console.warn(
-            `OpenRouter attempt ${attempt} failed, retrying in ${delay}ms`
+            `${providerName} attempt ${attempt} failed, retrying in ${delay}ms`
           );
           await this.sleep(delay);
         }
@@ -237,63 +181,80 @@ class OpenRouterService {
     }
 
     throw new Error(
-      `OpenRouter failed after ${retries} attempts: ${lastError.message}`
+      `${providerName} failed after ${retries} attempts: ${lastError.message}`
     );
   }
 
   /**
-   * Make a single API call to OpenRouter
+   * Try each model in turn until one answers, so a model that is down or
+   * withdrawn falls back to the next eligible one
+   */
+  public async callWithModelFallback(
+    models: string[],
+    request: Omit<OpenRouterRequest, "model">,
+    usage?: UsageContext
+  ): Promise<{ response: OpenRouterResponse; model: string }> {
+    const tried = new Set<string>();
+    let lastError: Error | null = null;
+
+    for (const model of models) {
+      try {
+        // Models served by the same provider model would fail the same way
+        const providerModel = llmProviderService.resolveModel(model);
+        if (tried.has(providerModel)) continue;
+        tried.add(providerModel);
+
+        const response = await this.callOpenRouterWithRetry(
+          { ...request, model },
+          { usage }
+        );
+        return { response, model };
+      } catch (error) {
+        if (this.isNonRetryableError(error)) throw error;
+        lastError = error as Error;
+        console.warn(`Model ${model} failed, trying the next one:`, error);
+      }
+    }
+
+    throw lastError || new Error("No model available for this request");
+  }
+
+  /**
+   * Make a single call to the configured provider
    */
   private async callOpenRouter(
-    request: OpenRouterRequest
+    request: OpenRouterRequest,
+    usage: UsageContext = { purpose: "other" },
+    attempt = 1
   ): Promise<OpenRouterResponse> {
+    const { name, timeoutMs: providerTimeoutMs } =
+      llmProviderService.getConfig();
+    const timeoutMs = this.config.timeoutMs || providerTimeoutMs;
     const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeoutMs
-    );
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
     try {
-      const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: this.getHeaders(),
-        body: JSON.stringify(request),
-        signal: controller.signal,
+      return await llmProviderService.complete(request, controller.signal, {
+        ...usage,
+        attempt,
       });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `OpenRouter API error: ${response.status} - ${errorText}`
-        );
-      }
-
-      const data: OpenRouterResponse = await response.json();
-
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error("No choices returned from OpenRouter API");
-      }
-
-      return data;
     } catch (error) {
-      clearTimeout(timeoutId);
-
       if (error.name === "AbortError") {
-        throw new Error(
-          `OpenRouter API timeout after ${this.config.timeoutMs}ms`
-        );
+        throw new Error(`${name} API timeout after ${timeoutMs}ms`);
       }
 
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
   /**
-   * Check if error is authentication-related (don't retry)
+   * Check if error is authentication-related or an exhausted proxy quota,
+   * which another attempt or model cannot fix
    */
-  private isAuthError(error: any): boolean {
+  private isNonRetryableError(error: any): boolean {
+    if (isProxyQuotaError(error)) return true;
     if (error.message && typeof error.message === "string") {
       return (
         error.message.includes("401") ||
@@ -330,6 +291,7 @@ class OpenRouterService {
       model?: string;
       includeExample?: boolean;
       customPrompt?: string;
+      language?: string; // interview language the feedback should be written in
     }
   ): Promise<{
     analysis: AIAnalysisResult;
@@ -339,9 +301,8 @@ class OpenRouterService {
       completion_tokens: number;
       total_tokens: number;
     };
+    model: string; // the model that produced the analysis
   }> {
-    const model =
-      options?.model || this.selectModel(questionData.interview_type);
     const prompt =
       options?.customPrompt ||
       this.generateAnalysisPrompt(
@@ -349,13 +310,16 @@ class OpenRouterService {
         questionData,
         options?.includeExample
       );
+    const systemPrompt = this.getSystemPrompt(
+      questionData.interview_type,
+      options?.language
+    );
 
-    const request: OpenRouterRequest = {
-      model,
+    const request: Omit<OpenRouterRequest, "model"> = {
       messages: [
         {
           role: "system",
-          content: this.getSystemPrompt(questionData.interview_type),
+          content: systemPrompt,
         },
         {
           role: "user",
@@ -368,7 +332,26 @@ class OpenRouterService {
     };
 
     try {
-      const response = await this.callOpenRouterWithRetry(request);
+      const models = options?.model
+        ? [options.model]
+        : await modelRoutingService.getCandidateModels(
+            {
+              interviewType: questionData.interview_type,
+              customDomain: questionData.custom_domain,
+              answerText: responseText,
+              promptChars: systemPrompt.length + prompt.length,
+              maxOutputTokens: this.config.defaultMaxTokens,
+            },
+            sessionData.user_id
+          );
+      const { response, model } = await this.callWithModelFallback(
+        models,
+        request,
+        {
+          purpose: "answer_analysis",
+          sessionId: sessionData.session_id,
+        }
+      );
       const content = response.choices[0].message.content;
 
       // Try to parse JSON robustly
@@ -390,6 +373,7 @@ class OpenRouterService {
         analysis,
         cost,
         usage: response.usage,
+        model,
       };
     } catch (error) {
       console.error("Error analyzing response:", error);
@@ -692,7 +676,8 @@ Please provide a detailed analysis including scoring, strengths, improvements, a
   /**
    * Get system prompt based on interview type
    */
-  private getSystemPrompt(interviewType: string): string {
+  private getSystemPrompt(interviewType: string, language?: string): string {
+    const languageInstruction = getFeedbackLanguageInstruction(language);
     const basePrompt = `You are an expert interview coach analyzing interview responses. Provide objective, constructive feedback with specific scores and actionable recommendations.
 
 Return your analysis as a JSON object with the following structure:
@@ -714,7 +699,8 @@ Return your analysis as a JSON object with the following structure:
         basePrompt +
         `
 
-Focus on STAR method structure, leadership qualities, and behavioral examples.`
+Focus on STAR method structure, leadership qualities, and behavioral examples.` +
+        languageInstruction
       );
     }
 
@@ -723,11 +709,12 @@ Focus on STAR method structure, leadership qualities, and behavioral examples.`
         basePrompt +
         `
 
-Focus on technical accuracy, problem-solving approach, and domain knowledge.`
+Focus on technical accuracy, problem-solving approach, and domain knowledge.` +
+        languageInstruction
       );
     }
 
-    return basePrompt;
+    return basePrompt + languageInstruction;
   }
 
   /**
@@ -943,8 +930,15 @@ export const openRouterService = {
     openRouterService.instance.selectModel(interviewType),
   calculateCost: (model: string, inputTokens: number, outputTokens: number) =>
     openRouterService.instance.calculateCost(model, inputTokens, outputTokens),
-  callOpenRouterWithRetry: (request: OpenRouterRequest, maxRetries?: number) =>
-    openRouterService.instance.callOpenRouterWithRetry(request, maxRetries),
+  callOpenRouterWithRetry: (
+    request: OpenRouterRequest,
+    options?: { maxRetries?: number; usage?: UsageContext }
+  ) => openRouterService.instance.callOpenRouterWithRetry(request, options),
+  callWithModelFallback: (
+    models: string[],
+    request: Omit<OpenRouterRequest, "model">,
+    usage?: UsageContext
+  ) => openRouterService.instance.callWithModelFallback(models, request, usage),
   analyzeResponse: (
     responseText: string,
     questionData: {
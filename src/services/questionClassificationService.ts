@@ -4,6 +4,7 @@
  */
 
 import { openRouterService } from "./openRouterService";
+import { spendBudgetService } from "./spendBudgetService";
 
 export interface QuestionClassification {
   type: "behavioral" | "technical" | "leadership" | "general";
@@ -52,6 +53,14 @@ class QuestionClassificationService {
 
     // Scenario 3 & 4: Custom interview type with custom questions - AI classification
     if (context.interviewType === "custom" && context.useCustomQuestions) {
+      const budget = await spendBudgetService.checkBudget(
+        undefined,
+        spendBudgetService.estimateClassificationCost(questions.length)
+      );
+      if (!budget.allowed) {
+        spendBudgetService.notifyBudgetReached(budget, "classification");
+        return this.classifyAsGeneral(questions);
+      }
       return this.classifyWithAI(questions);
     }
 
@@ -407,18 +416,21 @@ For analysis approach, choose the most appropriate evaluation method
 `;
 
     try {
-      const response = await openRouterService.callOpenRouterWithRetry({
-        model: "anthropic/claude-3-haiku",
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        temperature: 0.1,
-        max_tokens: 500,
-        response_format: { type: "json_object" },
-      });
+      const response = await openRouterService.callOpenRouterWithRetry(
+        {
+          model: "anthropic/claude-3-haiku",
+          messages: [
+            {
+              role: "user",
+              content: prompt,
+            },
+          ],
+          temperature: 0.1,
+          max_tokens: 500,
+          response_format: { type: "json_object" },
+        },
+        { usage: { purpose: "question_classification" } }
+      );
 
       const classification = JSON.parse(response.choices[0].message.content);
 
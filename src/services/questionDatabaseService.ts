@@ -1,5 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
+import { DEFAULT_LANGUAGE } from "@/config/languages";
 
 type InterviewQuestion =
   Database["public"]["Tables"]["interview_questions"]["Row"];
@@ -28,9 +29,22 @@ const dbRowToQuestion = (row: InterviewQuestion): Question => ({
   thinkingTime: 45, // Default thinking time
 });
 
+// Prefer questions in the interview language, falling back to English while
+// the localized banks are still being filled in
+const preferLanguage = (
+  rows: InterviewQuestion[],
+  language: string
+): InterviewQuestion[] => {
+  const localized = rows.filter((row) => row.language === language);
+  return localized.length > 0
+    ? localized
+    : rows.filter((row) => row.language === DEFAULT_LANGUAGE);
+};
+
 // Fetch questions from database by interview type
 export const fetchQuestionsByType = async (
-  interviewType: "behavioral" | "technical" | "leadership"
+  interviewType: "behavioral" | "technical" | "leadership",
+  language: string = DEFAULT_LANGUAGE
 ): Promise<Question[]> => {
   try {
     const { data, error } = await supabase
@@ -38,6 +52,7 @@ export const fetchQuestionsByType = async (
       .select("*")
       .eq("interview_type", interviewType)
       .eq("is_active", true)
+      .in("language", [language, DEFAULT_LANGUAGE])
       .order("created_at", { ascending: true });
 
     if (error) {
@@ -45,7 +60,7 @@ export const fetchQuestionsByType = async (
       return [];
     }
 
-    return data.map(dbRowToQuestion);
+    return preferLanguage(data, language).map(dbRowToQuestion);
   } catch (error) {
     console.error("Error fetching questions:", error);
     return [];
@@ -60,7 +75,8 @@ export const fetchQuestionsByCustomDomain = async (
     | "data_scientist"
     | "ui_ux_designer"
     | "devops_engineer"
-    | "ai_engineer"
+    | "ai_engineer",
+  language: string = DEFAULT_LANGUAGE
 ): Promise<Question[]> => {
   try {
     const { data, error } = await supabase
@@ -69,6 +85,7 @@ export const fetchQuestionsByCustomDomain = async (
       .eq("interview_type", "custom")
       .eq("custom_domain", customDomain)
       .eq("is_active", true)
+      .in("language", [language, DEFAULT_LANGUAGE])
       .order("created_at", { ascending: true });
 
     if (error) {
@@ -76,7 +93,7 @@ export const fetchQuestionsByCustomDomain = async (
       return [];
     }
 
-    return data.map(dbRowToQuestion);
+    return preferLanguage(data, language).map(dbRowToQuestion);
   } catch (error) {
     console.error("Error fetching questions by custom domain:", error);
     return [];
@@ -141,7 +158,8 @@ export const getQuestionsForInterviewFromDB = async (
   interviewType: "behavioral" | "technical" | "leadership" | "custom",
   useCustomQuestions: boolean,
   customQuestions: string[],
-  selectedField?: string
+  selectedField?: string,
+  language: string = DEFAULT_LANGUAGE
 ): Promise<Question[]> => {
   if (useCustomQuestions && customQuestions.length > 0) {
     // For custom questions, we'll classify them and store metadata
@@ -163,7 +181,7 @@ export const getQuestionsForInterviewFromDB = async (
       | "ui_ux_designer"
       | "devops_engineer"
       | "ai_engineer";
-    return await fetchQuestionsByCustomDomain(customDomain);
+    return await fetchQuestionsByCustomDomain(customDomain, language);
   }
 
   // For standard interview types, fetch from database
@@ -172,7 +190,7 @@ export const getQuestionsForInterviewFromDB = async (
     interviewType === "technical" ||
     interviewType === "leadership"
   ) {
-    return await fetchQuestionsByType(interviewType);
+    return await fetchQuestionsByType(interviewType, language);
   }
 
   // Fallback for custom without selected field
@@ -192,7 +210,8 @@ export const getQuestionsForInterview = async (
   selectedField?: string,
   useUserQuestions?: boolean,
   selectedUserQuestions?: string[],
-  userId?: string
+  userId?: string,
+  language: string = DEFAULT_LANGUAGE
 ): Promise<Question[]> => {
   try {
     // Handle user questions first
@@ -217,7 +236,8 @@ export const getQuestionsForInterview = async (
       interviewType,
       useCustomQuestions,
       customQuestions,
-      selectedField
+      selectedField,
+      language
     );
 
     if (questions.length === 0) {
@@ -0,0 +1,384 @@
+/**
+ * Recording Encryption Service
+ * Optional at-rest encryption of interview recordings with AES-GCM, using a
+ * key derived from a passphrase only the user knows. The key lives in memory
+ * for the tab's lifetime; nothing that could decrypt a recording is stored,
+ * so a forgotten passphrase means the encrypted recordings are gone for good.
+ */
+
+export interface EncryptionInfo {
+  algorithm: "AES-GCM";
+  salt: string; // base64, identifies the passphrase generation
+  iterations: number;
+  iv: string; // base64, unique per encrypted buffer
+}
+
+export interface EncryptedBuffer {
+  data: ArrayBuffer;
+  encryption: EncryptionInfo;
+}
+
+interface EncryptionSettings {
+  salt: string;
+  iterations: number;
+  // A known value encrypted with the key, used to check a passphrase
+  verifier: { iv: string; data: string };
+}
+
+export interface ReencryptResult {
+  updated: number;
+  failed: number; // encrypted under a passphrase that is no longer unlocked
+}
+
+const SETTINGS_KEY = "amplify_recordingEncryption";
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_TEXT = "amplify-recording-key";
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+class RecordingEncryptionService {
+  // Unlocked keys by salt; older generations are kept while re-encrypting
+  private keys = new Map<string, CryptoKey>();
+  // Backup keys that have not yet opened anything, so may be wrong
+  private unverified = new Set<string>();
+  // New settings being re-encrypted into; saved only once that succeeds
+  private pendingSettings: EncryptionSettings | null = null;
+
+  /**
+   * Check whether this browser can encrypt recordings
+   */
+  isSupported(): boolean {
+    return typeof crypto !== "undefined" && !!crypto.subtle;
+  }
+
+  /**
+   * Check whether recordings on this device are encrypted
+   */
+  isEnabled(): boolean {
+    return this.getSettings() !== null;
+  }
+
+  /**
+   * Check whether the passphrase has been entered in this tab
+   */
+  isUnlocked(): boolean {
+    const settings = this.getSettings();
+    return !!settings && this.keys.has(settings.salt);
+  }
+
+  /**
+   * Check whether recordings are encrypted but cannot be read yet
+   */
+  needsUnlock(): boolean {
+    return this.isEnabled() && !this.isUnlocked();
+  }
+
+  /**
+   * Turn on encryption with a new passphrase and encrypt existing recordings
+   */
+  async enable(passphrase: string): Promise<ReencryptResult> {
+    if (this.isEnabled()) {
+      throw new Error("Recording encryption is already enabled");
+    }
+    this.saveSettings(await this.createSettings(passphrase));
+    return this.reencryptAll();
+  }
+
+  /**
+   * Unlock encrypted recordings for this tab. Returns false for a wrong
+   * passphrase.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const settings = this.getSettings();
+    if (!settings) return true;
+
+    const key = await this.deriveKey(
+      passphrase,
+      settings.salt,
+      settings.iterations
+    );
+    try {
+      const text = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(settings.verifier.iv) },
+        key,
+        fromBase64(settings.verifier.data)
+      );
+      if (new TextDecoder().decode(text) !== VERIFIER_TEXT) return false;
+    } catch {
+      return false;
+    }
+
+    this.keys.set(settings.salt, key);
+    return true;
+  }
+
+  /**
+   * Forget the unlocked keys, e.g. before leaving a shared computer
+   */
+  lock(): void {
+    this.keys.clear();
+    this.unverified.clear();
+  }
+
+  /**
+   * Add the key for a recording encrypted elsewhere, e.g. a cloud backup made
+   * on another device. A wrong passphrase shows up when decrypting fails,
+   * which forgets the key again.
+   */
+  async unlockBackup(
+    passphrase: string,
+    encryption: EncryptionInfo
+  ): Promise<void> {
+    const key = await this.deriveKey(
+      passphrase,
+      encryption.salt,
+      encryption.iterations
+    );
+    if (this.keys.has(encryption.salt)) return;
+    this.keys.set(encryption.salt, key);
+    this.unverified.add(encryption.salt);
+  }
+
+  /**
+   * Check whether a recording encrypted with these settings can be opened
+   */
+  canDecrypt(encryption: EncryptionInfo): boolean {
+    return this.keys.has(encryption.salt);
+  }
+
+  /**
+   * Replace the passphrase and re-encrypt every recording with the new key.
+   * The new passphrase is only saved once every recording has moved to it.
+   */
+  async changePassphrase(
+    currentPassphrase: string,
+    newPassphrase: string
+  ): Promise<ReencryptResult> {
+    if (!(await this.unlock(currentPassphrase))) {
+      throw new Error("Current passphrase is incorrect");
+    }
+
+    const settings = await this.createSettings(newPassphrase);
+    let result: ReencryptResult;
+    this.pendingSettings = settings;
+    try {
+      result = await this.reencryptAll();
+    } finally {
+      this.pendingSettings = null;
+    }
+
+    if (result.failed > 0) {
+      // Move the recordings that were rewritten back to the saved passphrase
+      await this.reencryptAll();
+      this.keys.delete(settings.salt);
+      throw new Error(
+        `${result.failed} recording${
+          result.failed === 1 ? "" : "s"
+        } could not be opened, so the passphrase was not changed`
+      );
+    }
+
+    this.saveSettings(settings);
+    return result;
+  }
+
+  /**
+   * Turn encryption off, storing every recording as plain data again
+   */
+  async disable(passphrase: string): Promise<ReencryptResult> {
+    if (!(await this.unlock(passphrase))) {
+      throw new Error("Passphrase is incorrect");
+    }
+    localStorage.removeItem(SETTINGS_KEY);
+    return this.reencryptAll();
+  }
+
+  /**
+   * Give up on a forgotten passphrase: encrypted recordings cannot be
+   * recovered, so they are deleted and encryption is turned off
+   */
+  async resetForgottenPassphrase(): Promise<number> {
+    const { localVideoStorageService } = await import(
+      "./localVideoStorageService"
+    );
+    const { answerClipStorageService } = await import(
+      "./answerClipStorageService"
+    );
+    const deleted =
+      (await localVideoStorageService.deleteEncrypted()) +
+      (await answerClipStorageService.deleteEncrypted());
+
+    localStorage.removeItem(SETTINGS_KEY);
+    this.lock();
+    return deleted;
+  }
+
+  /**
+   * Encrypt a buffer with the current key, or return null when encryption is
+   * off. Throws if encryption is on but the passphrase has not been entered.
+   */
+  async encrypt(data: ArrayBuffer): Promise<EncryptedBuffer | null> {
+    const settings = this.pendingSettings ?? this.getSettings();
+    if (!settings) return null;
+
+    const key = this.keys.get(settings.salt);
+    if (!key) throw new Error("Enter your passphrase to save recordings");
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      data
+    );
+    return {
+      data: encrypted,
+      encryption: {
+        algorithm: "AES-GCM",
+        salt: settings.salt,
+        iterations: settings.iterations,
+        iv: toBase64(iv),
+      },
+    };
+  }
+
+  /**
+   * Decrypt a buffer encrypted by `encrypt`
+   */
+  async decrypt(
+    data: ArrayBuffer,
+    encryption: EncryptionInfo
+  ): Promise<ArrayBuffer> {
+    const key = this.keys.get(encryption.salt);
+    if (!key) throw new Error("Enter your passphrase to open recordings");
+
+    try {
+      const decrypted = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(encryption.iv) },
+        key,
+        data
+      );
+      this.unverified.delete(encryption.salt);
+      return decrypted;
+    } catch (error) {
+      if (this.unverified.delete(encryption.salt)) {
+        this.keys.delete(encryption.salt);
+        throw new Error("That passphrase does not match this backup");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Re-encrypt every stored recording with the current key, or store it as
+   * plain data when encryption is off
+   */
+  private async reencryptAll(): Promise<ReencryptResult> {
+    const { localVideoStorageService } = await import(
+      "./localVideoStorageService"
+    );
+    const { answerClipStorageService } = await import(
+      "./answerClipStorageService"
+    );
+    const { transcriptionCacheService } = await import(
+      "./transcriptionCacheService"
+    );
+    const videos = await localVideoStorageService.reencryptAll();
+    const clips = await answerClipStorageService.reencryptAll();
+    // Cached transcripts only save a re-upload, so drop them instead
+    await transcriptionCacheService.clear();
+
+    // Older keys are only needed until their recordings are rewritten
+    const settings = this.pendingSettings ?? this.getSettings();
+    if (videos.failed === 0 && clips.failed === 0) {
+      for (const salt of [...this.keys.keys()]) {
+        if (salt !== settings?.salt) this.keys.delete(salt);
+      }
+    }
+
+    return {
+      updated: videos.updated + clips.updated,
+      failed: videos.failed + clips.failed,
+    };
+  }
+
+  /**
+   * Derive a key for a new passphrase and build the settings that check it
+   */
+  private async createSettings(
+    passphrase: string
+  ): Promise<EncryptionSettings> {
+    if (!this.isSupported()) {
+      throw new Error("This browser cannot encrypt recordings");
+    }
+
+    const salt = toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+    const key = await this.deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const verifier = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(VERIFIER_TEXT)
+    );
+
+    const settings: EncryptionSettings = {
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: {
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(verifier)),
+      },
+    };
+    this.keys.set(salt, key);
+    return settings;
+  }
+
+  private saveSettings(settings: EncryptionSettings): void {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }
+
+  private async deriveKey(
+    passphrase: string,
+    salt: string,
+    iterations: number
+  ): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveKey"]
+    );
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt: fromBase64(salt), iterations, hash: "SHA-256" },
+      material,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  private getSettings(): EncryptionSettings | null {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn("Failed to read recording encryption settings:", error);
+      return null;
+    }
+  }
+}
+
+export const recordingEncryptionService = new RecordingEncryptionService();
+export default recordingEncryptionService;
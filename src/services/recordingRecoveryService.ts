@@ -0,0 +1,324 @@
+/**
+ * Recording Recovery Service
+ * Flushes recorder chunks to IndexedDB as they are produced, so an interview
+ * survives a crashed tab or a sleeping laptop. On the next visit the orphaned
+ * recording can be reassembled and sent through processing.
+ */
+
+import type { QuestionSegment } from "./videoSegmentService";
+import type { CaptureMode } from "../utils/screenComposition";
+import { IndexedDbStore } from "../utils/indexedDbStore";
+import {
+  recordingEncryptionService,
+  type EncryptionInfo,
+} from "./recordingEncryptionService";
+
+export type RecoverableRecordingStatus = "recording" | "processing";
+
+export interface RecoverableRecording {
+  id: string; // assigned when the interview page opens
+  sessionId: string | null; // interview_sessions.id once it is created
+  userId: string | null;
+  mimeType: string;
+  captureMode?: CaptureMode;
+  status?: RecoverableRecordingStatus; // missing on older entries
+  startedAt: number;
+  updatedAt: number; // last chunk written
+  heartbeatAt?: number; // last sign of life from the page that owns it
+  chunkCount: number;
+  size: number;
+  totalDuration: number; // seconds recorded, pauses excluded
+  questionSegments: QuestionSegment[];
+  config: unknown; // the setup config the interview page was opened with
+  interviewType: string;
+  transcriptionKeywords: string[];
+}
+
+export type RecordingProgress = Partial<
+  Pick<
+    RecoverableRecording,
+    "sessionId" | "questionSegments" | "totalDuration"
+  >
+>;
+
+interface StoredChunk {
+  recordingId: string;
+  index: number;
+  data: ArrayBuffer;
+  encryption?: EncryptionInfo; // set when recordings are encrypted
+}
+
+// How often the interview and processing pages report they are still open.
+// Chunks stop while an interview is paused, so they can't serve as one.
+export const RECOVERY_HEARTBEAT_MS = 10 * 1000;
+
+// Background tabs may only run timers once a minute, so allow a few misses
+const ORPHAN_AFTER_MS = 2 * 60 * 1000;
+// Transcoding and transcription can hold up the processing page's timers
+const PROCESSING_ORPHAN_AFTER_MS = 5 * 60 * 1000;
+
+class RecordingRecoveryService {
+  private recordingStore = "recordings";
+  private chunkStore = "chunks";
+  private store = new IndexedDbStore({
+    name: "AmplifyRecordingRecovery",
+    version: 1,
+    label: "recording recovery storage",
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(this.recordingStore)) {
+        db.createObjectStore(this.recordingStore, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(this.chunkStore)) {
+        db.createObjectStore(this.chunkStore, {
+          keyPath: ["recordingId", "index"],
+        });
+      }
+    },
+  });
+  // Writes per recording are chained so chunks land in order
+  private writes = new Map<string, Promise<void>>();
+
+  /**
+   * Check whether recordings can be persisted in this browser
+   */
+  isSupported(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  /**
+   * Register a recording before its first chunk is written. Throws while
+   * encrypted recordings are locked, since chunks could only be kept in the
+   * clear.
+   */
+  async begin(
+    recording: Omit<
+      RecoverableRecording,
+      "updatedAt" | "chunkCount" | "size" | "mimeType"
+    >
+  ): Promise<void> {
+    if (!this.isSupported()) return;
+    if (recordingEncryptionService.needsUnlock()) {
+      throw new Error("Enter your passphrase to keep a recovery copy");
+    }
+
+    const entry: RecoverableRecording = {
+      ...recording,
+      mimeType: "",
+      status: "recording",
+      updatedAt: Date.now(),
+      heartbeatAt: Date.now(),
+      chunkCount: 0,
+      size: 0,
+    };
+    await this.request(this.recordingStore, "readwrite", (store) =>
+      store.put(entry)
+    );
+  }
+
+  /**
+   * Persist one recorder chunk, along with the latest interview progress
+   */
+  appendChunk(
+    recordingId: string,
+    chunk: Blob,
+    progress: RecordingProgress = {}
+  ): Promise<void> {
+    if (!this.isSupported()) return Promise.resolve();
+
+    const previous = this.writes.get(recordingId) ?? Promise.resolve();
+    const write = previous
+      .then(() => this.writeChunk(recordingId, chunk, progress))
+      .catch((error) => {
+        console.warn("Failed to persist recording chunk:", error);
+      });
+    this.writes.set(recordingId, write);
+    return write;
+  }
+
+  /**
+   * Record that the page owning a recording is still open
+   */
+  heartbeat(recordingId: string): Promise<void> {
+    return this.update(recordingId, { heartbeatAt: Date.now() });
+  }
+
+  /**
+   * Mark a recording as handed off to processing, under the session its
+   * results are saved against
+   */
+  markProcessing(recordingId: string, sessionId: string | null): Promise<void> {
+    return this.update(recordingId, {
+      status: "processing",
+      sessionId,
+      heartbeatAt: Date.now(),
+    });
+  }
+
+  /**
+   * Get recordings left behind by an interview that never finished processing
+   */
+  async getOrphanedRecordings(
+    userId?: string
+  ): Promise<RecoverableRecording[]> {
+    if (!this.isSupported()) return [];
+
+    const recordings = await this.request<RecoverableRecording[]>(
+      this.recordingStore,
+      "readonly",
+      (store) => store.getAll()
+    );
+    const now = Date.now();
+    const isAbandoned = (recording: RecoverableRecording) => {
+      const lastSeen = recording.heartbeatAt ?? recording.updatedAt;
+      const orphanAfter =
+        recording.status === "processing"
+          ? PROCESSING_ORPHAN_AFTER_MS
+          : ORPHAN_AFTER_MS;
+      return now - lastSeen > orphanAfter;
+    };
+    return recordings
+      .filter(
+        (recording) =>
+          recording.chunkCount > 0 &&
+          isAbandoned(recording) &&
+          (!userId || !recording.userId || recording.userId === userId)
+      )
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Reassemble a persisted recording into a single blob
+   */
+  async recover(
+    recordingId: string
+  ): Promise<{ recording: RecoverableRecording; blob: Blob } | null> {
+    const recording = await this.request<RecoverableRecording | undefined>(
+      this.recordingStore,
+      "readonly",
+      (store) => store.get(recordingId)
+    );
+    if (!recording) return null;
+
+    const chunks = await this.request<StoredChunk[]>(
+      this.chunkStore,
+      "readonly",
+      (store) => store.getAll(this.chunkRange(recordingId))
+    );
+    if (chunks.length === 0) return null;
+
+    const parts: ArrayBuffer[] = [];
+    for (const chunk of chunks) {
+      parts.push(
+        chunk.encryption
+          ? await recordingEncryptionService.decrypt(
+              chunk.data,
+              chunk.encryption
+            )
+          : chunk.data
+      );
+    }
+
+    const blob = new Blob(parts, { type: recording.mimeType || "video/webm" });
+    return { recording, blob };
+  }
+
+  /**
+   * Delete a recording and its chunks, once processed or when discarded
+   */
+  async discard(recordingId: string): Promise<void> {
+    if (!this.isSupported()) return;
+
+    await this.writes.get(recordingId);
+    this.writes.delete(recordingId);
+    await this.request(this.chunkStore, "readwrite", (store) =>
+      store.delete(this.chunkRange(recordingId))
+    );
+    await this.request(this.recordingStore, "readwrite", (store) =>
+      store.delete(recordingId)
+    );
+  }
+
+  /**
+   * Apply changes to a recording's entry, in order with its chunk writes
+   */
+  private update(
+    recordingId: string,
+    changes: Partial<RecoverableRecording>
+  ): Promise<void> {
+    if (!this.isSupported()) return Promise.resolve();
+
+    const previous = this.writes.get(recordingId) ?? Promise.resolve();
+    const write = previous
+      .then(async () => {
+        const recording = await this.request<
+          RecoverableRecording | undefined
+        >(this.recordingStore, "readonly", (store) => store.get(recordingId));
+        if (!recording) return;
+        await this.request(this.recordingStore, "readwrite", (store) =>
+          store.put({ ...recording, ...changes })
+        );
+      })
+      .catch((error) => {
+        console.warn("Failed to update recoverable recording:", error);
+      });
+    this.writes.set(recordingId, write);
+    return write;
+  }
+
+  private async writeChunk(
+    recordingId: string,
+    chunk: Blob,
+    progress: RecordingProgress
+  ): Promise<void> {
+    const recording = await this.request<RecoverableRecording | undefined>(
+      this.recordingStore,
+      "readonly",
+      (store) => store.get(recordingId)
+    );
+    if (!recording) return;
+
+    // Throws if the passphrase was locked mid-interview, so nothing is
+    // written in the clear
+    const data = await chunk.arrayBuffer();
+    const encrypted = await recordingEncryptionService.encrypt(data);
+    const stored: StoredChunk = {
+      recordingId,
+      index: recording.chunkCount,
+      data: encrypted?.data ?? data,
+      encryption: encrypted?.encryption,
+    };
+    await this.request(this.chunkStore, "readwrite", (store) =>
+      store.put(stored)
+    );
+
+    const updated: RecoverableRecording = {
+      ...recording,
+      ...progress,
+      mimeType: recording.mimeType || chunk.type,
+      updatedAt: Date.now(),
+      chunkCount: recording.chunkCount + 1,
+      size: recording.size + chunk.size,
+    };
+    await this.request(this.recordingStore, "readwrite", (store) =>
+      store.put(updated)
+    );
+  }
+
+  private chunkRange(recordingId: string): IDBKeyRange {
+    return IDBKeyRange.bound([recordingId, 0], [recordingId, Infinity]);
+  }
+
+  /**
+   * Run a single request against one of the recovery stores
+   */
+  private request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return this.store.request<T>(storeName, mode, run);
+  }
+}
+
+export const recordingRecoveryService = new RecordingRecoveryService();
+export default recordingRecoveryService;
@@ -0,0 +1,384 @@
+/**
+ * Session Bundle Service
+ * Exports a whole interview session as a single zip: the recording, answer
+ * clips, transcripts and the Supabase rows behind the results page. The same
+ * bundle can be imported into another account or machine, where it is
+ * restored as a new session owned by the importing user.
+ */
+
+import { zip, unzip, strToU8, strFromU8, type AsyncZippable } from "fflate";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { getFileExtension } from "../utils/videoFormatSupport";
+import {
+  localVideoStorageService,
+  type LocalVideoMetadata,
+} from "./localVideoStorageService";
+import {
+  answerClipStorageService,
+  type AnswerClipMetadata,
+} from "./answerClipStorageService";
+
+type Tables = Database["public"]["Tables"];
+type SessionRow = Tables["interview_sessions"]["Row"];
+type ResponseRow = Tables["interview_responses"]["Row"];
+type AnalysisRow = Tables["interview_analysis"]["Row"];
+type SummaryRow = Tables["interview_summary"]["Row"];
+
+export interface BundleTranscript {
+  questionNumber: number;
+  questionId: number;
+  question: string;
+  transcript: string;
+  originalTranscript: string | null;
+  durationSeconds: number | null;
+  editedAt: string | null;
+}
+
+export interface SessionBundleManifest {
+  schemaVersion: number;
+  exportedAt: string;
+  sessionId: string;
+  interviewType: string;
+  recording: { file: string; metadata: LocalVideoMetadata } | null;
+  audioFile: string | null;
+  clips: { file: string; metadata: AnswerClipMetadata }[];
+}
+
+export interface SessionImportResult {
+  sessionId: string;
+  responses: number;
+  hasRecording: boolean;
+  clips: number;
+}
+
+export const SESSION_BUNDLE_SCHEMA_VERSION = 1;
+
+const FILES = {
+  manifest: "manifest.json",
+  session: "data/interview_session.json",
+  responses: "data/interview_responses.json",
+  analysis: "data/interview_analysis.json",
+  summary: "data/interview_summary.json",
+  transcriptJson: "transcripts/transcript.json",
+  transcriptText: "transcripts/transcript.txt",
+};
+
+// Recordings are already compressed, so deflating them only costs time
+const STORED = { level: 0 } as const;
+
+const toJson = (value: unknown) => strToU8(JSON.stringify(value, null, 2));
+
+// fflate's buffers are typed as ArrayBufferLike, which Blob does not accept
+const toBlob = (data: Uint8Array, type: string) =>
+  new Blob([data as BlobPart], { type });
+
+const zipAsync = (files: AsyncZippable) =>
+  new Promise<Uint8Array>((resolve, reject) =>
+    zip(files, (error, data) => (error ? reject(error) : resolve(data)))
+  );
+
+const unzipAsync = (data: Uint8Array) =>
+  new Promise<Record<string, Uint8Array>>((resolve, reject) =>
+    unzip(data, (error, files) => (error ? reject(error) : resolve(files)))
+  );
+
+class SessionBundleService {
+  /**
+   * Build the zip bundle for a session
+   */
+  async exportSession(sessionId: string): Promise<Blob> {
+    const { data: session, error: sessionError } = await supabase
+      .from("interview_sessions")
+      .select("*")
+      .eq("id", sessionId)
+      .single();
+    if (sessionError || !session) {
+      throw new Error(
+        `Session not found: ${sessionError?.message || sessionId}`
+      );
+    }
+
+    const [responses, analysis, summary] = await Promise.all([
+      supabase
+        .from("interview_responses")
+        .select("*")
+        .eq("session_id", sessionId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("interview_analysis")
+        .select("*")
+        .eq("session_id", sessionId),
+      supabase
+        .from("interview_summary")
+        .select("*")
+        .eq("session_id", sessionId)
+        .maybeSingle(),
+    ]);
+    if (responses.error) throw responses.error;
+    if (analysis.error) throw analysis.error;
+    if (summary.error) throw summary.error;
+
+    const transcripts = await this.buildTranscripts(responses.data || []);
+    const files: AsyncZippable = {
+      [FILES.session]: toJson(session),
+      [FILES.responses]: toJson(responses.data || []),
+      [FILES.analysis]: toJson(analysis.data || []),
+      [FILES.summary]: toJson(summary.data),
+      [FILES.transcriptJson]: toJson(transcripts),
+      [FILES.transcriptText]: strToU8(
+        this.formatTranscriptText(session, transcripts)
+      ),
+    };
+
+    const manifest: SessionBundleManifest = {
+      schemaVersion: SESSION_BUNDLE_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      sessionId,
+      interviewType: session.interview_type,
+      recording: null,
+      audioFile: null,
+      clips: [],
+    };
+
+    const video = await localVideoStorageService.getVideo(sessionId);
+    if (video) {
+      const file = `recording.${getFileExtension(video.metadata.format)}`;
+      files[file] = [new Uint8Array(video.videoBlob), STORED];
+      manifest.recording = { file, metadata: video.metadata };
+      if (video.audioBlob) {
+        manifest.audioFile = "recording-audio.webm";
+        files[manifest.audioFile] = [new Uint8Array(video.audioBlob), STORED];
+      }
+    }
+
+    const clips = await answerClipStorageService.getSessionClips(sessionId);
+    for (const clip of clips) {
+      const file = `clips/${clip.metadata.questionId}.${getFileExtension(
+        clip.metadata.format
+      )}`;
+      files[file] = [new Uint8Array(await clip.blob.arrayBuffer()), STORED];
+      manifest.clips.push({ file, metadata: clip.metadata });
+    }
+
+    files[FILES.manifest] = toJson(manifest);
+    return toBlob(await zipAsync(files), "application/zip");
+  }
+
+  /**
+   * Export a session and save the zip through the browser
+   */
+  async downloadSession(sessionId: string): Promise<void> {
+    const bundle = await this.exportSession(sessionId);
+    const url = URL.createObjectURL(bundle);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `interview-${sessionId}.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Restore a bundle as a new session owned by the signed-in user. Rows get
+   * fresh ids so the same bundle can be imported more than once.
+   */
+  async importSession(file: Blob): Promise<SessionImportResult> {
+    const {
+      data: { session: authSession },
+    } = await supabase.auth.getSession();
+    const userId = authSession?.user.id;
+    if (!userId) throw new Error("Sign in to import a session");
+
+    const files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+    const manifest = this.readJson<SessionBundleManifest>(
+      files,
+      FILES.manifest
+    );
+    if (!manifest.schemaVersion) {
+      throw new Error("This file is not an interview session bundle");
+    }
+    if (manifest.schemaVersion > SESSION_BUNDLE_SCHEMA_VERSION) {
+      throw new Error(
+        "This bundle was exported by a newer version of the app. Please update and try again."
+      );
+    }
+
+    const session = this.readJson<SessionRow>(files, FILES.session);
+    const responses = this.readJson<ResponseRow[]>(files, FILES.responses);
+    const analysis = this.readJson<AnalysisRow[]>(files, FILES.analysis);
+    const summary = this.readJson<SummaryRow | null>(files, FILES.summary);
+
+    const sessionId = crypto.randomUUID();
+    const responseIds = new Map(
+      responses.map((response) => [response.id, crypto.randomUUID()])
+    );
+
+    try {
+      const { error: sessionError } = await supabase
+        .from("interview_sessions")
+        .insert({ ...session, id: sessionId, user_id: userId });
+      if (sessionError) throw sessionError;
+
+      if (responses.length > 0) {
+        const { error } = await supabase.from("interview_responses").insert(
+          responses.map((response) => ({
+            ...response,
+            id: responseIds.get(response.id)!,
+            session_id: sessionId,
+            user_id: userId,
+          }))
+        );
+        if (error) throw error;
+      }
+
+      const importedAnalysis = analysis
+        .filter((row) => responseIds.has(row.interview_response_id))
+        .map(({ id: _id, ...row }) => ({
+          ...row,
+          interview_response_id: responseIds.get(row.interview_response_id)!,
+          session_id: sessionId,
+          user_id: userId,
+        }));
+      if (importedAnalysis.length > 0) {
+        const { error } = await supabase
+          .from("interview_analysis")
+          .insert(importedAnalysis);
+        if (error) throw error;
+      }
+
+      if (summary) {
+        const { id: _id, ...row } = summary;
+        const { error } = await supabase
+          .from("interview_summary")
+          .insert({ ...row, session_id: sessionId, user_id: userId });
+        if (error) throw error;
+      }
+    } catch (error) {
+      await this.removeImportedRows(sessionId);
+      console.error("Error importing session bundle:", error);
+      throw new Error(
+        `Failed to import session: ${
+          error instanceof Error ? error.message : "database error"
+        }`
+      );
+    }
+
+    if (manifest.recording) {
+      const { file: videoFile, metadata } = manifest.recording;
+      const audio = manifest.audioFile ? files[manifest.audioFile] : undefined;
+      await localVideoStorageService.storeVideo(
+        sessionId,
+        toBlob(this.readFile(files, videoFile), metadata.format),
+        audio ? toBlob(audio, "audio/webm") : undefined,
+        { ...metadata, sessionId }
+      );
+    }
+
+    let clips = 0;
+    for (const { file: clipFile, metadata } of manifest.clips) {
+      try {
+        await answerClipStorageService.saveClip(
+          sessionId,
+          metadata.questionId,
+          metadata.questionText,
+          toBlob(this.readFile(files, clipFile), metadata.format),
+          metadata.duration
+        );
+        const responseId =
+          metadata.responseId && responseIds.get(metadata.responseId);
+        if (responseId) {
+          await answerClipStorageService.linkResponse(
+            sessionId,
+            metadata.questionId,
+            responseId
+          );
+        }
+        clips += 1;
+      } catch (clipError) {
+        console.warn(`Failed to import clip ${clipFile}:`, clipError);
+      }
+    }
+
+    return {
+      sessionId,
+      responses: responses.length,
+      hasRecording: !!manifest.recording,
+      clips,
+    };
+  }
+
+  private async buildTranscripts(
+    responses: ResponseRow[]
+  ): Promise<BundleTranscript[]> {
+    const questionIds = [...new Set(responses.map((r) => r.question_id))];
+    const questionText = new Map<number, string>();
+    if (questionIds.length > 0) {
+      const { data, error } = await supabase
+        .from("interview_questions")
+        .select("question_id, question_text")
+        .in("question_id", questionIds);
+      if (error) {
+        console.warn("Failed to load question text for export:", error);
+      }
+      for (const question of data || []) {
+        questionText.set(question.question_id, question.question_text);
+      }
+    }
+
+    return responses.map((response, index) => ({
+      questionNumber: index + 1,
+      questionId: response.question_id,
+      question: questionText.get(response.question_id) || "",
+      transcript: response.response_text || "",
+      originalTranscript: response.original_response_text,
+      durationSeconds: response.duration,
+      editedAt: response.edited_at,
+    }));
+  }
+
+  private formatTranscriptText(
+    session: SessionRow,
+    transcripts: BundleTranscript[]
+  ): string {
+    const date = new Date(session.created_at).toLocaleString();
+    const header = `Interview transcript (${session.interview_type}), ${date}`;
+    const answers = transcripts.map(
+      (item) =>
+        `Q${item.questionNumber}. ${item.question || "Question"}\n\n${
+          item.transcript || "(no answer recorded)"
+        }`
+    );
+    return [header, ...answers].join("\n\n\n") + "\n";
+  }
+
+  private async removeImportedRows(sessionId: string): Promise<void> {
+    for (const table of [
+      "interview_summary",
+      "interview_analysis",
+      "interview_responses",
+      "interview_sessions",
+    ] as const) {
+      const column = table === "interview_sessions" ? "id" : "session_id";
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq(column, sessionId);
+      if (error) {
+        console.warn(`Failed to clean up ${table} after import:`, error);
+      }
+    }
+  }
+
+  private readFile(files: Record<string, Uint8Array>, name: string) {
+    const file = files[name];
+    if (!file) throw new Error(`Session bundle is missing ${name}`);
+    return file;
+  }
+
+  private readJson<T>(files: Record<string, Uint8Array>, name: string): T {
+    return JSON.parse(strFromU8(this.readFile(files, name))) as T;
+  }
+}
+
+export const sessionBundleService = new SessionBundleService();
+export default sessionBundleService;
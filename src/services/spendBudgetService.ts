@@ -0,0 +1,227 @@
+/**
+ * Spend Budget Service
+ * Enforces per-user daily and monthly caps on AI and transcription spend.
+ * Callers estimate a paid call's cost and check it against what the user
+ * has left; when a cap would be exceeded they fall back to the free path
+ * (rule-based analysis, on-device transcription) and tell the user why.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { COST_LIMITS, MODEL_CONFIG } from "../config/openRouter";
+import { costTrackingService } from "./costTrackingService";
+import { llmProviderService } from "./llmProviderService";
+import { modelRoutingService } from "./modelRoutingService";
+import { openRouterService } from "./openRouterService";
+
+export type BudgetPeriod = "day" | "month";
+
+export type BudgetedFeature = "analysis" | "classification" | "transcription";
+
+export interface SpendBudget {
+  dailyLimitCents: number | null; // null means unlimited
+  monthlyLimitCents: number | null;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  exceededPeriod: BudgetPeriod | null; // the cap the call would break
+  remainingCents: Record<BudgetPeriod, number | null>; // null when unlimited
+  estimatedCostCents: number;
+}
+
+// Typical token counts, from the analysis and classification prompts
+const ANALYSIS_TOKENS = { input: 3000, output: 1500 };
+const SUMMARY_TOKENS = { input: 4500, output: 1300 }; // themes, feedback, steps
+const SUMMARY_MODEL = "openai/gpt-3.5-turbo";
+const CLASSIFICATION_TOKENS = { input: 600, output: 300 };
+const CLASSIFICATION_MODEL = "anthropic/claude-3-haiku";
+
+// Don't repeat the same notice for every clip or answer in one run
+const NOTICE_COOLDOWN_MS = 60000;
+
+const FALLBACK_DESCRIPTIONS: Record<BudgetedFeature, string> = {
+  analysis: "Answers are scored with basic analysis instead of AI.",
+  classification: "Questions are classified without AI.",
+  transcription: "Speech is transcribed on your device instead.",
+};
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+class SpendBudgetService {
+  private budgetCache = new Map<string, SpendBudget>();
+  private lastNotice: { key: string; at: number } | null = null;
+
+  /**
+   * A user's caps, or the app defaults when none are set
+   */
+  async getBudget(userId: string): Promise<SpendBudget> {
+    const cached = this.budgetCache.get(userId);
+    if (cached) return cached;
+
+    // The AI proxy applies the same defaults
+    const defaults: SpendBudget = {
+      dailyLimitCents: COST_LIMITS.DEFAULT_DAILY_LIMIT_CENTS,
+      monthlyLimitCents: COST_LIMITS.DEFAULT_MONTHLY_LIMIT_CENTS,
+    };
+
+    const { data, error } = await supabase
+      .from("spend_budgets")
+      .select("daily_limit_cents, monthly_limit_cents")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) {
+      console.warn("Failed to load spend budget, using defaults:", error);
+      return defaults;
+    }
+
+    const budget: SpendBudget = data
+      ? {
+          dailyLimitCents: data.daily_limit_cents,
+          monthlyLimitCents: data.monthly_limit_cents,
+        }
+      : defaults;
+    this.budgetCache.set(userId, budget);
+    return budget;
+  }
+
+  /**
+   * Check whether a call costing about `estimatedCostCents` fits in what the
+   * user has left today and this month. Free calls always fit, and the check
+   * fails open so a tracking outage never blocks an interview.
+   */
+  async checkBudget(
+    userId: string | undefined,
+    estimatedCostCents: number
+  ): Promise<BudgetCheck> {
+    const check: BudgetCheck = {
+      allowed: true,
+      exceededPeriod: null,
+      remainingCents: { day: null, month: null },
+      estimatedCostCents,
+    };
+    if (estimatedCostCents <= 0) return check;
+
+    try {
+      const id =
+        userId || (await supabase.auth.getSession()).data.session?.user.id;
+      if (!id) return check;
+
+      const budget = await this.getBudget(id);
+      const limits: [BudgetPeriod, number | null][] = [
+        ["day", budget.dailyLimitCents],
+        ["month", budget.monthlyLimitCents],
+      ];
+      for (const [period, limitCents] of limits) {
+        if (limitCents === null) continue;
+        const { remainingCents } = await costTrackingService.checkCostLimit(
+          id,
+          limitCents,
+          period
+        );
+        check.remainingCents[period] = remainingCents;
+        if (check.allowed && estimatedCostCents > remainingCents) {
+          check.allowed = false;
+          check.exceededPeriod = period;
+        }
+      }
+    } catch (error) {
+      console.warn("Spend budget check failed, allowing the call:", error);
+    }
+    return check;
+  }
+
+  /**
+   * Estimated cost of scoring a set of answers, plus the session summary,
+   * priced with the model the user's routing rules pick first
+   */
+  async estimateAnalysisCost(
+    interviewType: string,
+    answerCount: number,
+    withSummary = true,
+    userId?: string
+  ): Promise<number> {
+    const [model] = await modelRoutingService.getCandidateModels(
+      { interviewType, maxOutputTokens: ANALYSIS_TOKENS.output },
+      userId
+    );
+    return (
+      this.estimateCallCost(model, ANALYSIS_TOKENS) * answerCount +
+      (withSummary ? this.estimateCallCost(SUMMARY_MODEL, SUMMARY_TOKENS) : 0)
+    );
+  }
+
+  /**
+   * Estimated cost of classifying questions with AI
+   */
+  estimateClassificationCost(questionCount: number): number {
+    return (
+      this.estimateCallCost(CLASSIFICATION_MODEL, CLASSIFICATION_TOKENS) *
+      questionCount
+    );
+  }
+
+  /**
+   * Estimated cost of transcribing audio with Deepgram
+   */
+  estimateTranscriptionCost(audioSeconds: number, streamed = false): number {
+    return costTrackingService.calculateTranscriptionCost(
+      "deepgram",
+      audioSeconds,
+      streamed
+    );
+  }
+
+  /**
+   * Tell the user a cap was reached, what is left and what happens instead
+   */
+  notifyBudgetReached(check: BudgetCheck, feature: BudgetedFeature): void {
+    if (check.allowed) return;
+    const key = `${feature}:${check.exceededPeriod}`;
+    const now = Date.now();
+    if (
+      this.lastNotice?.key === key &&
+      now - this.lastNotice.at < NOTICE_COOLDOWN_MS
+    ) {
+      return;
+    }
+    this.lastNotice = { key, at: now };
+
+    toast({
+      title:
+        check.exceededPeriod === "day"
+          ? "Daily AI budget reached"
+          : "Monthly AI budget reached",
+      description: `${this.describeRemaining(check)} ${
+        FALLBACK_DESCRIPTIONS[feature]
+      }`,
+    });
+  }
+
+  /**
+   * "$0.12 left today and $8.40 left this month."
+   */
+  describeRemaining(check: BudgetCheck): string {
+    const parts = [
+      check.remainingCents.day !== null &&
+        `${formatCents(check.remainingCents.day)} left today`,
+      check.remainingCents.month !== null &&
+        `${formatCents(check.remainingCents.month)} left this month`,
+    ].filter(Boolean);
+    return parts.length > 0
+      ? `You have ${parts.join(" and ")}.`
+      : "Your spending limit has been reached.";
+  }
+
+  private estimateCallCost(
+    model: string,
+    tokens: { input: number; output: number }
+  ): number {
+    if (!llmProviderService.isBillable() || !(model in MODEL_CONFIG)) return 0;
+    return openRouterService.calculateCost(model, tokens.input, tokens.output)
+      .totalCostCents;
+  }
+}
+
+export const spendBudgetService = new SpendBudgetService();
+export default spendBudgetService;
@@ -0,0 +1,276 @@
+/**
+ * Storage Retention Service
+ * Applies the user's retention policy to locally stored interview videos and
+ * answer clips, and watches the browser's storage quota so recordings are not
+ * silently lost when the origin runs out of space.
+ */
+
+import {
+  localVideoStorageService,
+  type LocalVideoMetadata,
+} from "./localVideoStorageService";
+import { answerClipStorageService } from "./answerClipStorageService";
+import type { CaptureMode } from "../utils/screenComposition";
+
+export interface RetentionPolicy {
+  maxSessions: number | null; // keep only the most recent N sessions
+  maxStorageGb: number | null; // keep recordings under this many GB
+  maxAgeDays: number | null; // delete recordings older than this
+}
+
+export interface SessionFootprint {
+  sessionId: string;
+  timestamp: number;
+  duration: number;
+  captureMode?: CaptureMode;
+  hasAnalysis: boolean;
+  videoSize: number;
+  clipCount: number;
+  clipSize: number;
+  totalSize: number;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+  ratio: number; // usage / quota, 0..1
+}
+
+export interface StorageWarning {
+  level: "warning" | "critical";
+  estimate: StorageEstimate;
+  message: string;
+}
+
+export interface RetentionResult {
+  evicted: string[]; // session ids whose recordings were deleted
+  freedBytes: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxSessions: null,
+  maxStorageGb: null,
+  maxAgeDays: null,
+};
+
+const RETENTION_POLICY_KEY = "amplify_storageRetentionPolicy";
+const WARNING_RATIO = 0.8;
+const CRITICAL_RATIO = 0.95;
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+class StorageRetentionService {
+  /**
+   * Get the retention policy saved on this device
+   */
+  getPolicy(): RetentionPolicy {
+    try {
+      const stored = localStorage.getItem(RETENTION_POLICY_KEY);
+      if (!stored) return { ...DEFAULT_RETENTION_POLICY };
+      return { ...DEFAULT_RETENTION_POLICY, ...JSON.parse(stored) };
+    } catch (error) {
+      console.warn("Failed to read storage retention policy:", error);
+      return { ...DEFAULT_RETENTION_POLICY };
+    }
+  }
+
+  /**
+   * Save the retention policy for this device
+   */
+  setPolicy(policy: RetentionPolicy): void {
+    try {
+      localStorage.setItem(RETENTION_POLICY_KEY, JSON.stringify(policy));
+    } catch (error) {
+      console.warn("Failed to save storage retention policy:", error);
+    }
+  }
+
+  /**
+   * Get how much of the origin's quota is in use, when the browser reports it
+   */
+  async getStorageEstimate(): Promise<StorageEstimate | null> {
+    if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+      return null;
+    }
+
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      if (quota <= 0) return null;
+      return { usage, quota, ratio: usage / quota };
+    } catch (error) {
+      console.warn("Failed to estimate storage usage:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a warning when storage is close to full, or null when there is room
+   */
+  async getStorageWarning(): Promise<StorageWarning | null> {
+    const estimate = await this.getStorageEstimate();
+    if (!estimate || estimate.ratio < WARNING_RATIO) return null;
+
+    const percent = Math.round(estimate.ratio * 100);
+    if (estimate.ratio >= CRITICAL_RATIO) {
+      return {
+        level: "critical",
+        estimate,
+        message: `Browser storage is ${percent}% full. New recordings may fail to save until older ones are deleted.`,
+      };
+    }
+    return {
+      level: "warning",
+      estimate,
+      message: `Browser storage is ${percent}% full. Consider deleting older recordings or setting a retention policy.`,
+    };
+  }
+
+  /**
+   * Get the local storage used by each session's video and answer clips
+   */
+  async getSessionFootprints(): Promise<SessionFootprint[]> {
+    const [videos, clips] = await Promise.all([
+      localVideoStorageService.getAllVideos(),
+      answerClipStorageService.getAllClips().catch((error) => {
+        console.warn("Failed to read answer clips:", error);
+        return [];
+      }),
+    ]);
+
+    const footprints = new Map<string, SessionFootprint>();
+    for (const video of videos) {
+      footprints.set(video.sessionId, {
+        sessionId: video.sessionId,
+        timestamp: video.timestamp,
+        duration: video.duration,
+        captureMode: video.captureMode,
+        hasAnalysis: this.hasAnalysis(video),
+        videoSize: video.size,
+        clipCount: 0,
+        clipSize: 0,
+        totalSize: video.size,
+      });
+    }
+
+    for (const clip of clips) {
+      const footprint = footprints.get(clip.sessionId) ?? {
+        sessionId: clip.sessionId,
+        timestamp: clip.timestamp,
+        duration: 0,
+        hasAnalysis: false,
+        videoSize: 0,
+        clipCount: 0,
+        clipSize: 0,
+        totalSize: 0,
+      };
+      footprint.clipCount += 1;
+      footprint.clipSize += clip.size;
+      footprint.totalSize += clip.size;
+      footprints.set(clip.sessionId, footprint);
+    }
+
+    return [...footprints.values()].sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Choose which sessions a policy removes. Anything past the age limit goes;
+   * to meet the count and size limits, sessions that already have analysis
+   * are removed before those still waiting for it, oldest first.
+   */
+  planEviction(
+    footprints: SessionFootprint[],
+    policy: RetentionPolicy,
+    protectedSessionIds: string[] = [],
+    now: number = Date.now()
+  ): SessionFootprint[] {
+    const candidates = footprints.filter(
+      (footprint) => !protectedSessionIds.includes(footprint.sessionId)
+    );
+    const evicted = new Set<SessionFootprint>();
+
+    if (policy.maxAgeDays !== null) {
+      const cutoff = now - policy.maxAgeDays * MS_PER_DAY;
+      candidates
+        .filter((footprint) => footprint.timestamp < cutoff)
+        .forEach((footprint) => evicted.add(footprint));
+    }
+
+    let remainingCount = footprints.length - evicted.size;
+    let remainingSize = footprints.reduce(
+      (sum, footprint) =>
+        evicted.has(footprint) ? sum : sum + footprint.totalSize,
+      0
+    );
+    const maxBytes =
+      policy.maxStorageGb !== null ? policy.maxStorageGb * BYTES_PER_GB : null;
+    const overLimit = () =>
+      (policy.maxSessions !== null && remainingCount > policy.maxSessions) ||
+      (maxBytes !== null && remainingSize > maxBytes);
+
+    const byPreference = candidates
+      .filter((footprint) => !evicted.has(footprint))
+      .sort(
+        (a, b) =>
+          Number(b.hasAnalysis) - Number(a.hasAnalysis) ||
+          a.timestamp - b.timestamp
+      );
+    for (const footprint of byPreference) {
+      if (!overLimit()) break;
+      evicted.add(footprint);
+      remainingCount -= 1;
+      remainingSize -= footprint.totalSize;
+    }
+
+    return [...evicted];
+  }
+
+  /**
+   * Delete recordings the saved policy no longer keeps. The session being
+   * saved right now is never removed.
+   */
+  async applyRetention(
+    protectedSessionId?: string,
+    policy: RetentionPolicy = this.getPolicy()
+  ): Promise<RetentionResult> {
+    const footprints = await this.getSessionFootprints();
+    const toEvict = this.planEviction(
+      footprints,
+      policy,
+      protectedSessionId ? [protectedSessionId] : []
+    );
+
+    const result: RetentionResult = { evicted: [], freedBytes: 0 };
+    for (const footprint of toEvict) {
+      try {
+        await this.deleteSession(footprint.sessionId);
+        result.evicted.push(footprint.sessionId);
+        result.freedBytes += footprint.totalSize;
+      } catch (error) {
+        console.error(
+          `Failed to evict recording for session ${footprint.sessionId}:`,
+          error
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Delete a session's local video and answer clips
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await localVideoStorageService.deleteVideo(sessionId);
+    await answerClipStorageService.deleteSessionClips(sessionId);
+  }
+
+  /**
+   * Check whether a recording has been transcribed and analysed, so losing
+   * the media keeps its results
+   */
+  private hasAnalysis(metadata: LocalVideoMetadata): boolean {
+    return !!metadata.aiFeedback || !!metadata.transcription?.text;
+  }
+}
+
+export const storageRetentionService = new StorageRetentionService();
+export default storageRetentionService;
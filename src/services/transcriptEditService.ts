@@ -0,0 +1,204 @@
+/**
+ * Transcript Edit Service
+ * Lets users correct mis-transcribed answers and re-run the AI analysis
+ * against what they actually said, keeping a history of every correction.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import {
+  analyzeQuestionResponse,
+  type AnalysisResponse,
+} from "./coreAnalysisService";
+import type { SpeechMetrics } from "../utils/speechMetrics";
+
+export type TranscriptEdit =
+  Database["public"]["Tables"]["transcript_edits"]["Row"];
+
+export type ReanalysisResult = NonNullable<AnalysisResponse["result"]>;
+
+class TranscriptEditService {
+  /**
+   * Save a corrected transcript, keeping the original transcription
+   */
+  async saveCorrection(
+    responseId: string,
+    userId: string,
+    correctedText: string
+  ): Promise<TranscriptEdit> {
+    const newText = correctedText.trim();
+    if (!newText) {
+      throw new Error("Corrected transcript cannot be empty");
+    }
+
+    try {
+      const { data: response, error: responseError } = await supabase
+        .from("interview_responses")
+        .select("id, response_text, original_response_text")
+        .eq("id", responseId)
+        .single();
+
+      if (responseError || !response) {
+        throw new Error(
+          `Response not found: ${responseError?.message || responseId}`
+        );
+      }
+
+      const previousText = response.response_text || "";
+      if (previousText === newText) {
+        throw new Error("Transcript is unchanged");
+      }
+
+      const { data: analysis } = await supabase
+        .from("interview_analysis")
+        .select("overall_score")
+        .eq("interview_response_id", responseId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { error: updateError } = await supabase
+        .from("interview_responses")
+        .update({
+          response_text: newText,
+          original_response_text:
+            response.original_response_text ?? previousText,
+          edited_at: new Date().toISOString(),
+        })
+        .eq("id", responseId);
+
+      if (updateError) {
+        throw new Error(`Failed to update transcript: ${updateError.message}`);
+      }
+
+      const { data: edit, error: editError } = await supabase
+        .from("transcript_edits")
+        .insert({
+          interview_response_id: responseId,
+          user_id: userId,
+          previous_text: previousText,
+          new_text: newText,
+          score_before: analysis?.overall_score ?? null,
+        })
+        .select()
+        .single();
+
+      if (editError || !edit) {
+        throw new Error(
+          `Failed to record transcript edit: ${editError?.message}`
+        );
+      }
+
+      return edit;
+    } catch (error) {
+      console.error("Error saving transcript correction:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-run the AI analysis for an answer and replace its analysis row
+   */
+  async reanalyzeResponse(responseId: string): Promise<ReanalysisResult> {
+    try {
+      const { data: previous, error: previousError } = await supabase
+        .from("interview_analysis")
+        .select("id, speech_metrics")
+        .eq("interview_response_id", responseId);
+
+      if (previousError) {
+        throw new Error(
+          `Failed to load existing analysis: ${previousError.message}`
+        );
+      }
+
+      // Speech metrics come from word timestamps, which a text edit does not change
+      const speechMetrics =
+        (previous?.find((row) => row.speech_metrics)
+          ?.speech_metrics as SpeechMetrics | null) ?? undefined;
+
+      const analysis = await analyzeQuestionResponse(responseId, {
+        speechMetrics,
+      });
+      if (!analysis.success || !analysis.result) {
+        throw new Error(analysis.error || "Re-analysis failed");
+      }
+
+      // Only drop the old rows once the new analysis has been saved
+      const previousIds = (previous || []).map((row) => row.id);
+      if (previousIds.length > 0) {
+        const { error: deleteError } = await supabase
+          .from("interview_analysis")
+          .delete()
+          .in("id", previousIds);
+        if (deleteError) {
+          console.warn("Failed to remove replaced analysis:", deleteError);
+        }
+      }
+
+      await this.recordReanalysis(responseId, analysis.result.overall_score);
+
+      return analysis.result;
+    } catch (error) {
+      console.error("Error re-analyzing response:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the correction history for an answer, newest first
+   */
+  async getEditHistory(responseId: string): Promise<TranscriptEdit[]> {
+    try {
+      const { data, error } = await supabase
+        .from("transcript_edits")
+        .select("*")
+        .eq("interview_response_id", responseId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching transcript edit history:", error);
+        return [];
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error in getEditHistory:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Attach the new score to the latest edit that has not been re-analyzed yet
+   */
+  private async recordReanalysis(
+    responseId: string,
+    score: number
+  ): Promise<void> {
+    const { data: latest } = await supabase
+      .from("transcript_edits")
+      .select("id")
+      .eq("interview_response_id", responseId)
+      .is("reanalyzed_at", null)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!latest) return;
+
+    const { error } = await supabase
+      .from("transcript_edits")
+      .update({
+        score_after: Math.round(score),
+        reanalyzed_at: new Date().toISOString(),
+      })
+      .eq("id", latest.id);
+
+    if (error) {
+      console.warn("Failed to record re-analysis on edit history:", error);
+    }
+  }
+}
+
+export const transcriptEditService = new TranscriptEditService();
+export default transcriptEditService;
@@ -0,0 +1,280 @@
+/**
+ * Transcription Cache Service
+ * Content-addressed IndexedDB cache of transcription results, keyed by a hash
+ * of the recording and the provider settings, so reprocessing a session does
+ * not upload (and pay for) the same audio twice.
+ */
+
+import type { TranscriptionResult } from "./deepgramTranscriptionService";
+import { IndexedDbStore } from "../utils/indexedDbStore";
+import {
+  recordingEncryptionService,
+  type EncryptionInfo,
+} from "./recordingEncryptionService";
+
+export interface TranscriptionCacheSettings {
+  provider: string;
+  language?: string;
+  keywords?: string[];
+}
+
+interface CachedTranscription {
+  key: string;
+  mediaHash: string;
+  settings: TranscriptionCacheSettings;
+  result?: TranscriptionResult; // in the clear when recordings aren't encrypted
+  encryptedResult?: ArrayBuffer; // JSON, when they are
+  encryption?: EncryptionInfo;
+  size: number; // approximate bytes, used for the size cap
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface TranscriptionCacheStats {
+  entries: number;
+  totalSize: number;
+  maxSize: number;
+}
+
+// Bump when the result shape or key scheme changes so old entries are ignored
+const CACHE_VERSION = 2;
+const DEFAULT_MAX_CACHE_MB = 50;
+// Recordings are hashed a slice at a time so they never sit in memory whole
+const HASH_SLICE_BYTES = 4 * 1024 * 1024;
+
+class TranscriptionCacheService {
+  private storeName = "transcriptions";
+  private store = new IndexedDbStore({
+    name: "AmplifyTranscriptionCache",
+    version: 1,
+    label: "transcription cache",
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(this.storeName)) {
+        const store = db.createObjectStore(this.storeName, { keyPath: "key" });
+        store.createIndex("lastAccessed", "lastAccessed", { unique: false });
+      }
+    },
+  });
+  private maxSize =
+    (Number(import.meta.env.VITE_TRANSCRIPTION_CACHE_MAX_MB) ||
+      DEFAULT_MAX_CACHE_MB) *
+    1024 *
+    1024;
+  // Hashing a long recording is slow, so remember the hash per Blob
+  private hashes = new WeakMap<Blob, Promise<string>>();
+
+  /**
+   * Check whether caching is possible in this browser
+   */
+  isSupported(): boolean {
+    return (
+      typeof indexedDB !== "undefined" &&
+      typeof crypto !== "undefined" &&
+      !!crypto.subtle
+    );
+  }
+
+  /**
+   * Look up a cached transcription for this recording and settings
+   */
+  async get(
+    mediaBlob: Blob,
+    settings: TranscriptionCacheSettings
+  ): Promise<TranscriptionResult | null> {
+    if (!this.isSupported()) return null;
+
+    try {
+      const key = await this.buildKey(mediaBlob, settings);
+      const entry = await this.request<CachedTranscription | undefined>(
+        "readonly",
+        (store) => store.get(key)
+      );
+      if (!entry) return null;
+
+      const result = await this.readResult(entry);
+      if (!result) return null;
+
+      await this.request("readwrite", (store) =>
+        store.put({ ...entry, lastAccessed: Date.now() })
+      );
+      return result;
+    } catch (error) {
+      console.warn("Transcription cache lookup failed:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a transcription for this recording and settings. Transcripts are
+   * encrypted like the recordings, and not cached at all while locked.
+   */
+  async set(
+    mediaBlob: Blob,
+    settings: TranscriptionCacheSettings,
+    result: TranscriptionResult
+  ): Promise<void> {
+    if (!this.isSupported() || recordingEncryptionService.needsUnlock()) {
+      return;
+    }
+
+    try {
+      const mediaHash = await this.hashBlob(mediaBlob);
+      const json = new TextEncoder().encode(JSON.stringify(result));
+      const size = json.byteLength;
+      if (size > this.maxSize) return;
+
+      const encrypted = await recordingEncryptionService.encrypt(json.buffer);
+      const now = Date.now();
+      const entry: CachedTranscription = {
+        key: await this.buildKey(mediaBlob, settings),
+        mediaHash,
+        settings,
+        result: encrypted ? undefined : result,
+        encryptedResult: encrypted?.data,
+        encryption: encrypted?.encryption,
+        size,
+        createdAt: now,
+        lastAccessed: now,
+      };
+
+      await this.request("readwrite", (store) => store.put(entry));
+      await this.enforceSizeLimit();
+    } catch (error) {
+      console.warn("Failed to cache transcription:", error);
+    }
+  }
+
+  /**
+   * Get the number and total size of cached transcriptions
+   */
+  async getStats(): Promise<TranscriptionCacheStats> {
+    if (!this.isSupported()) {
+      return { entries: 0, totalSize: 0, maxSize: this.maxSize };
+    }
+
+    const entries = await this.request<CachedTranscription[]>(
+      "readonly",
+      (store) => store.getAll()
+    );
+    return {
+      entries: entries.length,
+      totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxSize: this.maxSize,
+    };
+  }
+
+  /**
+   * Remove every cached transcription
+   */
+  async clear(): Promise<void> {
+    if (!this.isSupported()) return;
+    await this.request("readwrite", (store) => store.clear());
+  }
+
+  /**
+   * Get an entry's transcript, or null if it is encrypted under a passphrase
+   * that isn't unlocked
+   */
+  private async readResult(
+    entry: CachedTranscription
+  ): Promise<TranscriptionResult | null> {
+    if (!entry.encryptedResult || !entry.encryption) {
+      return entry.result ?? null;
+    }
+    if (!recordingEncryptionService.canDecrypt(entry.encryption)) return null;
+
+    const json = await recordingEncryptionService.decrypt(
+      entry.encryptedResult,
+      entry.encryption
+    );
+    return JSON.parse(new TextDecoder().decode(json));
+  }
+
+  /**
+   * Evict least recently used entries until the cache fits the size cap
+   */
+  private async enforceSizeLimit(): Promise<void> {
+    const entries = await this.request<CachedTranscription[]>(
+      "readonly",
+      (store) => store.index("lastAccessed").getAll()
+    );
+
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+    for (const entry of entries) {
+      if (totalSize <= this.maxSize) break;
+      evicted.push(entry.key);
+      totalSize -= entry.size;
+    }
+
+    for (const key of evicted) {
+      await this.request("readwrite", (store) => store.delete(key));
+    }
+  }
+
+  /**
+   * Combine the media hash with everything that changes the transcript
+   */
+  private async buildKey(
+    mediaBlob: Blob,
+    settings: TranscriptionCacheSettings
+  ): Promise<string> {
+    const mediaHash = await this.hashBlob(mediaBlob);
+    const keywords = [...(settings.keywords || [])]
+      .map((k) => k.toLowerCase())
+      .sort()
+      .join(",");
+    const settingsHash = await this.digest(
+      new TextEncoder().encode(
+        JSON.stringify([settings.provider, settings.language || "", keywords])
+      )
+    );
+    return `v${CACHE_VERSION}:${mediaHash}:${settingsHash}`;
+  }
+
+  /**
+   * Hash of the media content: SHA-256 over the SHA-256 of each slice
+   */
+  private hashBlob(blob: Blob): Promise<string> {
+    let hash = this.hashes.get(blob);
+    if (!hash) {
+      hash = this.hashSlices(blob).catch((error) => {
+        this.hashes.delete(blob);
+        throw error;
+      });
+      this.hashes.set(blob, hash);
+    }
+    return hash;
+  }
+
+  private async hashSlices(blob: Blob): Promise<string> {
+    const sliceHashes: string[] = [];
+    for (let offset = 0; offset < blob.size; offset += HASH_SLICE_BYTES) {
+      const slice = blob.slice(offset, offset + HASH_SLICE_BYTES);
+      sliceHashes.push(await this.digest(await slice.arrayBuffer()));
+    }
+    return this.digest(
+      new TextEncoder().encode(`${blob.size}:${sliceHashes.join("")}`)
+    );
+  }
+
+  private async digest(data: BufferSource): Promise<string> {
+    const hash = await crypto.subtle.digest("SHA-256", data);
+    return Array.from(new Uint8Array(hash))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+  }
+
+  /**
+   * Run a single request against the cache store
+   */
+  private request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return this.store.request<T>(this.storeName, mode, run);
+  }
+}
+
+export const transcriptionCacheService = new TranscriptionCacheService();
+export default transcriptionCacheService;
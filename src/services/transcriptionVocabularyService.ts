@@ -0,0 +1,148 @@
+/**
+ * Transcription Vocabulary Service
+ * Builds a per-session list of domain terms (tools, products, jargon) that is
+ * passed to the transcription provider as keyword hints, so words like
+ * "Kubernetes" or "idempotent" are not garbled.
+ */
+
+import type { ClassifiedQuestion } from "./questionClassificationService";
+import { userQuestionBankService } from "./userQuestionBankService";
+
+export interface SessionVocabularySources {
+  classifiedQuestions?: ClassifiedQuestion[];
+  questionTexts?: string[]; // questions asked in this session
+  userId?: string; // adds the user's question bank and custom glossary
+}
+
+const GLOSSARY_KEY = "amplify_transcriptionGlossary";
+// Providers cap the number of hints; Deepgram also puts them in the URL
+export const MAX_VOCABULARY_TERMS = 50;
+// Words, allowing inner dots/dashes and trailing +/# (Node.js, C++, C#)
+const TOKEN_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}+#.-]*[\p{L}\p{N}+#]|\p{L}/gu;
+
+class TranscriptionVocabularyService {
+  /**
+   * Build the keyword hints for a session, most specific sources first
+   */
+  async buildSessionVocabulary(
+    sources: SessionVocabularySources
+  ): Promise<string[]> {
+    const glossary = sources.userId ? this.getGlossary(sources.userId) : [];
+
+    const classified = (sources.classifiedQuestions || []).flatMap((q) => [
+      ...q.classification.keywords,
+      ...q.classification.expectedSkills,
+    ]);
+
+    const fromQuestions = (sources.questionTexts || []).flatMap((text) =>
+      this.extractDistinctiveTerms(text)
+    );
+
+    let fromQuestionBank: string[] = [];
+    if (sources.userId) {
+      try {
+        const bank = await userQuestionBankService.getUserQuestions(
+          sources.userId
+        );
+        fromQuestionBank = bank.flatMap((q) =>
+          this.extractDistinctiveTerms(q.text)
+        );
+      } catch (error) {
+        console.warn("Failed to load question bank vocabulary:", error);
+      }
+    }
+
+    return this.mergeTerms([
+      glossary,
+      fromQuestions,
+      classified,
+      fromQuestionBank,
+    ]);
+  }
+
+  /**
+   * Get the user's custom glossary
+   */
+  getGlossary(userId: string): string[] {
+    try {
+      const stored = localStorage.getItem(`${GLOSSARY_KEY}_${userId}`);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed)
+        ? parsed.filter((t): t is string => typeof t === "string")
+        : [];
+    } catch (error) {
+      console.warn("Failed to read transcription glossary:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Save the user's custom glossary
+   */
+  setGlossary(userId: string, terms: string[]): void {
+    try {
+      localStorage.setItem(
+        `${GLOSSARY_KEY}_${userId}`,
+        JSON.stringify(this.mergeTerms([terms]))
+      );
+    } catch (error) {
+      console.warn("Failed to save transcription glossary:", error);
+    }
+  }
+
+  /**
+   * Parse a comma or newline separated glossary entry
+   */
+  parseGlossaryInput(input: string): string[] {
+    return this.mergeTerms([input.split(/[,\n]/)]);
+  }
+
+  /**
+   * Pick out words that look like jargon: acronyms, CamelCase, versioned or
+   * dotted names, and capitalized words that do not start a sentence
+   */
+  extractDistinctiveTerms(text: string): string[] {
+    const terms: string[] = [];
+    let previousEnd = 0;
+
+    for (const match of text.matchAll(TOKEN_PATTERN)) {
+      const token = match[0];
+      const start = match.index ?? 0;
+      const sentenceStart =
+        previousEnd === 0 || /[.!?:]/.test(text.slice(previousEnd, start));
+      previousEnd = start + token.length;
+
+      const isAcronym = /^\p{Lu}{2,}s?$/u.test(token);
+      const isCamelCase = /^\p{L}+$/u.test(token) && /.\p{Lu}/u.test(token);
+      const isTechnical = /[\d.+#]/.test(token) && /\p{L}/u.test(token);
+      const isProperNoun = !sentenceStart && /^\p{Lu}\p{Ll}{2,}$/u.test(token);
+
+      if (isAcronym || isCamelCase || isTechnical || isProperNoun) {
+        terms.push(token);
+      }
+    }
+
+    return terms;
+  }
+
+  /**
+   * Flatten, trim and de-duplicate terms (case-insensitive), keeping order
+   */
+  private mergeTerms(groups: string[][]): string[] {
+    const seen = new Set<string>();
+    const merged: string[] = [];
+    for (const term of groups.flat()) {
+      const cleaned = term.trim().replace(/\s+/g, " ");
+      const key = cleaned.toLowerCase();
+      if (!cleaned || seen.has(key)) continue;
+      seen.add(key);
+      merged.push(cleaned);
+      if (merged.length >= MAX_VOCABULARY_TERMS) break;
+    }
+    return merged;
+  }
+}
+
+export const transcriptionVocabularyService =
+  new TranscriptionVocabularyService();
+export default transcriptionVocabularyService;
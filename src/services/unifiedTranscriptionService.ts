@@ -3,64 +3,193 @@ import {
   type SpeechAnalysis,
 } from "./deepgramTranscriptionService";
 import { deepgramTranscriptionService } from "./deepgramTranscriptionService";
+import { localTranscriptionService } from "./localTranscriptionService";
+import { transcriptionCacheService } from "./transcriptionCacheService";
+import { costTrackingService } from "./costTrackingService";
+import { spendBudgetService } from "./spendBudgetService";
+import type { SpeechMetrics } from "../utils/speechMetrics";
 
-export type TranscriptionProvider = "deepgram";
+export type TranscriptionProvider = "deepgram" | "local";
 
-interface TranscriptionOptions {
+export interface QuestionResponse {
+  questionId: string;
+  questionText: string;
+  answerText: string;
+  audioBlob: Blob;
+  duration: number;
+  transcription: TranscriptionResult;
+  analysis: SpeechAnalysis;
+  speechMetrics?: SpeechMetrics;
+  timestamp: number;
+}
+
+export interface TranscriptionOptions {
   preferredProvider?: TranscriptionProvider;
   fallbackProviders?: TranscriptionProvider[];
   useMockFallback?: boolean;
+  userId?: string; // used to look up the user's saved provider preference
+  sessionId?: string; // interview session the transcription usage is billed to
+  language?: string; // interview language code, defaults to English
+  keywords?: string[]; // session vocabulary passed to the provider as hints
+  useCache?: boolean; // reuse/store results in the local transcription cache
+  estimatedDurationSeconds?: number; // audio length, checked against budget
 }
 
+// Assumed audio length when the caller doesn't know it
+const DEFAULT_ESTIMATED_DURATION_SECONDS = 60;
+
+const PROVIDER_PREFERENCE_KEY = "amplify_transcriptionProvider";
+
 class UnifiedTranscriptionService {
   private defaultOptions: TranscriptionOptions = {
     preferredProvider: "deepgram",
-    fallbackProviders: [],
+    fallbackProviders: ["local"],
     useMockFallback: false,
+    useCache: true,
   };
 
   /**
-   * Transcribe video using Deepgram API
+   * Transcribe video with the preferred provider, falling back to the others
    */
   async transcribeVideoDirectly(
     videoBlob: Blob,
     options?: Partial<TranscriptionOptions>
   ): Promise<TranscriptionResult> {
     const opts = { ...this.defaultOptions, ...options };
-    const providers = [
-      opts.preferredProvider,
-      ...opts.fallbackProviders,
-    ].filter(Boolean) as TranscriptionProvider[];
+    const providers = this.getProviderOrder(opts, options);
+
+    // A cached result from any acceptable provider beats a new upload
+    if (opts.useCache) {
+      for (const provider of providers) {
+        const cached = await transcriptionCacheService.get(videoBlob, {
+          provider,
+          language: opts.language,
+          keywords: opts.keywords,
+        });
+        if (cached) return cached;
+      }
+    }
 
+    const failures: string[] = [];
     for (const provider of providers) {
+      if (provider === "deepgram" && !(await this.isWithinBudget(opts))) {
+        failures.push(`${provider}: spend budget reached`);
+        continue;
+      }
+
       try {
-        const result = await this.transcribeWithProvider(videoBlob, provider);
+        const result = await this.transcribeWithProvider(
+          videoBlob,
+          provider,
+          opts.language,
+          opts.keywords
+        );
+        if (opts.userId) {
+          await costTrackingService.trackTranscriptionUsage(
+            provider,
+            result,
+            opts.sessionId
+          );
+        }
+        if (opts.useCache) {
+          await transcriptionCacheService.set(
+            videoBlob,
+            { provider, language: opts.language, keywords: opts.keywords },
+            result
+          );
+        }
         return result;
       } catch (error) {
         console.error(`Provider ${provider} failed:`, error);
-        // Don't continue to next provider, throw the error immediately
-        throw new Error(
-          `Transcription failed with ${provider}: ${
+        failures.push(
+          `${provider}: ${
             error instanceof Error ? error.message : "Unknown error"
           }`
         );
       }
     }
 
+    if (failures.length > 0) {
+      throw new Error(`Transcription failed with ${failures.join("; ")}`);
+    }
+
     throw new Error("No transcription providers available");
   }
 
   /**
-   * Transcribe with Deepgram API
+   * Whether a paid transcription fits in the user's remaining budget
+   */
+  /**
+   * Check a batch of transcriptions that will run in parallel against the
+   * budget once, since separate checks would each see the same remaining
+   * budget. Returns the options to run them with: unchanged when the whole
+   * batch fits, on-device only when it doesn't.
+   */
+  async checkBatchBudget(
+    totalSeconds: number,
+    options?: Partial<TranscriptionOptions>
+  ): Promise<Partial<TranscriptionOptions> | undefined> {
+    const opts = { ...this.defaultOptions, ...options };
+    if (!this.getProviderOrder(opts, options).includes("deepgram")) {
+      return options;
+    }
+    const allowed = await this.isWithinBudget({
+      ...opts,
+      estimatedDurationSeconds: totalSeconds,
+    });
+    return allowed
+      ? options
+      : { ...options, preferredProvider: "local", fallbackProviders: [] };
+  }
+
+  /**
+   * Providers to try in order: the preferred one, then the fallbacks
+   */
+  private getProviderOrder(
+    opts: TranscriptionOptions,
+    options?: Partial<TranscriptionOptions>
+  ): TranscriptionProvider[] {
+    const preferred =
+      options?.preferredProvider ??
+      this.getPreferredProvider(opts.userId) ??
+      this.defaultOptions.preferredProvider;
+    return Array.from(
+      new Set([preferred, ...opts.fallbackProviders].filter(Boolean))
+    ) as TranscriptionProvider[];
+  }
+
+  private async isWithinBudget(opts: TranscriptionOptions): Promise<boolean> {
+    const budget = await spendBudgetService.checkBudget(
+      opts.userId,
+      spendBudgetService.estimateTranscriptionCost(
+        opts.estimatedDurationSeconds || DEFAULT_ESTIMATED_DURATION_SECONDS
+      )
+    );
+    spendBudgetService.notifyBudgetReached(budget, "transcription");
+    return budget.allowed;
+  }
+
+  /**
+   * Transcribe with a specific provider
    */
   private async transcribeWithProvider(
     videoBlob: Blob,
-    provider: TranscriptionProvider
+    provider: TranscriptionProvider,
+    language?: string,
+    keywords?: string[]
   ): Promise<TranscriptionResult> {
     switch (provider) {
       case "deepgram":
         return await deepgramTranscriptionService.transcribeVideoDirectly(
-          videoBlob
+          videoBlob,
+          { language, keywords }
+        );
+
+      // Whisper in transformers.js has no keyword hint support
+      case "local":
+        return await localTranscriptionService.transcribeVideoDirectly(
+          videoBlob,
+          { language }
         );
 
       default:
@@ -80,6 +209,13 @@ class UnifiedTranscriptionService {
         accuracy: "High",
         speed: "Fast",
       },
+      local: {
+        available: localTranscriptionService.isSupported(),
+        name: "On-device (Whisper)",
+        cost: "Free - runs in your browser",
+        accuracy: "Medium",
+        speed: "Slow on first run (model download)",
+      },
     };
   }
 
@@ -87,56 +223,37 @@ class UnifiedTranscriptionService {
    * Get recommended provider
    */
   getRecommendedProvider(): TranscriptionProvider {
-    return "deepgram";
+    if (deepgramTranscriptionService.isAudioAnalysisSupported()) {
+      return "deepgram";
+    }
+    return localTranscriptionService.isSupported() ? "local" : "deepgram";
   }
 
   /**
-   * Test all available providers
+   * Get the provider a user has chosen, if any
    */
-  async testProviders(videoBlob: Blob): Promise<Record<string, any>> {
-    const results: Record<string, any> = {};
-    const providers = this.getAvailableProviders();
-
-    for (const [key, provider] of Object.entries(providers)) {
-      if (provider.available) {
-        try {
-          const startTime = Date.now();
-          const result = await this.transcribeWithProvider(
-            videoBlob,
-            key as TranscriptionProvider
-          );
-          const duration = Date.now() - startTime;
-
-          results[key] = {
-            success: true,
-            result,
-            duration: `${duration}ms`,
-            provider: provider.name,
-          };
-        } catch (error) {
-          results[key] = {
-            success: false,
-            error: error instanceof Error ? error.message : "Unknown error",
-            provider: provider.name,
-          };
-        }
-      } else {
-        results[key] = {
-          success: false,
-          error: "Not available - API key not configured",
-          provider: provider.name,
-        };
-      }
+  getPreferredProvider(userId?: string): TranscriptionProvider | null {
+    if (!userId) return null;
+    try {
+      const stored = localStorage.getItem(
+        `${PROVIDER_PREFERENCE_KEY}_${userId}`
+      );
+      return stored === "deepgram" || stored === "local" ? stored : null;
+    } catch (error) {
+      console.warn("Failed to read transcription provider preference:", error);
+      return null;
     }
-
-    return results;
   }
 
   /**
-   * Analyze speech patterns
+   * Save the provider a user wants to transcribe with
    */
-  analyzeSpeechPatterns(text: string): SpeechAnalysis {
-    return deepgramTranscriptionService.analyzeSpeechPatterns(text);
+  setPreferredProvider(userId: string, provider: TranscriptionProvider): void {
+    try {
+      localStorage.setItem(`${PROVIDER_PREFERENCE_KEY}_${userId}`, provider);
+    } catch (error) {
+      console.warn("Failed to save transcription provider preference:", error);
+    }
   }
 }
 
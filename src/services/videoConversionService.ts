@@ -1,78 +1,286 @@
-import { FFmpeg } from "@ffmpeg/ffmpeg";
-import { fetchFile, toBlobURL } from "@ffmpeg/util";
+import { isMediaJobCancelled, mediaJobService } from "./mediaJobService";
+import type { CaptionCue } from "../utils/captions";
+import {
+  renderCaptionOverlay,
+  renderTitleCard,
+  type TitleCardText,
+} from "../utils/clipOverlays";
 
-class VideoConversionService {
-  private ffmpeg: FFmpeg | null = null;
-  private isLoaded = false;
+export interface MediaConversionOptions {
+  onProgress?: (progress: number) => void; // 0 to 1
+  signal?: AbortSignal; // cancels the job, rejecting with an AbortError
+  duration?: number; // recording length in seconds, when known
+}
+
+export interface AnswerClipExportOptions
+  extends Omit<MediaConversionOptions, "duration"> {
+  start: number; // seconds into the recording
+  end: number; // seconds into the recording
+  audioOnly?: boolean; // audio recordings are shown on a plain background
+  titleCard?: TitleCardText; // shown before the answer
+  captions?: CaptionCue[]; // recording-relative cues to burn in
+}
 
+const CLIP_FRAME_RATE = 30;
+const TITLE_CARD_SECONDS = 3;
+const MAX_CLIP_WIDTH = 1920;
+const DEFAULT_CLIP_SIZE = { width: 1280, height: 720 };
+const CLIP_BACKGROUND = "0x0f172a";
+
+class VideoConversionService {
   /**
-   * Initialize FFmpeg
+   * Convert WebM video to MP4
    */
-  async initialize(): Promise<void> {
-    if (this.isLoaded) return;
-
-    this.ffmpeg = new FFmpeg();
-
-    // Load FFmpeg from CDN
-    const baseURL = "https://unpkg.com/@ffmpeg/core@0.12.6/dist/umd";
-    await this.ffmpeg.load({
-      coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, "text/javascript"),
-      wasmURL: await toBlobURL(
-        `${baseURL}/ffmpeg-core.wasm`,
-        "application/wasm"
-      ),
-    });
-
-    this.isLoaded = true;
+  async convertWebMToMP4(
+    webmBlob: Blob,
+    options: MediaConversionOptions = {}
+  ): Promise<Blob> {
+    try {
+      return await mediaJobService.run(
+        {
+          files: [{ name: "input.webm", data: webmBlob }],
+          args: [
+            "-i",
+            "input.webm",
+            "-c:v",
+            "libx264",
+            "-c:a",
+            "aac",
+            "-movflags",
+            "+faststart",
+            "output.mp4",
+          ],
+          output: "output.mp4",
+          outputType: "video/mp4",
+        },
+        options
+      );
+    } catch (error) {
+      if (isMediaJobCancelled(error)) throw error;
+      console.error("Video conversion failed:", error);
+      throw new Error(
+        `Video conversion failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
   }
 
   /**
-   * Convert WebM video to MP4
+   * Extract the audio track of a recording as WebM, copying the stream when
+   * possible and re-encoding to Opus otherwise
    */
-  async convertWebMToMP4(webmBlob: Blob): Promise<Blob> {
-    if (!this.ffmpeg || !this.isLoaded) {
-      await this.initialize();
+  async extractAudio(
+    videoBlob: Blob,
+    options: MediaConversionOptions = {}
+  ): Promise<Blob> {
+    try {
+      return await mediaJobService.run(
+        {
+          files: [{ name: "input.webm", data: videoBlob }],
+          args: ["-i", "input.webm", "-vn", "-c:a", "copy", "audio.webm"],
+          fallbackArgs: [
+            "-i",
+            "input.webm",
+            "-vn",
+            "-c:a",
+            "libopus",
+            "audio.webm",
+          ],
+          output: "audio.webm",
+          outputType: "audio/webm",
+        },
+        options
+      );
+    } catch (error) {
+      if (isMediaJobCancelled(error)) throw error;
+      console.error("Audio extraction failed:", error);
+      throw new Error(
+        `Audio extraction failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
     }
+  }
 
-    if (!this.ffmpeg) {
-      throw new Error("Failed to initialize FFmpeg");
+  /**
+   * Trim the recording to one answer and export it as an MP4, optionally
+   * with a title card before it and captions burned in
+   */
+  async exportAnswerClip(
+    recording: Blob,
+    options: AnswerClipExportOptions
+  ): Promise<Blob> {
+    const { start, end } = options;
+    const duration = end - start;
+    if (!(duration > 0)) {
+      throw new Error("This answer has no recorded length to export");
     }
 
-    try {
-      // Write input file
-      await this.ffmpeg.writeFile("input.webm", await fetchFile(webmBlob));
+    const { width, height } = options.audioOnly
+      ? DEFAULT_CLIP_SIZE
+      : await this.getClipSize(recording);
+    // Letterbox every picture to the same frame so the parts can be joined
+    const fit = [
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`,
+      "setsar=1",
+      `fps=${CLIP_FRAME_RATE}`,
+      "format=yuv420p",
+    ].join(",");
+    const totalDuration =
+      duration + (options.titleCard ? TITLE_CARD_SECONDS : 0);
+
+    const files: { name: string; data: Blob | Uint8Array }[] = [];
+    const inputs: string[] = [];
+    const filters: string[] = [];
+    let inputCount = 0;
+    const addInput = (...args: string[]) => {
+      inputs.push(...args);
+      return inputCount++;
+    };
 
-      // Convert to MP4
-      await this.ffmpeg.exec([
+    try {
+      files.push({ name: "clip-source", data: recording });
+      const source = addInput(
+        "-ss",
+        start.toFixed(3),
+        "-t",
+        duration.toFixed(3),
         "-i",
-        "input.webm",
-        "-c:v",
-        "libx264",
-        "-c:a",
-        "aac",
-        "-movflags",
-        "+faststart",
-        "output.mp4",
-      ]);
-
-      // Read output file
-      const data = await this.ffmpeg.readFile("output.mp4");
-
-      // Clean up files
-      await this.ffmpeg.deleteFile("input.webm");
-      await this.ffmpeg.deleteFile("output.mp4");
-
-      return new Blob([data], { type: "video/mp4" });
+        "clip-source"
+      );
+
+      if (options.audioOnly) {
+        const background = addInput(
+          "-f",
+          "lavfi",
+          "-t",
+          duration.toFixed(3),
+          "-i",
+          `color=c=${CLIP_BACKGROUND}:s=${width}x${height}:r=${CLIP_FRAME_RATE}`
+        );
+        filters.push(`[${background}:v]format=yuv420p[answer0]`);
+      } else {
+        filters.push(`[${source}:v]${fit}[answer0]`);
+      }
+      filters.push(
+        `[${source}:a]aresample=48000,aformat=channel_layouts=stereo[answeraudio]`
+      );
+
+      // Each caption is a transparent still overlaid while its cue is up
+      let answer = "answer0";
+      const cues = (options.captions || []).filter(
+        (cue) => cue.end > start && cue.start < end
+      );
+      for (const [i, cue] of cues.entries()) {
+        const name = `caption-${i}.png`;
+        files.push({
+          name,
+          data: await renderCaptionOverlay(width, height, cue.lines),
+        });
+        const overlay = addInput("-i", name);
+        const from = Math.max(0, cue.start - start).toFixed(3);
+        const to = Math.min(duration, cue.end - start).toFixed(3);
+        const next = `answer${i + 1}`;
+        filters.push(
+          `[${answer}][${overlay}:v]overlay=0:0:enable='between(t,${from},${to})'[${next}]`
+        );
+        answer = next;
+      }
+
+      let outputs = [`[${answer}]`, "[answeraudio]"];
+      if (options.titleCard) {
+        files.push({
+          name: "title.png",
+          data: await renderTitleCard(width, height, options.titleCard),
+        });
+        const title = addInput(
+          "-loop",
+          "1",
+          "-framerate",
+          String(CLIP_FRAME_RATE),
+          "-t",
+          String(TITLE_CARD_SECONDS),
+          "-i",
+          "title.png"
+        );
+        const silence = addInput(
+          "-f",
+          "lavfi",
+          "-t",
+          String(TITLE_CARD_SECONDS),
+          "-i",
+          "anullsrc=r=48000:cl=stereo"
+        );
+        filters.push(`[${title}:v]${fit}[title]`);
+        filters.push(
+          `[title][${silence}:a][${answer}][answeraudio]concat=n=2:v=1:a=1[clipv][clipa]`
+        );
+        outputs = ["[clipv]", "[clipa]"];
+      }
+
+      return await mediaJobService.run(
+        {
+          files,
+          args: [
+            ...inputs,
+            "-filter_complex",
+            filters.join(";"),
+            "-map",
+            outputs[0],
+            "-map",
+            outputs[1],
+            "-c:v",
+            "libx264",
+            "-preset",
+            "veryfast",
+            "-c:a",
+            "aac",
+            "-movflags",
+            "+faststart",
+            "clip-output.mp4",
+          ],
+          output: "clip-output.mp4",
+          outputType: "video/mp4",
+        },
+        {
+          onProgress: options.onProgress,
+          signal: options.signal,
+          duration: totalDuration,
+        }
+      );
     } catch (error) {
-      console.error("Video conversion failed:", error);
+      if (isMediaJobCancelled(error)) throw error;
+      console.error("Answer clip export failed:", error);
       throw new Error(
-        `Video conversion failed: ${
+        `Answer clip export failed: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
     }
   }
 
+  /**
+   * Output size for an exported clip: the recording's own size, capped and
+   * rounded to even dimensions for H.264
+   */
+  private async getClipSize(
+    recording: Blob
+  ): Promise<{ width: number; height: number }> {
+    try {
+      const { width, height } = await this.getVideoMetadata(recording);
+      if (!width || !height) return DEFAULT_CLIP_SIZE;
+
+      const scale = Math.min(1, MAX_CLIP_WIDTH / width);
+      const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+      return { width: even(width * scale), height: even(height * scale) };
+    } catch (error) {
+      console.warn("Could not read recording size for clip export:", error);
+      return DEFAULT_CLIP_SIZE;
+    }
+  }
+
   /**
    * Get video duration and metadata for better seeking
    */
@@ -108,47 +316,32 @@ class VideoConversionService {
   }
 
   /**
-   * Create a seekable video blob with proper metadata
+   * Create a seekable video blob with proper metadata. MediaRecorder output
+   * has no duration or cues, which remuxing adds without re-encoding.
    */
-  async createSeekableVideo(originalBlob: Blob): Promise<Blob> {
-    try {
-      if (!this.ffmpeg || !this.isLoaded) {
-        await this.initialize();
-      }
-
-      if (!this.ffmpeg) {
-        throw new Error("Failed to initialize FFmpeg");
-      }
-
-      // Write input file
-      await this.ffmpeg.writeFile("input.webm", await fetchFile(originalBlob));
+  async createSeekableVideo(
+    originalBlob: Blob,
+    options: MediaConversionOptions = {}
+  ): Promise<Blob> {
+    // Only WebM recordings lack seeking metadata
+    if (originalBlob.type && !originalBlob.type.includes("webm")) {
+      return originalBlob;
+    }
 
-      // Re-encode with proper metadata for seeking
-      await this.ffmpeg.exec([
-        "-i",
-        "input.webm",
-        "-c:v",
-        "libvpx-vp9",
-        "-c:a",
-        "libopus",
-        "-movflags",
-        "+faststart",
-        "-f",
-        "webm",
-        "output.webm",
-      ]);
-
-      // Read output file
-      const data = await this.ffmpeg.readFile("output.webm");
-
-      // Clean up files
-      await this.ffmpeg.deleteFile("input.webm");
-      await this.ffmpeg.deleteFile("output.webm");
-
-      return new Blob([data], { type: "video/webm" });
+    try {
+      return await mediaJobService.run(
+        {
+          files: [{ name: "input.webm", data: originalBlob }],
+          args: ["-i", "input.webm", "-c", "copy", "-f", "webm", "output.webm"],
+          output: "output.webm",
+          outputType: originalBlob.type || "video/webm",
+        },
+        options
+      );
     } catch (error) {
-      console.warn("Video re-encoding failed, using original blob:", error);
-      // Return original blob if re-encoding fails
+      if (isMediaJobCancelled(error)) throw error;
+      console.warn("Video remuxing failed, using original blob:", error);
+      // Return original blob if remuxing fails
       return originalBlob;
     }
   }
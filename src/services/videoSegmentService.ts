@@ -1,24 +1,51 @@
 import {
   unifiedTranscriptionService,
   type QuestionResponse,
+  type TranscriptionOptions,
 } from "./unifiedTranscriptionService";
 import type {
   TranscribedWord,
   TranscriptionResult,
 } from "./deepgramTranscriptionService";
+import {
+  computeSpeechMetrics,
+  estimateSpeechMetricsFromText,
+  type SpeechMetrics,
+} from "../utils/speechMetrics";
+import { getLanguageConfig } from "../config/languages";
+import { findFillerWords } from "./aiAnalysisPrompts";
+import {
+  detectSpeechRegions,
+  snapWindowsToSpeech,
+  type QuestionWindow,
+} from "../utils/voiceActivity";
+import type { AnswerClip } from "./answerClipStorageService";
 
-interface QuestionSegment {
+export interface QuestionSegment {
   questionId: string;
   questionText: string;
   startTime: number;
   endTime: number;
-  duration: number;
+  duration: number; // seconds of recorded answer, pauses excluded
+  shownTime?: number; // epoch ms when the question appeared (before the prep gap)
+  // Positions in the recording (seconds), with paused time removed
+  mediaStart: number;
+  mediaEnd: number;
+  mediaShownAt: number;
+}
+
+interface PauseInterval {
+  start: number; // epoch ms
+  end: number | null; // null while still paused
 }
 
 class VideoSegmentService {
   private questionSegments: QuestionSegment[] = [];
   private currentQuestionStartTime: number | null = null;
+  private currentQuestionShownTime: number | null = null;
+  private pendingQuestionShownTime: number | null = null;
   private recordingStartEpochMs: number | null = null;
+  private pauseIntervals: PauseInterval[] = [];
   private prepGapSeconds: number = 10;
 
   /**
@@ -27,6 +54,8 @@ class VideoSegmentService {
   startQuestionSegment(questionId: string, questionText: string): void {
     const startTime = Date.now();
     this.currentQuestionStartTime = startTime;
+    this.currentQuestionShownTime = this.pendingQuestionShownTime ?? startTime;
+    this.pendingQuestionShownTime = null;
 
     // Set recording start time on first question
     if (!this.recordingStartEpochMs) {
@@ -43,21 +72,70 @@ class VideoSegmentService {
       return;
     }
 
-    const endTime = Date.now();
-    // Add a 2-second buffer to ensure we capture the complete response
-    const bufferedEndTime = endTime + 2000;
-    const duration = (bufferedEndTime - this.currentQuestionStartTime) / 1000; // Convert to seconds
+    // Boundaries are snapped to speech at transcription time, so no buffer here
+    this.questionSegments.push(
+      this.buildSegment(
+        questionId,
+        questionText,
+        this.currentQuestionStartTime,
+        Date.now()
+      )
+    );
+    this.currentQuestionStartTime = null;
+    this.currentQuestionShownTime = null;
+  }
+
+  /**
+   * Get the segments so far, with the question in progress closed at the
+   * current time. Tracking state is left untouched.
+   */
+  getSegmentsSnapshot(current?: {
+    id: string;
+    text: string;
+  }): QuestionSegment[] {
+    const segments = [...this.questionSegments];
+    if (current && this.currentQuestionStartTime) {
+      segments.push(
+        this.buildSegment(
+          current.id,
+          current.text,
+          this.currentQuestionStartTime,
+          Date.now()
+        )
+      );
+    }
+    return segments;
+  }
+
+  private buildSegment(
+    questionId: string,
+    questionText: string,
+    startTime: number,
+    endTime: number
+  ): QuestionSegment {
+    const shownTime = this.currentQuestionShownTime ?? startTime;
+    const mediaStart = this.toMediaTime(startTime);
+    const mediaEnd = this.toMediaTime(endTime);
 
-    const segment: QuestionSegment = {
+    return {
       questionId,
       questionText,
-      startTime: this.currentQuestionStartTime,
-      endTime: bufferedEndTime,
-      duration,
+      startTime,
+      endTime,
+      duration: mediaEnd - mediaStart,
+      shownTime,
+      mediaStart,
+      mediaEnd,
+      mediaShownAt: Math.min(this.toMediaTime(shownTime), mediaStart),
     };
+  }
 
-    this.questionSegments.push(segment);
-    this.currentQuestionStartTime = null;
+  /**
+   * Record when the next question became visible, so time-to-first-word
+   * can be measured from the moment it appeared rather than after the prep gap
+   */
+  markQuestionShown(): void {
+    this.pendingQuestionShownTime = Date.now();
   }
 
   /**
@@ -65,6 +143,50 @@ class VideoSegmentService {
    */
   markRecordingStart(): void {
     this.recordingStartEpochMs = Date.now();
+    this.pauseIntervals = [];
+  }
+
+  /**
+   * Record that the recorder was paused; paused time is not in the media
+   */
+  markRecordingPaused(): void {
+    const last = this.pauseIntervals[this.pauseIntervals.length - 1];
+    if (last && last.end === null) return;
+    this.pauseIntervals.push({ start: Date.now(), end: null });
+  }
+
+  /**
+   * Record that the recorder resumed after a pause
+   */
+  markRecordingResumed(): void {
+    const last = this.pauseIntervals[this.pauseIntervals.length - 1];
+    if (last && last.end === null) {
+      last.end = Date.now();
+    }
+  }
+
+  /**
+   * Convert a wall-clock time (epoch ms) to seconds into the recording.
+   * Times inside a pause map to the moment the pause began.
+   */
+  toMediaTime(epochMs: number): number {
+    if (!this.recordingStartEpochMs) return 0;
+
+    let pausedMs = 0;
+    for (const pause of this.pauseIntervals) {
+      if (pause.start >= epochMs) break;
+      pausedMs += Math.min(pause.end ?? epochMs, epochMs) - pause.start;
+    }
+
+    const recordedMs = epochMs - this.recordingStartEpochMs - pausedMs;
+    return Math.max(0, recordedMs / 1000);
+  }
+
+  /**
+   * Get how many seconds have been recorded so far, pauses excluded
+   */
+  getRecordedDuration(): number {
+    return this.toMediaTime(Date.now());
   }
 
   /**
@@ -94,7 +216,10 @@ class VideoSegmentService {
   resetQuestionSegments(): void {
     this.questionSegments = [];
     this.currentQuestionStartTime = null;
+    this.currentQuestionShownTime = null;
+    this.pendingQuestionShownTime = null;
     this.recordingStartEpochMs = null;
+    this.pauseIntervals = [];
   }
 
   /**
@@ -102,7 +227,8 @@ class VideoSegmentService {
    */
   async transcribeQuestionSegments(
     videoBlob: Blob,
-    segmentsToTranscribe?: QuestionSegment[]
+    segmentsToTranscribe?: QuestionSegment[],
+    transcriptionOptions?: Partial<TranscriptionOptions>
   ): Promise<QuestionResponse[]> {
     // Use provided segments or fall back to internal segments
     const segments = segmentsToTranscribe || this.questionSegments;
@@ -117,8 +243,14 @@ class VideoSegmentService {
     // Transcribe entire video and split logically
     try {
       const fullTranscription =
-        await unifiedTranscriptionService.transcribeVideoDirectly(videoBlob);
+        await unifiedTranscriptionService.transcribeVideoDirectly(
+          videoBlob,
+          transcriptionOptions
+        );
       const fullText = fullTranscription.text;
+      const language = getLanguageConfig(
+        transcriptionOptions?.language ?? fullTranscription.language
+      ).code;
       const words = (fullTranscription as any).words as
         | TranscribedWord[]
         | undefined;
@@ -155,7 +287,8 @@ class VideoSegmentService {
               this.createQuestionResponse(
                 segment,
                 segmentText,
-                segment.duration
+                segment.duration,
+                language
               )
             );
           }
@@ -181,41 +314,58 @@ class VideoSegmentService {
               this.createQuestionResponse(
                 segment,
                 segmentText,
-                segment.duration
+                segment.duration,
+                language
               )
             );
           }
         }
-      } else if (this.recordingStartEpochMs) {
-        // Precise mapping using Deepgram word-level timestamps
+      } else if (
+        this.recordingStartEpochMs ||
+        segments.some((seg) => seg.mediaEnd > 0)
+      ) {
+        // Precise mapping using word-level timestamps, with each question's
+        // window snapped to the speech it actually contains. Recovered
+        // recordings carry their media positions without a live timeline.
+        const windows = this.getAnswerWindows(segments, words);
+        const midpoint = (item: { start: number; end: number }) =>
+          (item.start + item.end) / 2;
+
         for (let i = 0; i < segments.length; i++) {
           const seg = segments[i];
-          // Do not add prep gap here: startQuestionSegment already fires after the 10s thinking window
-          const absoluteStartMs = seg.startTime - this.recordingStartEpochMs;
-          const absoluteEndMs = seg.endTime - this.recordingStartEpochMs;
-
-          const startSec = Math.max(0, absoluteStartMs / 1000);
+          const startSec = windows[i].start;
           // Add tiny epsilon so end > start even when rounded
-          const endSec = Math.max(startSec + 0.05, absoluteEndMs / 1000);
-
-          // Prefer sentence-level selection to preserve punctuation
-          const sentenceSlice = sentences.filter(
-            (s) => s.end > startSec && s.start < endSec
-          );
-          let segmentText = sentenceSlice.map((s) => s.text).join(" ");
+          const endSec = Math.max(startSec + 0.05, windows[i].end);
+          const inWindow = (item: { start: number; end: number }) =>
+            midpoint(item) >= startSec && midpoint(item) < endSec;
+
+          // Prefer sentence-level selection to preserve punctuation. Each
+          // sentence belongs to the window holding its midpoint, so a sentence
+          // spanning a boundary is never given to both questions.
+          let segmentText = sentences
+            .filter(inWindow)
+            .map((s) => s.text)
+            .join(" ");
 
           if (!segmentText || segmentText.trim().length === 0) {
             // Fallback to words within range
-            const startIndex = words.findIndex((w) => w.end > startSec);
-            let endIndex = words.findIndex((w) => w.start >= endSec);
-            if (endIndex === -1) endIndex = words.length;
-            const segmentWords =
-              startIndex >= 0 ? words.slice(startIndex, endIndex) : [];
-            segmentText = this.formatSegmentFromWords(segmentWords);
+            segmentText = this.formatSegmentFromWords(words.filter(inWindow));
           }
 
+          const speechMetrics = computeSpeechMetrics(words, {
+            start: startSec,
+            end: endSec,
+            questionShownAt: Math.min(seg.mediaShownAt, startSec),
+          });
+
           responses.push(
-            this.createQuestionResponse(seg, segmentText, seg.duration)
+            this.createQuestionResponse(
+              seg,
+              segmentText,
+              seg.duration,
+              language,
+              speechMetrics
+            )
           );
         }
       } else {
@@ -231,7 +381,12 @@ class VideoSegmentService {
           );
           const segmentText = splitWords.slice(startWord, endWord).join(" ");
           responses.push(
-            this.createQuestionResponse(segment, segmentText, segment.duration)
+            this.createQuestionResponse(
+              segment,
+              segmentText,
+              segment.duration,
+              language
+            )
           );
         }
       }
@@ -247,6 +402,88 @@ class VideoSegmentService {
     }
   }
 
+  /**
+   * Transcribe per-question answer clips in parallel, once the clips' total
+   * length fits the spend budget. Each clip holds exactly one answer, so no
+   * boundary mapping is needed.
+   */
+  async transcribeQuestionClips(
+    clips: AnswerClip[],
+    transcriptionOptions?: Partial<TranscriptionOptions>
+  ): Promise<QuestionResponse[]> {
+    try {
+      const options = await unifiedTranscriptionService.checkBatchBudget(
+        clips.reduce((sum, { metadata }) => sum + (metadata.duration || 0), 0),
+        transcriptionOptions
+      );
+      return await Promise.all(
+        clips.map(async ({ metadata, blob }) => {
+          const result =
+            await unifiedTranscriptionService.transcribeVideoDirectly(blob, {
+              ...options,
+              estimatedDurationSeconds: metadata.duration,
+            });
+          const language = getLanguageConfig(
+            options?.language ?? result.language
+          ).code;
+          const duration = metadata.duration || result.duration;
+          const segment: QuestionSegment = {
+            questionId: metadata.questionId,
+            questionText: metadata.questionText,
+            startTime: metadata.timestamp,
+            endTime: metadata.timestamp,
+            duration,
+            mediaStart: 0,
+            mediaEnd: duration,
+            mediaShownAt: 0,
+          };
+
+          // Clips start when the question is shown, so latency is from 0
+          const speechMetrics =
+            result.words && result.words.length > 0
+              ? computeSpeechMetrics(result.words, {
+                  start: 0,
+                  end: duration,
+                  questionShownAt: 0,
+                })
+              : undefined;
+
+          return this.createQuestionResponse(
+            segment,
+            result.text,
+            duration,
+            language,
+            speechMetrics
+          );
+        })
+      );
+    } catch (error) {
+      console.error("Error transcribing answer clips:", error);
+      throw new Error(
+        `Answer clip transcription failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Get each question's answer window in recording time, snapped to the start
+   * and end of the transcribed speech
+   */
+  private getAnswerWindows(
+    segments: QuestionSegment[],
+    words: TranscribedWord[]
+  ): QuestionWindow[] {
+    const windows = segments.map((seg) => ({
+      start: seg.mediaStart,
+      end: seg.mediaEnd,
+      shownAt: seg.mediaShownAt,
+    }));
+
+    return snapWindowsToSpeech(windows, detectSpeechRegions(words));
+  }
+
   /**
    * Build a readable segment from timed words. Inserts sentence breaks when large time gaps occur.
    */
@@ -289,7 +526,12 @@ class VideoSegmentService {
   private createQuestionResponse(
     segment: QuestionSegment,
     segmentText: string,
-    duration: number
+    duration: number,
+    language: string,
+    speechMetrics: SpeechMetrics = estimateSpeechMetricsFromText(
+      segmentText,
+      duration
+    )
   ): QuestionResponse {
     const mockAudioBlob = new Blob([segmentText], { type: "text/plain" });
 
@@ -301,19 +543,17 @@ class VideoSegmentService {
       duration: duration,
       transcription: {
         text: segmentText,
-        language: "en",
+        language,
         duration: duration,
         confidence: 0.8,
       },
       analysis: {
         wordCount: segmentText.split(" ").length,
-        speakingRate:
-          duration > 0
-            ? Math.round((segmentText.split(" ").length / duration) * 60)
-            : 0,
-        fillerWords: this.countFillerWords(segmentText).words,
+        speakingRate: speechMetrics.wordsPerMinute,
+        fillerWords: this.countFillerWords(segmentText, language).words,
         confidence: 0.8,
       },
+      speechMetrics,
       timestamp: segment.startTime,
     };
   }
@@ -321,18 +561,11 @@ class VideoSegmentService {
   /**
    * Count filler words in text and return both count and list
    */
-  private countFillerWords(text: string): { count: number; words: string[] } {
-    const fillerWords = [
-      "um",
-      "uh",
-      "like",
-      "you know",
-      "so",
-      "well",
-      "actually",
-    ];
-    const words = text.toLowerCase().split(/\s+/);
-    const foundFillerWords = words.filter((word) => fillerWords.includes(word));
+  private countFillerWords(
+    text: string,
+    language: string
+  ): { count: number; words: string[] } {
+    const foundFillerWords = findFillerWords(text, language);
     return {
       count: foundFillerWords.length,
       words: foundFillerWords,
@@ -345,6 +578,8 @@ class VideoSegmentService {
   clearSegments(): void {
     this.questionSegments = [];
     this.currentQuestionStartTime = null;
+    this.currentQuestionShownTime = null;
+    this.pendingQuestionShownTime = null;
   }
 
   /**
@@ -3,6 +3,8 @@
  * Matches the database schema for interview_analysis and interview_summary tables
  */
 
+import type { SpeechMetrics } from "../utils/speechMetrics";
+
 // Supporting interfaces for nested objects
 
 export interface CommunicationScores {
@@ -49,6 +51,7 @@ export interface InterviewAnalysis {
   improved_example: string | null;
   filler_words: FillerWords | null;
   speaking_pace: number | null; // Database stores as integer: 1=too_fast, 2=appropriate, 3=too_slow
+  speech_metrics: SpeechMetrics | null; // Derived from word timestamps
   confidence_score: number | null;
   tokens_used: number | null;
   input_tokens: number | null;
@@ -104,6 +107,7 @@ export interface InterviewAnalysisInsert {
   improved_example?: string;
   filler_words?: FillerWords;
   speaking_pace?: number; // Database stores as integer: 1=too_fast, 2=appropriate, 3=too_slow
+  speech_metrics?: SpeechMetrics | null;
   confidence_score?: number;
   tokens_used?: number;
   input_tokens?: number;
@@ -159,6 +163,7 @@ export interface InterviewAnalysisUpdate {
   improved_example?: string;
   filler_words?: FillerWords;
   speaking_pace?: number; // Database stores as integer: 1=too_fast, 2=appropriate, 3=too_slow
+  speech_metrics?: SpeechMetrics | null;
   confidence_score?: number;
   tokens_used?: number;
   input_tokens?: number;
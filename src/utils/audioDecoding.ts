@@ -0,0 +1,33 @@
+/**
+ * Decode a recording's audio track into mono PCM samples
+ */
+
+// Speech models work on 16kHz mono
+export const SPEECH_SAMPLE_RATE = 16000;
+
+/**
+ * Decode the recording's audio track and resample it to mono
+ */
+export async function decodeToMonoPcm(
+  blob: Blob,
+  sampleRate: number = SPEECH_SAMPLE_RATE
+): Promise<Float32Array> {
+  const arrayBuffer = await blob.arrayBuffer();
+  const audioContext = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+
+  const frameCount = Math.max(1, Math.ceil(decoded.duration * sampleRate));
+  const offline = new OfflineAudioContext(1, frameCount, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
@@ -0,0 +1,219 @@
+/**
+ * Caption cues built from word-level transcription timestamps, with WebVTT
+ * and SRT serialisation for the players' <track> and for download
+ */
+
+import type { TranscribedWord } from "../services/deepgramTranscriptionService";
+
+export interface CaptionCue {
+  start: number; // seconds from recording start
+  end: number; // seconds from recording start
+  lines: string[];
+}
+
+export interface CaptionOptions {
+  maxLineLength: number; // characters per line
+  maxLines: number; // lines per cue
+  maxDuration: number; // seconds a single cue may stay on screen
+  minDuration: number; // seconds a cue stays up, unless the next one starts
+  maxGap: number; // silence in seconds that always starts a new cue
+  // Times that no cue may span, e.g. where each question starts
+  boundaries?: number[];
+}
+
+export interface TimedText {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type CaptionFormat = "vtt" | "srt";
+
+// Broadcast subtitle guidance: two lines of up to 42 characters, on screen
+// for no more than 7 seconds
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxDuration: 7,
+  minDuration: 1,
+  maxGap: 1.5,
+};
+
+// A cue may end early at a sentence break once it holds this many characters
+const SENTENCE_BREAK_MIN_CHARS = 20;
+
+const endsSentence = (word: string) => /[.!?]["')\]]*$/.test(word);
+
+/**
+ * Spread each segment's words evenly over its time range, for transcripts
+ * that only have segment-level timing
+ */
+export function wordsFromTimedText(segments: TimedText[]): TranscribedWord[] {
+  return segments.flatMap((segment) => {
+    const parts = segment.text.split(/\s+/).filter(Boolean);
+    const step = (segment.end - segment.start) / Math.max(parts.length, 1);
+    return parts.map((word, i) => ({
+      word,
+      start: segment.start + i * step,
+      end: segment.start + (i + 1) * step,
+    }));
+  });
+}
+
+/**
+ * Wrap cue text into lines of at most `maxLineLength` characters, keeping
+ * two-line cues roughly balanced. Long cues are split by the caller, so any
+ * overflow only happens with a single very long word.
+ */
+function wrapLines(words: string[], maxLineLength: number): string[] {
+  const text = words.join(" ");
+  if (text.length <= maxLineLength) return [text];
+
+  // Break where the longer of the two lines is shortest
+  let best: string[] | null = null;
+  for (let i = 1; i < words.length; i++) {
+    const lines = [words.slice(0, i).join(" "), words.slice(i).join(" ")];
+    const longest = Math.max(lines[0].length, lines[1].length);
+    if (longest > maxLineLength) continue;
+    if (!best || longest < Math.max(best[0].length, best[1].length)) {
+      best = lines;
+    }
+  }
+  if (best) return best;
+
+  const lines: string[] = [];
+  let line = "";
+  for (const word of words) {
+    if (line && line.length + word.length + 1 > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  return line ? [...lines, line] : lines;
+}
+
+/**
+ * Group words into caption cues that respect line length, line count,
+ * on-screen duration, pauses and question boundaries
+ */
+export function buildCaptionCues(
+  words: TranscribedWord[],
+  options: Partial<CaptionOptions> = {}
+): CaptionCue[] {
+  const settings = { ...DEFAULT_CAPTION_OPTIONS, ...options };
+  const maxChars = settings.maxLineLength * settings.maxLines;
+  const boundaries = [...(settings.boundaries || [])].sort((a, b) => a - b);
+  const sorted = words
+    .filter((w) => w.word.trim() && Number.isFinite(w.start))
+    .sort((a, b) => a.start - b.start);
+
+  const groups: TranscribedWord[][] = [];
+  let current: TranscribedWord[] = [];
+  let chars = 0;
+
+  for (const word of sorted) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const nextChars = chars + 1 + word.word.length;
+      const crossesBoundary = boundaries.some(
+        (time) => previous.start < time && word.start >= time
+      );
+      const shouldBreak =
+        nextChars > maxChars ||
+        word.end - current[0].start > settings.maxDuration ||
+        word.start - previous.end > settings.maxGap ||
+        crossesBoundary ||
+        (endsSentence(previous.word) && chars >= SENTENCE_BREAK_MIN_CHARS);
+      if (shouldBreak) {
+        groups.push(current);
+        current = [];
+        chars = 0;
+      }
+    }
+    chars += (current.length > 0 ? 1 : 0) + word.word.length;
+    current.push(word);
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups.map((group, i) => {
+    const start = group[0].start;
+    const nextStart = groups[i + 1]?.[0].start ?? Infinity;
+    const spoken = Math.max(group[group.length - 1].end, start);
+    // Short cues linger so they can be read, but never overlap the next one
+    const end = Math.min(
+      Math.max(spoken, start + settings.minDuration),
+      Math.max(nextStart, spoken)
+    );
+    return {
+      start,
+      end,
+      lines: wrapLines(
+        group.map((w) => w.word.trim()),
+        settings.maxLineLength
+      ),
+    };
+  });
+}
+
+const formatTimestamp = (seconds: number, separator: "." | ","): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  const hours = pad(Math.floor(totalSeconds / 3600));
+  const minutes = pad(Math.floor((totalSeconds % 3600) / 60));
+  const secs = pad(totalSeconds % 60);
+  return `${hours}:${minutes}:${secs}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+const formatCue = (cue: CaptionCue, separator: "." | ","): string =>
+  `${formatTimestamp(cue.start, separator)} --> ${formatTimestamp(
+    cue.end,
+    separator
+  )}\n${cue.lines.join("\n")}`;
+
+/**
+ * Serialise cues as a WebVTT file
+ */
+export function toWebVTT(cues: CaptionCue[]): string {
+  return (
+    ["WEBVTT", ...cues.map((cue) => formatCue(cue, "."))].join("\n\n") + "\n"
+  );
+}
+
+/**
+ * Serialise cues as an SRT file
+ */
+export function toSRT(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatCue(cue, ",")}\n`)
+    .join("\n");
+}
+
+/**
+ * WebVTT as a data URL, for a <track> source that needs no cleanup
+ */
+export function toWebVTTDataUrl(cues: CaptionCue[]): string {
+  return `data:text/vtt;charset=utf-8,${encodeURIComponent(toWebVTT(cues))}`;
+}
+
+/**
+ * Download cues as a caption file
+ */
+export function downloadCaptions(
+  cues: CaptionCue[],
+  format: CaptionFormat,
+  fileName: string
+): void {
+  const blob = new Blob([format === "vtt" ? toWebVTT(cues) : toSRT(cues)], {
+    type: format === "vtt" ? "text/vtt" : "application/x-subrip",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
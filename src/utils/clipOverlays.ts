@@ -0,0 +1,133 @@
+/**
+ * Still images for exported answer clips: a title card with the question and
+ * caption overlays. They are drawn with the app's own fonts on a canvas and
+ * composited by ffmpeg, which has no fonts of its own in the browser.
+ */
+
+export interface TitleCardText {
+  eyebrow: string; // small line above the question, e.g. "Question 2"
+  title: string;
+}
+
+const BACKGROUND = "#0f172a";
+const ACCENT = "#38bdf8";
+const TEXT = "#f8fafc";
+const DISPLAY_FONT = "Outfit, system-ui, sans-serif";
+const BODY_FONT = "Inter, system-ui, sans-serif";
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+  return { canvas, context };
+};
+
+const toPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) =>
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error("Failed to render clip overlay"));
+        return;
+      }
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, "image/png")
+  );
+
+/**
+ * Break text into lines that fit `maxWidth` with the context's current font
+ */
+function wrapText(
+  context: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number
+): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  return line ? [...lines, line] : lines;
+}
+
+/**
+ * Render a full-frame title card showing the question
+ */
+export async function renderTitleCard(
+  width: number,
+  height: number,
+  text: TitleCardText
+): Promise<Uint8Array> {
+  await document.fonts?.ready;
+  const { canvas, context } = createCanvas(width, height);
+  const unit = height / 720;
+  const margin = width * 0.1;
+
+  context.fillStyle = BACKGROUND;
+  context.fillRect(0, 0, width, height);
+
+  context.font = `600 ${Math.round(44 * unit)}px ${DISPLAY_FONT}`;
+  const lineHeight = 58 * unit;
+  // Very long questions are cut rather than shrunk past readability
+  const lines = wrapText(context, text.title, width - margin * 2).slice(0, 6);
+  const blockHeight = 48 * unit + lines.length * lineHeight;
+  let y = (height - blockHeight) / 2;
+
+  context.textBaseline = "top";
+  context.fillStyle = ACCENT;
+  context.font = `600 ${Math.round(24 * unit)}px ${BODY_FONT}`;
+  context.fillText(text.eyebrow.toUpperCase(), margin, y);
+  y += 48 * unit;
+
+  context.fillStyle = TEXT;
+  context.font = `600 ${Math.round(44 * unit)}px ${DISPLAY_FONT}`;
+  for (const line of lines) {
+    context.fillText(line, margin, y);
+    y += lineHeight;
+  }
+
+  return toPng(canvas);
+}
+
+/**
+ * Render caption lines on a transparent frame, boxed near the bottom edge
+ */
+export async function renderCaptionOverlay(
+  width: number,
+  height: number,
+  lines: string[]
+): Promise<Uint8Array> {
+  await document.fonts?.ready;
+  const { canvas, context } = createCanvas(width, height);
+  const fontSize = Math.round(height * 0.045);
+  const lineHeight = fontSize * 1.3;
+  const padding = fontSize * 0.4;
+
+  context.font = `500 ${fontSize}px ${BODY_FONT}`;
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+
+  let y = height * 0.92 - (lines.length - 1) * lineHeight;
+  for (const line of lines) {
+    const lineWidth = context.measureText(line).width;
+    context.fillStyle = "rgba(0, 0, 0, 0.7)";
+    context.fillRect(
+      (width - lineWidth) / 2 - padding,
+      y - lineHeight / 2,
+      lineWidth + padding * 2,
+      lineHeight
+    );
+    context.fillStyle = "#ffffff";
+    context.fillText(line, width / 2, y);
+    y += lineHeight;
+  }
+
+  return toPng(canvas);
+}
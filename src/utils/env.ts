@@ -42,11 +42,6 @@ export function getEnvVar(key: string): string | undefined {
   return undefined;
 }
 
-export function getOpenRouterApiKey(): string {
-  const key = getEnvVar("VITE_OPENROUTER_API_KEY");
-  return key || "";
-}
-
 export function getSupabaseUrl(): string {
   return getEnvVar("VITE_SUPABASE_URL") || "";
 }
@@ -54,7 +49,3 @@ export function getSupabaseUrl(): string {
 export function getSupabaseAnonKey(): string {
   return getEnvVar("VITE_SUPABASE_ANON_KEY") || "";
 }
-
-export function getDeepgramApiKey(): string {
-  return getEnvVar("VITE_DEEPGRAM_API_KEY") || "";
-}
@@ -0,0 +1,77 @@
+/**
+ * IndexedDB helper for the app's side databases (answer clips, recording
+ * recovery, transcription cache). Each gets its own database instead of a
+ * store in AmplifyInterviewDB, because bumping that database's version makes
+ * localVideoStorageService recreate its video store.
+ */
+
+export interface IndexedDbStoreOptions {
+  name: string;
+  version: number;
+  label: string; // used in error messages, e.g. "Answer clip storage"
+  upgrade: (db: IDBDatabase) => void;
+}
+
+export class IndexedDbStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private options: IndexedDbStoreOptions) {}
+
+  /**
+   * Open the database once and share the connection
+   */
+  open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(
+          this.options.name,
+          this.options.version
+        );
+
+        request.onerror = () => {
+          console.error(`${this.options.label} open error:`, request.error);
+          reject(new Error(`Failed to open ${this.options.label}`));
+        };
+
+        request.onsuccess = () => {
+          resolve(request.result);
+        };
+
+        request.onupgradeneeded = () => {
+          this.options.upgrade(request.result);
+        };
+      }).catch((error) => {
+        // Let the next request try again
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a single request against one store
+   */
+  async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([storeName], mode);
+      const request = run(transaction.objectStore(storeName));
+
+      request.onsuccess = () => {
+        resolve(request.result as T);
+      };
+
+      request.onerror = () => {
+        reject(
+          request.error || new Error(`${this.options.label} request failed`)
+        );
+      };
+    });
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Screen-share capture: composites the shared screen with a picture-in-picture
+ * camera overlay into one video track, so segments, clips and playback treat
+ * it exactly like a camera recording
+ */
+
+// What an interview records: the camera, the shared screen with a camera
+// overlay, or the microphone alone
+export type CaptureMode = "camera" | "screen" | "audio";
+
+export interface CompositeStream {
+  stream: MediaStream; // composited video plus the microphone audio
+  stop: () => void;
+}
+
+export interface CompositeOptions {
+  onScreenShareEnded?: () => void; // user pressed the browser's "Stop sharing"
+}
+
+const FRAME_RATE = 30;
+const MAX_OUTPUT_WIDTH = 1920;
+const PIP_WIDTH_RATIO = 0.22; // camera overlay width relative to the screen
+const PIP_MARGIN_RATIO = 0.02;
+
+/**
+ * Check whether this browser can record the screen
+ */
+export function isScreenCaptureSupported(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    !!navigator.mediaDevices?.getDisplayMedia &&
+    typeof HTMLCanvasElement !== "undefined" &&
+    "captureStream" in HTMLCanvasElement.prototype
+  );
+}
+
+/**
+ * Ask the user for a screen to share and combine it with the camera. Must be
+ * called from a click handler; browsers reject screen capture otherwise.
+ */
+export async function createScreenWithCameraStream(
+  cameraStream: MediaStream,
+  options: CompositeOptions = {}
+): Promise<CompositeStream> {
+  const screenStream = await navigator.mediaDevices.getDisplayMedia({
+    video: { frameRate: { ideal: FRAME_RATE } },
+    audio: false,
+  });
+  const screenTrack = screenStream.getVideoTracks()[0];
+
+  let screenVideo: HTMLVideoElement;
+  let cameraVideo: HTMLVideoElement;
+  try {
+    screenVideo = await playHiddenVideo(screenStream);
+    cameraVideo = await playHiddenVideo(
+      new MediaStream(cameraStream.getVideoTracks())
+    );
+  } catch (error) {
+    screenStream.getTracks().forEach((track) => track.stop());
+    throw error;
+  }
+
+  const settings = screenTrack.getSettings();
+  const sourceWidth = settings.width || 1920;
+  const sourceHeight = settings.height || 1080;
+  const scale = Math.min(1, MAX_OUTPUT_WIDTH / sourceWidth);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    screenStream.getTracks().forEach((track) => track.stop());
+    throw new Error("Canvas 2D context is not available");
+  }
+
+  let screenEnded = false;
+  screenTrack.addEventListener("ended", () => {
+    screenEnded = true;
+    options.onScreenShareEnded?.();
+  });
+
+  const draw = () => {
+    const { width, height } = canvas;
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, width, height);
+
+    // Once sharing stops, keep recording with the camera filling the frame
+    if (screenEnded) {
+      drawContained(ctx, cameraVideo, 0, 0, width, height);
+      return;
+    }
+
+    drawContained(ctx, screenVideo, 0, 0, width, height);
+
+    const pipWidth = width * PIP_WIDTH_RATIO;
+    const cameraAspect =
+      cameraVideo.videoWidth && cameraVideo.videoHeight
+        ? cameraVideo.videoHeight / cameraVideo.videoWidth
+        : 9 / 16;
+    const pipHeight = pipWidth * cameraAspect;
+    const margin = width * PIP_MARGIN_RATIO;
+    const x = width - pipWidth - margin;
+    const y = height - pipHeight - margin;
+
+    ctx.fillStyle = "rgba(255, 255, 255, 0.85)";
+    ctx.fillRect(x - 2, y - 2, pipWidth + 4, pipHeight + 4);
+    drawContained(ctx, cameraVideo, x, y, pipWidth, pipHeight);
+  };
+
+  const stopTicker = startFrameTicker(draw);
+  const canvasStream = canvas.captureStream(FRAME_RATE);
+
+  return {
+    stream: new MediaStream([
+      ...canvasStream.getVideoTracks(),
+      ...cameraStream.getAudioTracks(),
+    ]),
+    stop: () => {
+      stopTicker();
+      canvasStream.getTracks().forEach((track) => track.stop());
+      screenStream.getTracks().forEach((track) => track.stop());
+      screenVideo.srcObject = null;
+      cameraVideo.srcObject = null;
+    },
+  };
+}
+
+async function playHiddenVideo(
+  stream: MediaStream
+): Promise<HTMLVideoElement> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+  return video;
+}
+
+/**
+ * Draw a video scaled to fit the box, keeping its aspect ratio
+ */
+function drawContained(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  if (video.readyState < 2 || !video.videoWidth || !video.videoHeight) return;
+
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.drawImage(
+    video,
+    x + (width - drawWidth) / 2,
+    y + (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+}
+
+/**
+ * Call `onFrame` at the output frame rate. Timers in a worker keep running
+ * while the interview tab is in the background (the user is usually looking
+ * at the shared window), where main-thread timers are throttled.
+ */
+function startFrameTicker(onFrame: () => void): () => void {
+  const interval = Math.round(1000 / FRAME_RATE);
+
+  try {
+    const source = `setInterval(() => postMessage(0), ${interval});`;
+    const url = URL.createObjectURL(
+      new Blob([source], { type: "application/javascript" })
+    );
+    const worker = new Worker(url);
+    worker.onmessage = onFrame;
+    return () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    };
+  } catch (error) {
+    console.warn("Frame worker unavailable, using main-thread timer", error);
+    const timer = setInterval(onFrame, interval);
+    return () => clearInterval(timer);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Speech metrics derived from word-level transcription timestamps
+ */
+
+import type { TranscribedWord } from "../services/deepgramTranscriptionService";
+
+export interface PaceTimelinePoint {
+  time: number; // seconds since the question appeared
+  wpm: number;
+}
+
+export interface SpeechMetrics {
+  wordCount: number;
+  speakingDuration: number; // seconds from first to last word
+  wordsPerMinute: number;
+  paceTimeline: PaceTimelinePoint[];
+  longPauseCount: number;
+  longestPause: number; // seconds
+  timeToFirstWord: number | null; // seconds from question shown to first word
+}
+
+export interface SpeechMetricsWindow {
+  start: number; // seconds from recording start (answer window start)
+  end: number; // seconds from recording start (answer window end)
+  questionShownAt?: number; // seconds from recording start, defaults to start
+}
+
+// Silence between two words at or above this counts as a long pause
+export const LONG_PAUSE_SECONDS = 2;
+// Width of each bucket in the pace timeline
+export const PACE_BUCKET_SECONDS = 10;
+
+const round = (value: number, digits = 2): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Select the words that fall inside an answer window
+ */
+export function getWordsInWindow(
+  words: TranscribedWord[],
+  window: SpeechMetricsWindow
+): TranscribedWord[] {
+  const from = Math.min(window.start, window.questionShownAt ?? window.start);
+  return words.filter((w) => w.start >= from && w.start < window.end);
+}
+
+/**
+ * Compute speaking rate, pace timeline and pause statistics for one answer
+ */
+export function computeSpeechMetrics(
+  words: TranscribedWord[],
+  window: SpeechMetricsWindow
+): SpeechMetrics {
+  const answerWords = getWordsInWindow(words, window).sort(
+    (a, b) => a.start - b.start
+  );
+  const shownAt = window.questionShownAt ?? window.start;
+
+  if (answerWords.length === 0) {
+    return {
+      wordCount: 0,
+      speakingDuration: 0,
+      wordsPerMinute: 0,
+      paceTimeline: [],
+      longPauseCount: 0,
+      longestPause: 0,
+      timeToFirstWord: null,
+    };
+  }
+
+  const first = answerWords[0];
+  const last = answerWords[answerWords.length - 1];
+  const speakingDuration = Math.max(0, last.end - first.start);
+
+  let longPauseCount = 0;
+  let longestPause = 0;
+  for (let i = 1; i < answerWords.length; i++) {
+    const gap = Math.max(0, answerWords[i].start - answerWords[i - 1].end);
+    if (gap >= LONG_PAUSE_SECONDS) longPauseCount++;
+    longestPause = Math.max(longestPause, gap);
+  }
+
+  return {
+    wordCount: answerWords.length,
+    speakingDuration: round(speakingDuration),
+    wordsPerMinute:
+      speakingDuration > 0
+        ? Math.round((answerWords.length / speakingDuration) * 60)
+        : 0,
+    paceTimeline: buildPaceTimeline(answerWords, shownAt, window.end),
+    longPauseCount,
+    longestPause: round(longestPause),
+    timeToFirstWord: round(Math.max(0, first.start - shownAt)),
+  };
+}
+
+/**
+ * Bucket words into fixed windows and report the words-per-minute of each
+ */
+export function buildPaceTimeline(
+  words: TranscribedWord[],
+  from: number,
+  to: number,
+  bucketSeconds: number = PACE_BUCKET_SECONDS
+): PaceTimelinePoint[] {
+  const lastWordEnd = words.length > 0 ? words[words.length - 1].end : from;
+  const end = Math.max(from, Math.min(to, lastWordEnd));
+  const bucketCount = Math.max(1, Math.ceil((end - from) / bucketSeconds));
+  const counts = new Array<number>(bucketCount).fill(0);
+
+  words.forEach((w) => {
+    const index = Math.floor((w.start - from) / bucketSeconds);
+    if (index >= 0 && index < bucketCount) counts[index]++;
+  });
+
+  return counts.map((count, index) => {
+    const bucketStart = from + index * bucketSeconds;
+    const bucketLength = Math.max(
+      1,
+      Math.min(bucketSeconds, end - bucketStart)
+    );
+    return {
+      time: index * bucketSeconds,
+      wpm: Math.round((count / bucketLength) * 60),
+    };
+  });
+}
+
+/**
+ * Estimate metrics from text alone when no word timestamps are available
+ */
+export function estimateSpeechMetricsFromText(
+  text: string,
+  durationSeconds: number
+): SpeechMetrics {
+  const wordCount = text.split(/\s+/).filter((w) => w.length > 0).length;
+  const duration = Math.max(0, durationSeconds);
+  return {
+    wordCount,
+    speakingDuration: round(duration),
+    wordsPerMinute: duration > 0 ? Math.round((wordCount / duration) * 60) : 0,
+    paceTimeline: [],
+    longPauseCount: 0,
+    longestPause: 0,
+    timeToFirstWord: null,
+  };
+}
+
+/**
+ * Combine per-answer metrics into session-wide figures
+ */
+export function summarizeSpeechMetrics(
+  metrics: SpeechMetrics[]
+): Pick<
+  SpeechMetrics,
+  "wordCount" | "speakingDuration" | "wordsPerMinute" | "longPauseCount"
+> {
+  const wordCount = metrics.reduce((sum, m) => sum + m.wordCount, 0);
+  const speakingDuration = metrics.reduce(
+    (sum, m) => sum + m.speakingDuration,
+    0
+  );
+  return {
+    wordCount,
+    speakingDuration: round(speakingDuration),
+    wordsPerMinute:
+      speakingDuration > 0
+        ? Math.round((wordCount / speakingDuration) * 60)
+        : 0,
+    longPauseCount: metrics.reduce((sum, m) => sum + m.longPauseCount, 0),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Sentence segments built from word-level transcription timestamps, shared
+ * by the Deepgram and on-device transcription services
+ */
+
+import type { TranscribedWord } from "../services/deepgramTranscriptionService";
+
+export interface TranscriptSentence {
+  text: string;
+  start: number; // seconds from start of audio
+  end: number; // seconds from start of audio
+}
+
+/**
+ * Group timed words into sentences on terminal punctuation
+ */
+export function buildSentencesFromWords(
+  words: TranscribedWord[]
+): TranscriptSentence[] {
+  const sentences: TranscriptSentence[] = [];
+  let current: TranscribedWord[] = [];
+  words.forEach((w, index) => {
+    current.push(w);
+    // Devanagari text ends sentences with a danda (।)
+    if (/[.!?।]$/.test(w.word) || index === words.length - 1) {
+      sentences.push({
+        text: current.map((cw) => cw.word).join(" "),
+        start: current[0].start,
+        end: current[current.length - 1].end,
+      });
+      current = [];
+    }
+  });
+  return sentences;
+}
@@ -80,6 +80,22 @@ export function getBestRecordingFormat(): string {
   return support.preferredFormat || support.fallbackFormat || "video/webm";
 }
 
+/**
+ * Get the best MIME type for audio-only recording
+ */
+export function getBestAudioRecordingFormat(): string {
+  if (MediaRecorder.isTypeSupported("audio/webm;codecs=opus")) {
+    return "audio/webm;codecs=opus";
+  }
+  if (MediaRecorder.isTypeSupported("audio/webm")) {
+    return "audio/webm";
+  }
+  if (MediaRecorder.isTypeSupported("audio/mp4")) {
+    return "audio/mp4";
+  }
+  return "audio/ogg";
+}
+
 /**
  * Check if the current browser supports MP4 recording
  */
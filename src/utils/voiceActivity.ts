@@ -0,0 +1,103 @@
+/**
+ * Speech detection from word timestamps, used to snap question boundaries to
+ * where the candidate actually started and stopped speaking. Transcription
+ * already found the speech, so the recording never has to be decoded again.
+ */
+
+export interface SpeechRegion {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface VoiceActivityOptions {
+  minSpeechSeconds?: number; // shorter bursts (stray words) are dropped
+  mergeGapSeconds?: number; // shorter silences are treated as speech
+}
+
+export interface QuestionWindow {
+  start: number; // seconds into the recording
+  end: number;
+  shownAt?: number; // when the question appeared; speech may begin here
+}
+
+const DEFAULT_OPTIONS: Required<VoiceActivityOptions> = {
+  minSpeechSeconds: 0.25,
+  mergeGapSeconds: 0.5,
+};
+
+// Small margin kept around speech so the first and last syllables survive
+const EDGE_PADDING_SECONDS = 0.15;
+// How far the last answer may run past the end of the interview, for users who
+// were still talking as they ended it
+const END_TOLERANCE_SECONDS = 2;
+
+/**
+ * Group timed words into the regions of the recording that contain speech
+ */
+export function detectSpeechRegions(
+  words: SpeechRegion[],
+  options: VoiceActivityOptions = {}
+): SpeechRegion[] {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const sorted = words
+    .filter((word) => word.end > word.start)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: SpeechRegion[] = [];
+  for (const word of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && word.start - last.end < opts.mergeGapSeconds) {
+      last.end = Math.max(last.end, word.end);
+    } else {
+      merged.push({ start: word.start, end: word.end });
+    }
+  }
+
+  return merged.filter(
+    (region) => region.end - region.start >= opts.minSpeechSeconds
+  );
+}
+
+/**
+ * Tighten each question window to the speech it contains. Answers may start
+ * early (during the prep gap, once the question is shown) and the last one may
+ * run slightly past the end, but never into another question's window.
+ */
+export function snapWindowsToSpeech(
+  windows: QuestionWindow[],
+  regions: SpeechRegion[]
+): QuestionWindow[] {
+  const snapped: QuestionWindow[] = [];
+
+  windows.forEach((current, index) => {
+    const previousEnd = index > 0 ? snapped[index - 1].end : 0;
+    const next = windows[index + 1];
+    const nextStart = next
+      ? Math.min(next.shownAt ?? next.start, next.start)
+      : Infinity;
+
+    const lowerBound = Math.max(previousEnd, current.shownAt ?? current.start);
+    const upperBound = Math.min(nextStart, current.end + END_TOLERANCE_SECONDS);
+
+    // Speech after the question appeared and before the user moved on
+    const speech = regions.filter(
+      (region) => region.end > lowerBound && region.start < current.end
+    );
+
+    if (speech.length === 0) {
+      const start = Math.max(current.start, previousEnd);
+      snapped.push({ ...current, start, end: Math.max(start, current.end) });
+      return;
+    }
+
+    const start = Math.max(lowerBound, speech[0].start - EDGE_PADDING_SECONDS);
+    const end = Math.min(
+      upperBound,
+      speech[speech.length - 1].end + EDGE_PADDING_SECONDS
+    );
+
+    snapped.push({ ...current, start, end: Math.max(start, end) });
+  });
+
+  return snapped;
+}
@@ -0,0 +1,48 @@
+/**
+ * Waveform peaks for audio-only recordings, stored in place of video so the
+ * results page can draw the recording without decoding it again
+ */
+
+import { decodeToMonoPcm } from "./audioDecoding";
+
+// Enough detail for a full-width player; a few KB of JSON per session
+export const WAVEFORM_BUCKETS = 600;
+// Peaks only need loudness, so a low sample rate keeps decoding cheap
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+/**
+ * Reduce samples to `bucketCount` peak levels, normalized to 0..1
+ */
+export function computeWaveformPeaks(
+  samples: Float32Array,
+  bucketCount: number = WAVEFORM_BUCKETS
+): number[] {
+  if (samples.length === 0) return [];
+
+  const bucketSize = Math.max(1, Math.floor(samples.length / bucketCount));
+  const peaks: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += bucketSize) {
+    let peak = 0;
+    const end = Math.min(samples.length, offset + bucketSize);
+    for (let i = offset; i < end; i++) {
+      const level = Math.abs(samples[i]);
+      if (level > peak) peak = level;
+    }
+    peaks.push(peak);
+  }
+
+  const max = Math.max(...peaks);
+  if (max === 0) return peaks;
+  return peaks.map((peak) => Math.round((peak / max) * 1000) / 1000);
+}
+
+/**
+ * Decode a recording and compute its waveform peaks
+ */
+export async function buildWaveform(
+  blob: Blob,
+  bucketCount: number = WAVEFORM_BUCKETS
+): Promise<number[]> {
+  const samples = await decodeToMonoPcm(blob, WAVEFORM_SAMPLE_RATE);
+  return computeWaveformPeaks(samples, bucketCount);
+}
@@ -0,0 +1,118 @@
+/**
+ * Local Transcription Worker
+ * Runs a Whisper model (transformers.js / ONNX Runtime WASM) off the main thread
+ * so interviews can be transcribed without network access to a remote provider.
+ */
+
+import { env, pipeline } from "@huggingface/transformers";
+
+export interface WhisperChunk {
+  text: string;
+  timestamp: [number, number | null];
+}
+
+export interface WhisperOutput {
+  text: string;
+  chunks?: WhisperChunk[];
+}
+
+type Transcriber = (
+  audio: Float32Array,
+  options: Record<string, unknown>
+) => Promise<WhisperOutput>;
+
+export interface LocalModelSource {
+  localModelPath?: string; // self-hosted checkpoints, e.g. "/models/"
+  allowRemoteModels: boolean; // fall back to the Hugging Face Hub
+  wasmPath?: string; // self-hosted ONNX Runtime .wasm files
+}
+
+export type LocalTranscriptionRequest = {
+  type: "transcribe";
+  id: string;
+  audio: Float32Array;
+  model: string;
+  language?: string;
+  source: LocalModelSource;
+};
+
+export type LocalTranscriptionMessage =
+  | {
+      type: "progress";
+      id: string;
+      stage: "loading" | "transcribing";
+      progress: number;
+    }
+  | { type: "result"; id: string; output: WhisperOutput }
+  | { type: "error"; id: string; message: string };
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<LocalTranscriptionRequest>) => void) | null;
+  postMessage: (message: LocalTranscriptionMessage) => void;
+}
+
+const ctx = self as unknown as WorkerScope;
+
+let transcriber: Transcriber | null = null;
+let loadedModel: string | null = null;
+
+const loadTranscriber = async (
+  model: string,
+  source: LocalModelSource,
+  onProgress: (progress: number) => void
+): Promise<Transcriber> => {
+  if (transcriber && loadedModel === model) {
+    return transcriber;
+  }
+
+  // Prefer self-hosted files so the fallback works without the network
+  env.allowLocalModels = !!source.localModelPath;
+  if (source.localModelPath) env.localModelPath = source.localModelPath;
+  env.allowRemoteModels = source.allowRemoteModels;
+  if (source.wasmPath && env.backends.onnx.wasm) {
+    env.backends.onnx.wasm.wasmPaths = source.wasmPath;
+  }
+
+  transcriber = (await pipeline("automatic-speech-recognition", model, {
+    progress_callback: (event: { status: string; progress?: number }) => {
+      if (event.status === "progress" && typeof event.progress === "number") {
+        onProgress(event.progress);
+      }
+    },
+  })) as unknown as Transcriber;
+  loadedModel = model;
+  return transcriber;
+};
+
+ctx.onmessage = async (event) => {
+  const { id, audio, model, language, source } = event.data;
+
+  try {
+    const run = await loadTranscriber(model, source, (progress) =>
+      ctx.postMessage({ type: "progress", id, stage: "loading", progress })
+    );
+
+    ctx.postMessage({
+      type: "progress",
+      id,
+      stage: "transcribing",
+      progress: 0,
+    });
+
+    const output = await run(audio, {
+      return_timestamps: "word",
+      chunk_length_s: 30,
+      stride_length_s: 5,
+      // English-only checkpoints reject a language hint
+      ...(language && !model.endsWith(".en") ? { language } : {}),
+    });
+
+    ctx.postMessage({ type: "result", id, output });
+  } catch (error) {
+    ctx.postMessage({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
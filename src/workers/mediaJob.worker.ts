@@ -0,0 +1,169 @@
+/**
+ * Media Job Worker
+ * Hosts the ffmpeg.wasm core and runs one media job at a time: conversions,
+ * remuxing, audio extraction and clip exports. Running the core here rather
+ * than through @ffmpeg/ffmpeg lets a job be cancelled by terminating the
+ * worker, since ffmpeg's exec cannot be interrupted once it starts.
+ */
+
+import { toBlobURL } from "@ffmpeg/util";
+
+// Same core build videoConversionService used on the main thread, as ESM
+const CORE_BASE_URL = "https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm";
+// stderr lines kept to explain a failed job
+const LOG_TAIL_LINES = 5;
+
+export interface MediaJobFile {
+  name: string;
+  data: Uint8Array;
+}
+
+export type MediaJobRequest = {
+  type: "run";
+  id: string;
+  files: MediaJobFile[];
+  args: string[];
+  output: string;
+  // Tried when `args` fails, e.g. a re-encode when a stream copy is refused
+  fallbackArgs?: string[];
+};
+
+export type MediaJobMessage =
+  | {
+      type: "progress";
+      id: string;
+      stage: "loading" | "processing";
+      progress: number; // ffmpeg's own estimate, 0 to 1
+      time: number; // output position in microseconds
+    }
+  | { type: "result"; id: string; data: Uint8Array }
+  | { type: "error"; id: string; message: string };
+
+interface FFmpegCore {
+  FS: {
+    writeFile: (path: string, data: Uint8Array) => void;
+    readFile: (path: string) => Uint8Array;
+    unlink: (path: string) => void;
+  };
+  setLogger: (logger: (log: { type: string; message: string }) => void) => void;
+  setProgress: (
+    handler: (event: { progress: number; time: number }) => void
+  ) => void;
+  exec: (...args: string[]) => number;
+  reset: () => void;
+  ret: number;
+}
+
+type CreateFFmpegCore = (options: {
+  mainScriptUrlOrBlob: string;
+}) => Promise<FFmpegCore>;
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<MediaJobRequest>) => void) | null;
+  postMessage: (message: MediaJobMessage, transfer?: Transferable[]) => void;
+}
+
+const ctx = self as unknown as WorkerScope;
+
+let core: FFmpegCore | null = null;
+let currentJobId: string | null = null;
+let logTail: string[] = [];
+
+const loadCore = async (): Promise<FFmpegCore> => {
+  if (core) return core;
+
+  const coreURL = await toBlobURL(
+    `${CORE_BASE_URL}/ffmpeg-core.js`,
+    "text/javascript"
+  );
+  const wasmURL = await toBlobURL(
+    `${CORE_BASE_URL}/ffmpeg-core.wasm`,
+    "application/wasm"
+  );
+  const createFFmpegCore = (
+    (await import(/* @vite-ignore */ coreURL)) as {
+      default: CreateFFmpegCore;
+    }
+  ).default;
+
+  // The core finds its wasm through the hash, as @ffmpeg/ffmpeg does
+  core = await createFFmpegCore({
+    mainScriptUrlOrBlob: `${coreURL}#${btoa(JSON.stringify({ wasmURL }))}`,
+  });
+  core.setLogger(({ type, message }) => {
+    if (type === "stderr") {
+      logTail = [...logTail, message].slice(-LOG_TAIL_LINES);
+    }
+  });
+  core.setProgress(({ progress, time }) => {
+    if (currentJobId) {
+      ctx.postMessage({
+        type: "progress",
+        id: currentJobId,
+        stage: "processing",
+        progress,
+        time,
+      });
+    }
+  });
+  return core;
+};
+
+const exec = (ffmpeg: FFmpegCore, args: string[]): number => {
+  logTail = [];
+  ffmpeg.exec(...args);
+  const ret = ffmpeg.ret;
+  ffmpeg.reset();
+  return ret;
+};
+
+ctx.onmessage = async (event) => {
+  const { id, files, args, output, fallbackArgs } = event.data;
+  let ffmpeg: FFmpegCore | null = null;
+
+  try {
+    ctx.postMessage({
+      type: "progress",
+      id,
+      stage: "loading",
+      progress: 0,
+      time: 0,
+    });
+    ffmpeg = await loadCore();
+
+    for (const file of files) {
+      ffmpeg.FS.writeFile(file.name, file.data);
+    }
+
+    currentJobId = id;
+    let ret = exec(ffmpeg, args);
+    if (ret !== 0 && fallbackArgs) {
+      ret = exec(ffmpeg, fallbackArgs);
+    }
+    if (ret !== 0) {
+      throw new Error(
+        `ffmpeg exited with code ${ret}${
+          logTail.length > 0 ? `: ${logTail.join(" ")}` : ""
+        }`
+      );
+    }
+
+    const data = ffmpeg.FS.readFile(output);
+    ctx.postMessage({ type: "result", id, data }, [data.buffer]);
+  } catch (error) {
+    ctx.postMessage({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  } finally {
+    currentJobId = null;
+    for (const name of [...files.map((file) => file.name), output]) {
+      try {
+        ffmpeg?.FS.unlink(name);
+      } catch {
+        // Not written, e.g. the job failed before producing output
+      }
+    }
+  }
+};
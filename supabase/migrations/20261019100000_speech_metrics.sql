@@ -0,0 +1,10 @@
+-- ===========================================
+-- SPEECH METRICS
+-- ===========================================
+-- Per-answer speaking rate, pace timeline, pause counts and time-to-first-word,
+-- computed client-side from transcription word timestamps
+
+ALTER TABLE public.interview_analysis
+  ADD COLUMN IF NOT EXISTS speech_metrics JSONB;
+
+COMMENT ON COLUMN public.interview_analysis.speech_metrics IS 'Speech metrics from word timestamps: wordsPerMinute, paceTimeline, longPauseCount, longestPause, timeToFirstWord';
@@ -0,0 +1,14 @@
+-- ===========================================
+-- INTERVIEW LANGUAGE
+-- ===========================================
+-- Question banks are tagged with the language they are written in so a session
+-- only draws questions in its configured language
+
+ALTER TABLE public.interview_questions
+  ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en'
+  CHECK (language IN ('en', 'es', 'de', 'hi'));
+
+CREATE INDEX IF NOT EXISTS idx_interview_questions_type_language
+  ON public.interview_questions(interview_type, language);
+
+COMMENT ON COLUMN public.interview_questions.language IS 'ISO 639-1 code of the question text (en, es, de, hi)';
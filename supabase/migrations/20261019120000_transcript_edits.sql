@@ -0,0 +1,36 @@
+-- ===========================================
+-- TRANSCRIPT EDITS
+-- ===========================================
+-- Users can correct mis-transcribed answers. The first transcription is kept in
+-- original_response_text and every correction is logged in transcript_edits,
+-- together with the answer's score before and after re-analysis.
+
+ALTER TABLE public.interview_responses
+  ADD COLUMN IF NOT EXISTS original_response_text TEXT,
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.interview_responses.original_response_text IS 'Transcription as first produced, set when the user first edits response_text';
+
+CREATE TABLE IF NOT EXISTS public.transcript_edits (
+  id UUID NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_response_id UUID NOT NULL REFERENCES public.interview_responses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  previous_text TEXT NOT NULL,
+  new_text TEXT NOT NULL,
+  score_before INTEGER,
+  score_after INTEGER,
+  reanalyzed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on transcript_edits
+ALTER TABLE public.transcript_edits ENABLE ROW LEVEL SECURITY;
+
+-- Transcript edits policies
+CREATE POLICY "Users can view own transcript edits" ON public.transcript_edits FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own transcript edits" ON public.transcript_edits FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own transcript edits" ON public.transcript_edits FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_edits_response_id ON public.transcript_edits(interview_response_id, created_at);
+
+COMMENT ON TABLE public.transcript_edits IS 'History of user corrections to answer transcriptions';
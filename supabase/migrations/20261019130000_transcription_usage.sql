@@ -0,0 +1,31 @@
+-- ===========================================
+-- TRANSCRIPTION USAGE
+-- ===========================================
+-- One row per transcription call (Deepgram upload, Deepgram stream or
+-- on-device Whisper) so speech-to-text spend can be reported next to the LLM
+-- costs in interview_analysis.cost_cents. Costs are fractional cents because
+-- providers bill per second of audio.
+
+CREATE TABLE IF NOT EXISTS public.transcription_usage (
+  id UUID NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES public.interview_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  streamed BOOLEAN NOT NULL DEFAULT false,
+  audio_seconds DECIMAL(10,2) NOT NULL,
+  cost_cents DECIMAL(10,4) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on transcription_usage
+ALTER TABLE public.transcription_usage ENABLE ROW LEVEL SECURITY;
+
+-- Transcription usage policies
+CREATE POLICY "Users can view own transcription usage" ON public.transcription_usage FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own transcription usage" ON public.transcription_usage FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_transcription_usage_session_id ON public.transcription_usage(session_id);
+CREATE INDEX IF NOT EXISTS idx_transcription_usage_user_created ON public.transcription_usage(user_id, created_at);
+
+COMMENT ON TABLE public.transcription_usage IS 'Audio seconds and cost of every transcription call, linked to the interview session';
@@ -0,0 +1,19 @@
+-- ===========================================
+-- RECORDING BACKUPS
+-- ===========================================
+-- Private bucket for opt-in cloud copies of interview recordings, so they
+-- survive cleared site data and can be opened on another machine. Objects are
+-- stored under <user id>/<session id>/ and only that user can reach them:
+--   manifest.json       local video metadata and the list of answer clips
+--   video               the full recording
+--   clips/<question id> per-question answer clips, when recorded
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('interview-recordings', 'interview-recordings', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Recording backup policies
+CREATE POLICY "Users can view own recording backups" ON storage.objects FOR SELECT USING (bucket_id = 'interview-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can upload own recording backups" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'interview-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can update own recording backups" ON storage.objects FOR UPDATE USING (bucket_id = 'interview-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users can delete own recording backups" ON storage.objects FOR DELETE USING (bucket_id = 'interview-recordings' AND (storage.foldername(name))[1] = auth.uid()::text);
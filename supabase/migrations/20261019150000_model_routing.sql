@@ -0,0 +1,25 @@
+-- ===========================================
+-- MODEL ROUTING RULES
+-- ===========================================
+-- Each user's routing table for answer scoring, edited in AI settings. Rules
+-- are an ordered JSON array; the first that matches an answer's interview
+-- type, custom domain and length picks the model:
+--   [{ "id", "interviewType", "customDomain", "minWords", "maxWords", "model" }]
+-- Users without a row get the built-in model per interview type.
+
+CREATE TABLE IF NOT EXISTS public.model_routing_rules (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on model_routing_rules
+ALTER TABLE public.model_routing_rules ENABLE ROW LEVEL SECURITY;
+
+-- Model routing policies
+CREATE POLICY "Users can view own model routing" ON public.model_routing_rules FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own model routing" ON public.model_routing_rules FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own model routing" ON public.model_routing_rules FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own model routing" ON public.model_routing_rules FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.model_routing_rules IS 'Ordered rules choosing the AI model that scores each answer, per user';
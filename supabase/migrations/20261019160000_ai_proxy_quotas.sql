@@ -0,0 +1,49 @@
+-- ===========================================
+-- AI PROXY QUOTAS
+-- ===========================================
+-- Daily request counters for the serverless AI proxy (api/ai/chat and
+-- api/transcription/token). The proxy holds the provider keys and calls
+-- consume_ai_proxy_quota with the service role before every provider call,
+-- so users can read their own counters but never write them.
+
+CREATE TABLE IF NOT EXISTS public.ai_proxy_usage (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('chat', 'transcription')),
+  usage_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, kind, usage_date)
+);
+
+-- Enable RLS on ai_proxy_usage
+ALTER TABLE public.ai_proxy_usage ENABLE ROW LEVEL SECURITY;
+
+-- AI proxy usage policies
+CREATE POLICY "Users can view own AI proxy usage" ON public.ai_proxy_usage FOR SELECT USING (auth.uid() = user_id);
+
+-- Count one request against today's limit. Returns the new count, or NULL
+-- when the limit is already reached (the counter is left unchanged).
+CREATE OR REPLACE FUNCTION public.consume_ai_proxy_quota(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_limit INTEGER
+) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO public.ai_proxy_usage (user_id, kind, usage_date, request_count)
+  VALUES (p_user_id, p_kind, CURRENT_DATE, 1)
+  ON CONFLICT (user_id, kind, usage_date) DO UPDATE
+    SET request_count = public.ai_proxy_usage.request_count + 1
+    WHERE public.ai_proxy_usage.request_count < p_limit
+  RETURNING request_count INTO v_count;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_ai_proxy_quota(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_ai_proxy_quota(UUID, TEXT, INTEGER) TO service_role;
+
+COMMENT ON TABLE public.ai_proxy_usage IS 'Requests per user, kind and day through the server-side AI proxy, used to enforce daily quotas';
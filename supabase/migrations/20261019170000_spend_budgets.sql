@@ -0,0 +1,24 @@
+-- ===========================================
+-- SPEND BUDGETS
+-- ===========================================
+-- Daily and monthly caps on a user's AI analysis and transcription spend, in
+-- cents. The app checks them before every paid call and falls back to free
+-- on-device analysis and transcription once a cap would be exceeded. Users
+-- without a row get the app's default caps; a NULL cap means unlimited.
+-- Caps are set by admins (SQL editor or service role), so users can read
+-- their own row but not change it.
+
+CREATE TABLE IF NOT EXISTS public.spend_budgets (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_limit_cents DECIMAL(10,2) CHECK (daily_limit_cents >= 0),
+  monthly_limit_cents DECIMAL(10,2) CHECK (monthly_limit_cents >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on spend_budgets
+ALTER TABLE public.spend_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Spend budget policies
+CREATE POLICY "Users can view own spend budget" ON public.spend_budgets FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.spend_budgets IS 'Per-user daily and monthly caps on AI and transcription spend in cents; NULL means unlimited';
@@ -0,0 +1,38 @@
+-- ===========================================
+-- USAGE EVENTS
+-- ===========================================
+-- A ledger of every LLM request the app makes: answer analysis, question
+-- classification, summary themes, feedback and next steps, and each retry or
+-- model fallback attempt. Failed requests are logged too (with zero tokens)
+-- so error rates and latency can be reported per model. interview_analysis
+-- still carries the cost of the analysis that was saved for each answer.
+
+CREATE TABLE IF NOT EXISTS public.usage_events (
+  id UUID NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.interview_sessions(id) ON DELETE SET NULL,
+  purpose TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error')),
+  attempt INTEGER NOT NULL DEFAULT 1,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_cents DECIMAL(10,4) NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on usage_events
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Usage event policies
+CREATE POLICY "Users can view own usage events" ON public.usage_events FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own usage events" ON public.usage_events FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON public.usage_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_events_session_id ON public.usage_events(session_id);
+
+COMMENT ON TABLE public.usage_events IS 'Model, tokens, latency, cost and purpose of every LLM request, successful or failed';
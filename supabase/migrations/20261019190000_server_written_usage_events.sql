@@ -0,0 +1,10 @@
+-- ===========================================
+-- SERVER-WRITTEN USAGE EVENTS
+-- ===========================================
+-- The AI proxy records each chat completion in usage_events with the service
+-- role, which bypasses RLS. Clients keep read access to their own events but
+-- can no longer insert them, so the ledger can't be understated or padded
+-- from the browser. Direct provider calls (development builds and local
+-- models in the browser) are not recorded.
+
+DROP POLICY IF EXISTS "Users can create own usage events" ON public.usage_events;
@@ -0,0 +1,9 @@
+-- ===========================================
+-- SERVER-WRITTEN TRANSCRIPTION USAGE
+-- ===========================================
+-- Transcription rows are now priced and written by api/transcription/usage
+-- with the service role, like usage_events, so users can no longer edit their
+-- own spend. The audio length is still reported by the browser, which calls
+-- Deepgram itself. Users keep read access to their own rows.
+
+DROP POLICY IF EXISTS "Users can create own transcription usage" ON public.transcription_usage;
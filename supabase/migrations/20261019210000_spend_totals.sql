@@ -0,0 +1,29 @@
+-- ===========================================
+-- SPEND TOTALS
+-- ===========================================
+-- A user's AI and transcription spend since a point in time, from the
+-- server-written usage_events and transcription_usage ledgers. The AI proxy
+-- calls it with the service role to enforce spend_budgets before every paid
+-- call. It runs with the caller's rights, so signed-in users can total their
+-- own spend but see 0 for anyone else's.
+
+CREATE OR REPLACE FUNCTION public.get_spend_cents(
+  p_user_id UUID,
+  p_since TIMESTAMP WITH TIME ZONE
+) RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COALESCE((
+      SELECT SUM(cost_cents) FROM public.usage_events
+      WHERE user_id = p_user_id AND created_at >= p_since
+    ), 0) +
+    COALESCE((
+      SELECT SUM(cost_cents) FROM public.transcription_usage
+      WHERE user_id = p_user_id AND created_at >= p_since
+    ), 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_spend_cents(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_spend_cents(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated, service_role;